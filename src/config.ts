@@ -3,83 +3,573 @@
  * 
  * This module defines allowed filesystem roots and other safety constraints
  * to prevent tools from accessing sensitive areas of your machine.
+ * 
+ * Settings are layered: built-in defaults, then the user config file
+ * (~/.config/aashna-dev-mcp/config.json or .yaml), then a project config
+ * file (.aashna-dev-mcp.json or .yaml in the working directory or a parent),
+ * then environment variables. See core/settings.ts.
  */
 
 import * as os from "os";
 import * as path from "path";
+import { loadSettings } from "./core/settings.js";
+import type { SettingDefinitions } from "./core/settings.js";
+import type {
+  PolicyRule,
+  ConfirmationSetting,
+  ToolGroup,
+  ToolProfile,
+  ServerSettings,
+} from "./core/types.js";
+
+/**
+ * Every tool group, in the order tools are listed
+ */
+const ALL_TOOL_GROUPS: ToolGroup[] = [
+  "terminal", "fs", "git", "project", "notes", "audit", "server",
+  "macos_notes", "macos_reminders", "macos_clipboard", "macos_system",
+  "macos_network", "macos_calendar", "browser",
+];
+
+/**
+ * Tool profiles. A profile enables whole tool groups; a read-only profile
+ * further limits them to tools that do not change anything.
+ */
+export const TOOL_PROFILES: Record<string, ToolProfile> = {
+  readonly: {
+    description: "Inspection only: no commands, writes, commits, kills or app changes",
+    groups: ALL_TOOL_GROUPS.filter((group) => group !== "terminal"),
+    read_only: true,
+  },
+  dev: {
+    description: "Development tools without access to personal macOS apps",
+    groups: [
+      "terminal", "fs", "git", "project", "notes", "audit", "server",
+      "macos_system", "macos_network", "browser",
+    ],
+  },
+  full: {
+    description: "Every tool",
+    groups: ALL_TOOL_GROUPS,
+  },
+};
+
+/**
+ * Parses MCP_CONFIRM_TOOLS, a comma-separated list of tool=seconds or
+ * tool=off entries, into confirm_tools form (0 means off).
+ */
+function parseConfirmTools(raw: string): Record<string, unknown> {
+  const tools: Record<string, unknown> = {};
+  for (const entry of raw.split(",")) {
+    const [tool, value] = entry.trim().split("=").map((part) => part.trim());
+    if (!tool) continue;
+    
+    if (value === "off" || value === "false") {
+      tools[tool] = 0;
+    } else {
+      // Non-numeric values are kept so that validation reports them
+      tools[tool] = Number.isNaN(Number(value)) ? value : Number(value);
+    }
+  }
+  return tools;
+}
+
+/**
+ * Sensitive files that tools refuse to touch even inside an allowed root.
+ * 
+ * A pattern without "/" matches any single path segment (so ".ssh" covers
+ * everything inside ~/.ssh); a pattern with "/" matches the whole absolute
+ * path. Patterns starting with "!" are exceptions.
+ */
+const DEFAULT_DENY_GLOBS = [
+  ".env",
+  ".env.*",
+  "!.env.example",
+  "!.env.sample",
+  "!.env.template",
+  "*.pem",
+  "*.key",
+  "*.p12",
+  "*.pfx",
+  "id_rsa*",
+  "id_dsa*",
+  "id_ecdsa*",
+  "id_ed25519*",
+  ".ssh",
+  ".aws",
+  ".gnupg",
+  ".kube",
+  ".netrc",
+  ".npmrc",
+  ".pypirc",
+  ".git-credentials",
+  "~/.docker/config.json",
+  "~/.config/gh/hosts.yml",
+  "~/Library/Keychains",
+];
+
+/**
+ * Dependency, build output and cache directories that crowd a project
+ * overview. Gitignore syntax, applied relative to the tree's root.
+ */
+const DEFAULT_TREE_IGNORE_GLOBS = [
+  "node_modules/",
+  "bower_components/",
+  "dist/",
+  "build/",
+  "out/",
+  "target/",
+  "coverage/",
+  ".next/",
+  ".nuxt/",
+  ".turbo/",
+  ".cache/",
+  ".venv/",
+  "venv/",
+  "__pycache__/",
+  ".pytest_cache/",
+  ".mypy_cache/",
+  ".gradle/",
+  ".idea/",
+  ".DS_Store",
+  "*.pyc",
+];
+
+/**
+ * Every configuration setting: its schema, default, and environment variable.
+ * 
+ * Settings marked userOnly widen what the server may touch or decide which
+ * tools it exposes, so a project config file (which could come from a cloned
+ * repository) cannot set them.
+ */
+const SETTING_DEFINITIONS: SettingDefinitions<ServerSettings> = {
+  allowed_roots: {
+    description: "Directories filesystem, git and project tools may read and write",
+    schema: { type: "array", items: { type: "string", minLength: 1 }, minItems: 1 },
+    // Sensible defaults that work on any macOS system
+    default: [
+      path.join(os.homedir(), "dev"),
+      path.join(os.homedir(), "projects"),
+      path.join(os.homedir(), "code"),
+      path.join(os.homedir(), "workspace"),
+      path.join(os.homedir(), "Desktop"),
+      path.join(os.homedir(), "Documents"),
+    ],
+    env: "MCP_ALLOWED_ROOTS",
+    path: true,
+    userOnly: true,
+  },
+  read_only_roots: {
+    description: "Directories tools may read but never write",
+    schema: { type: "array", items: { type: "string", minLength: 1 } },
+    default: [path.join(os.homedir(), "Downloads")],
+    env: "MCP_READ_ONLY_ROOTS",
+    path: true,
+    userOnly: true,
+  },
+  symlink_roots: {
+    description: "Allowed roots whose symlinks may point outside the root (by default such symlinks are refused)",
+    schema: { type: "array", items: { type: "string", minLength: 1 } },
+    default: [],
+    env: "MCP_SYMLINK_ROOTS",
+    path: true,
+    userOnly: true,
+  },
+  deny_globs: {
+    description: "Sensitive files refused even inside allowed roots; \"!pattern\" makes an exception",
+    schema: { type: "array", items: { type: "string", minLength: 1 } },
+    default: DEFAULT_DENY_GLOBS,
+    env: "MCP_DENY_GLOBS",
+    userOnly: true,
+  },
+  command_timeout_seconds: {
+    description: "Default timeout for shell commands (in seconds)",
+    schema: { type: "number", minimum: 1, maximum: 3600 },
+    default: 10,
+    env: "MCP_COMMAND_TIMEOUT",
+  },
+  max_output_chars: {
+    description: "Maximum output length for shell commands (in characters)",
+    schema: { type: "integer", minimum: 1 },
+    default: 10_000,
+    env: "MCP_MAX_OUTPUT_CHARS",
+  },
+  session_buffer_chars: {
+    description: "Maximum output retained per background session (in characters)",
+    schema: { type: "integer", minimum: 1_000 },
+    default: 200_000,
+    env: "MCP_SESSION_BUFFER_CHARS",
+  },
+  max_sessions: {
+    description: "Maximum number of background sessions kept at once",
+    schema: { type: "integer", minimum: 1, maximum: 1_000 },
+    default: 20,
+    env: "MCP_MAX_SESSIONS",
+  },
+  max_file_bytes: {
+    description: "Maximum file size to read (in bytes)",
+    schema: { type: "integer", minimum: 1 },
+    default: 100_000,
+    env: "MCP_MAX_FILE_BYTES",
+  },
+  tree_ignore_globs: {
+    description: "Gitignore-style patterns fs_tree always leaves out, on top of .gitignore",
+    schema: { type: "array", items: { type: "string", minLength: 1 } },
+    default: DEFAULT_TREE_IGNORE_GLOBS,
+    env: "MCP_TREE_IGNORE_GLOBS",
+  },
+  data_dir: {
+    description: "Directory for notes, the audit log and other server data",
+    schema: { type: "string", minLength: 1 },
+    default: path.join(os.homedir(), ".aashna_dev_mcp"),
+    env: "MCP_DATA_DIR",
+    path: true,
+    userOnly: true,
+  },
+  trash_retention_days: {
+    description: "Days files deleted with fs_delete stay restorable (0 = forever)",
+    schema: { type: "number", minimum: 0 },
+    default: 30,
+    env: "MCP_TRASH_RETENTION_DAYS",
+    userOnly: true,
+  },
+  backup_writes: {
+    description: "Keep the previous version of every file fs_write_file and fs_edit_file change, for fs_undo",
+    schema: { type: "boolean" },
+    default: true,
+    env: "MCP_BACKUP_WRITES",
+    userOnly: true,
+  },
+  backup_max_versions: {
+    description: "Earlier versions kept per file in the backup store",
+    schema: { type: "integer", minimum: 1, maximum: 1000 },
+    default: 20,
+    env: "MCP_BACKUP_MAX_VERSIONS",
+  },
+  audit_max_bytes: {
+    description: "Size at which the audit log is rotated (in bytes)",
+    schema: { type: "integer", minimum: 10_000 },
+    default: 5_000_000,
+    env: "MCP_AUDIT_MAX_BYTES",
+  },
+  audit_max_files: {
+    description: "Number of rotated audit log files kept",
+    schema: { type: "integer", minimum: 1, maximum: 100 },
+    default: 5,
+    env: "MCP_AUDIT_MAX_FILES",
+  },
+  redact_secrets: {
+    description: "Replace API keys, tokens, passwords and other secrets in tool results with placeholders",
+    schema: { type: "boolean" },
+    default: true,
+    env: "MCP_REDACT_SECRETS",
+    userOnly: true,
+  },
+  confirm_tools: {
+    description: "Tools requiring two-phase confirmation: tool name to token lifetime in seconds (0 = off)",
+    schema: { type: "object", additionalProperties: { type: "integer", minimum: 0 } },
+    default: {
+      git_commit: 120,
+      git_push: 120,
+      git_branch_delete: 120,
+      macos_process_kill: 120,
+      fs_write_file: 120,
+      macos_clipboard_clear: 120,
+    },
+    env: "MCP_CONFIRM_TOOLS",
+    parseEnv: parseConfirmTools,
+    userOnly: true,
+  },
+  policy_file: {
+    description: "Command policy file (a missing file means only the built-in rules apply)",
+    schema: { type: "string", minLength: 1 },
+    default: (values) => path.join(values.data_dir as string, "policy.json"),
+    env: "MCP_POLICY_FILE",
+    path: true,
+    userOnly: true,
+  },
+  profile: {
+    description: "Tool profile selecting which tool groups are enabled",
+    schema: { type: "string", enum: Object.keys(TOOL_PROFILES) },
+    default: "full",
+    env: "MCP_PROFILE",
+    userOnly: true,
+  },
+  enable_tools: {
+    description: "Tool names or globs enabled on top of the profile",
+    schema: { type: "array", items: { type: "string", minLength: 1 } },
+    default: [],
+    env: "MCP_ENABLE_TOOLS",
+    userOnly: true,
+  },
+  disable_tools: {
+    description: "Tool names or globs disabled even if the profile includes them (wins over enable_tools)",
+    schema: { type: "array", items: { type: "string", minLength: 1 } },
+    default: [],
+    env: "MCP_DISABLE_TOOLS",
+    userOnly: true,
+  },
+};
+
+/**
+ * The effective configuration, where each value came from, and any
+ * problems found while loading it
+ */
+export const SETTINGS = loadSettings(SETTING_DEFINITIONS);
+
+for (const root of SETTINGS.values.symlink_roots) {
+  if (
+    !SETTINGS.values.allowed_roots.includes(root) &&
+    !SETTINGS.values.read_only_roots.includes(root)
+  ) {
+    SETTINGS.errors.push(
+      `symlink_roots: ${root} is not one of the allowed_roots or read_only_roots`
+    );
+  }
+}
+
+/**
+ * Stops startup if the configuration has problems.
+ * 
+ * @throws Error listing every problem found while loading the configuration
+ */
+export function assertValidSettings(): void {
+  if (SETTINGS.errors.length > 0) {
+    throw new Error(
+      `Invalid configuration:\n  - ${SETTINGS.errors.join("\n  - ")}`
+    );
+  }
+}
 
 /**
  * Allowed root directories for filesystem operations.
  * Tools will only be able to access files/folders within these roots.
  * 
- * Configure via environment variable MCP_ALLOWED_ROOTS (comma-separated paths).
- * If not set, defaults to common development directories.
+ * Configure via allowed_roots in the user config, or environment variable
+ * MCP_ALLOWED_ROOTS (comma-separated paths).
  * 
  * Example:
  *   export MCP_ALLOWED_ROOTS="~/code,~/workspace,~/Documents"
  * 
  * Paths starting with ~ will be expanded to the user's home directory.
  */
-function getAllowedRoots(): string[] {
-  // Check for environment variable first
-  const envRoots = process.env.MCP_ALLOWED_ROOTS;
-  
-  if (envRoots) {
-    return envRoots.split(",").map((p) => {
-      const trimmed = p.trim();
-      // Expand ~ to home directory
-      if (trimmed.startsWith("~")) {
-        return path.join(os.homedir(), trimmed.slice(1));
-      }
-      return path.resolve(trimmed);
-    });
-  }
-  
-  // Default roots - sensible defaults that work on any macOS system
-  return [
-    path.join(os.homedir(), "dev"),
-    path.join(os.homedir(), "projects"),
-    path.join(os.homedir(), "code"),
-    path.join(os.homedir(), "workspace"),
-    path.join(os.homedir(), "Desktop"),
-    path.join(os.homedir(), "Documents"),
-    path.join(os.homedir(), "Downloads"),
-  ];
-}
+export const ALLOWED_ROOTS = SETTINGS.values.allowed_roots;
 
-export const ALLOWED_ROOTS = getAllowedRoots();
+/**
+ * Root directories that tools may read from but never write to.
+ * 
+ * Configure via read_only_roots in the user config, or environment variable
+ * MCP_READ_ONLY_ROOTS (comma-separated paths). Defaults to ~/Downloads.
+ */
+export const READ_ONLY_ROOTS = SETTINGS.values.read_only_roots;
+
+/**
+ * Sensitive-file deny list (see DEFAULT_DENY_GLOBS).
+ * 
+ * Configure via deny_globs in the user config, or environment variable
+ * MCP_DENY_GLOBS (comma-separated globs). Setting it replaces the defaults.
+ */
+export const DENY_GLOBS = SETTINGS.values.deny_globs;
+
+/**
+ * Allowed roots in which symlinks may lead outside the root.
+ * 
+ * By default a path is only allowed if its real location (after resolving
+ * symlinks) is inside an allowed root. List a root here, via symlink_roots
+ * in the user config or MCP_SYMLINK_ROOTS, to trust every symlink inside it.
+ */
+export const SYMLINK_ROOTS = SETTINGS.values.symlink_roots;
 
 /**
  * Default timeout for shell commands (in seconds)
  */
-export const DEFAULT_COMMAND_TIMEOUT = 10;
+export const DEFAULT_COMMAND_TIMEOUT = SETTINGS.values.command_timeout_seconds;
 
 /**
  * Maximum output length for shell commands (in characters)
  */
-export const DEFAULT_MAX_OUTPUT_CHARS = 10_000;
+export const DEFAULT_MAX_OUTPUT_CHARS = SETTINGS.values.max_output_chars;
+
+/**
+ * Maximum output retained per background session (in characters).
+ * Older output is discarded once this is exceeded.
+ */
+export const SESSION_BUFFER_CHARS = SETTINGS.values.session_buffer_chars;
+
+/**
+ * Maximum number of background sessions kept at once (running or finished)
+ */
+export const MAX_SESSIONS = SETTINGS.values.max_sessions;
 
 /**
  * Maximum file size to read (in bytes)
  */
-export const DEFAULT_MAX_FILE_BYTES = 100_000;
+export const DEFAULT_MAX_FILE_BYTES = SETTINGS.values.max_file_bytes;
+
+/**
+ * Dependency, build and cache directories left out of fs_tree overviews
+ * (see DEFAULT_TREE_IGNORE_GLOBS), even in projects without a .gitignore.
+ * 
+ * Configure via tree_ignore_globs in a config file, or environment variable
+ * MCP_TREE_IGNORE_GLOBS (comma-separated). Setting it replaces the defaults.
+ */
+export const TREE_IGNORE_GLOBS = SETTINGS.values.tree_ignore_globs;
 
 /**
  * Directory where notes are stored
  */
-export const NOTES_DIR = path.join(os.homedir(), ".aashna_dev_mcp");
+export const NOTES_DIR = SETTINGS.values.data_dir;
 export const NOTES_FILE = path.join(NOTES_DIR, "notes.json");
 
 /**
- * Dangerous command patterns that should be blocked
+ * Trash for files removed by fs_delete or replaced by fs_move / fs_copy.
+ * Entries older than TRASH_RETENTION_DAYS are purged (0 keeps them forever).
+ */
+export const TRASH_DIR = path.join(NOTES_DIR, "trash");
+export const TRASH_RETENTION_DAYS = SETTINGS.values.trash_retention_days;
+
+/**
+ * Backup store for files changed by fs_write_file and fs_edit_file, with one
+ * store per allowed root. Backups are taken unless BACKUP_WRITES is off, and
+ * the newest BACKUP_MAX_VERSIONS versions of each file are kept.
+ */
+export const BACKUP_DIR = path.join(NOTES_DIR, "backups");
+export const BACKUP_WRITES = SETTINGS.values.backup_writes;
+export const BACKUP_MAX_VERSIONS = SETTINGS.values.backup_max_versions;
+
+/**
+ * Append-only audit log of every tool invocation (JSON Lines).
+ * Rotated to audit.jsonl.1, .2, ... once it exceeds AUDIT_MAX_BYTES;
+ * at most AUDIT_MAX_FILES rotated files are kept.
+ */
+export const AUDIT_LOG_FILE = path.join(NOTES_DIR, "audit.jsonl");
+export const AUDIT_MAX_BYTES = SETTINGS.values.audit_max_bytes;
+export const AUDIT_MAX_FILES = SETTINGS.values.audit_max_files;
+
+/**
+ * Whether secrets in tool results are replaced with [REDACTED:type]
+ * placeholders before they are returned (default: true).
+ * 
+ * Configure via redact_secrets in the user config, or environment variable
+ * MCP_REDACT_SECRETS.
+ */
+export const REDACT_SECRETS = SETTINGS.values.redact_secrets;
+
+/**
+ * Tools that require a two-phase confirmation before they run, and how long
+ * (in seconds) a confirmation token stays valid.
+ * 
+ * Override via confirm_tools in the user config, or environment variable
+ * MCP_CONFIRM_TOOLS, a comma-separated list of tool=seconds or tool=off entries.
+ * 
+ * Example:
+ *   export MCP_CONFIRM_TOOLS="git_push=300,macos_clipboard_clear=off"
  */
-export const DANGEROUS_PATTERNS = [
-  /rm\s+-rf\s+\/(?!\w)/,           // rm -rf / (but allow /Users/... etc)
-  /:\(\)\{\s*:\|\:&\s*\};:/,        // fork bomb
-  /mkfs/,                           // format filesystem
-  /dd\s+if=.*of=\/dev/,             // write to device
-  /> \/dev\/sd[a-z]/,               // write to disk device
-  /curl.*\|\s*(?:bash|sh)/,        // curl to shell (potentially dangerous)
-  /wget.*\|\s*(?:bash|sh)/,        // wget to shell
+export const CONFIRMATION_TOOLS: Record<string, ConfirmationSetting> = Object.fromEntries(
+  Object.entries(SETTINGS.values.confirm_tools).map(([tool, seconds]) => [
+    tool,
+    { enabled: seconds > 0, ttl_seconds: seconds },
+  ])
+);
+
+/**
+ * Active tool profile. Tools outside the profile are neither listed nor callable.
+ * 
+ * Configure via profile in a config file or environment variable MCP_PROFILE
+ * (readonly, dev or full; default: full). Individual tools can be added to or
+ * removed from the profile with enable_tools / MCP_ENABLE_TOOLS and
+ * disable_tools / MCP_DISABLE_TOOLS (tool names or globs such as
+ * "macos_calendar_*"); disabling wins.
+ * 
+ * Example:
+ *   export MCP_PROFILE="readonly"
+ *   export MCP_ENABLE_TOOLS="notes_add"
+ */
+export const TOOL_PROFILE = SETTINGS.values.profile;
+export const ENABLED_TOOLS = SETTINGS.values.enable_tools;
+export const DISABLED_TOOLS = SETTINGS.values.disable_tools;
+
+/**
+ * Command policy file.
+ * 
+ * Configure via policy_file in the user config, or environment variable
+ * MCP_POLICY_FILE. Defaults to policy.json in the data directory
+ * (~/.aashna_dev_mcp); a missing file means only the built-in rules below apply.
+ */
+export const POLICY_FILE = SETTINGS.values.policy_file;
+
+/**
+ * Shell interpreters that should never run code fetched from the network
+ */
+const INTERPRETERS = [
+  "sh", "bash", "zsh", "dash", "ksh", "fish", "eval", "source", ".",
+  "python", "python3", "perl", "ruby", "node",
 ];
 
+/**
+ * Built-in command policy rules, evaluated after any user rules.
+ */
+export const DEFAULT_POLICY_RULES: PolicyRule[] = [
+  {
+    id: "rm-recursive-root",
+    action: "deny",
+    description: "Recursive delete of /, the home directory, or everything under them",
+    executable: "rm",
+    flags: ["r|R|recursive"],
+    args: ["/", "/*", "/.*", "~", "~/", "~/*", "~/.*"],
+  },
+  {
+    id: "find-delete-root",
+    action: "deny",
+    description: "find deleting from /, the home directory, or a directory directly under them",
+    executable: "find",
+    args: ["/", "/*", "/.*", "~", "~/", "~/*", "~/.*"],
+    args_regex: "(^| )(-delete|-(exec|execdir|ok|okdir) (\\S*/)?rm)( |$)",
+  },
+  {
+    id: "rm-no-preserve-root",
+    action: "deny",
+    description: "rm with --no-preserve-root",
+    executable: "rm",
+    flags: ["no-preserve-root"],
+  },
+  {
+    id: "fork-bomb",
+    action: "deny",
+    description: "Classic shell fork bomb",
+    pattern: "(\\w+|:)\\s*\\(\\)\\s*\\{[^}]*\\1\\s*\\|\\s*\\1\\s*&",
+  },
+  {
+    id: "mkfs",
+    action: "deny",
+    description: "Formatting a filesystem",
+    executable: ["mkfs", "mkfs.*", "newfs*"],
+  },
+  {
+    id: "diskutil-erase",
+    action: "deny",
+    description: "Erasing or repartitioning disks",
+    executable: "diskutil",
+    args: ["erase*", "zeroDisk", "randomDisk", "secureErase", "partitionDisk", "reformat"],
+  },
+  {
+    id: "dd-to-device",
+    action: "deny",
+    description: "dd writing to a device",
+    executable: "dd",
+    args: "of=/dev/*",
+  },
+  {
+    id: "redirect-to-device",
+    action: "deny",
+    description: "Redirecting output to a disk device",
+    redirect_to: ["/dev/sd*", "/dev/disk*", "/dev/rdisk*", "/dev/nvme*", "/dev/hd*"],
+  },
+  {
+    id: "remote-code-to-interpreter",
+    action: "deny",
+    description: "Piping or substituting downloaded content into an interpreter",
+    executable: INTERPRETERS,
+    input_from: ["curl", "wget"],
+  },
+];
@@ -0,0 +1,16 @@
+/**
+ * AppleScript helpers.
+ * 
+ * Scripts are passed to `osascript -e` as a single argv entry, so no shell
+ * quoting is involved; only AppleScript's own string syntax needs escaping.
+ */
+
+/**
+ * Escapes a value for interpolation inside an AppleScript string literal.
+ * 
+ * @param value - The raw value
+ * @returns The value with backslashes and double quotes escaped
+ */
+export function escapeAppleScriptString(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
@@ -0,0 +1,204 @@
+/**
+ * Persistent audit log.
+ * 
+ * Every tool invocation is appended as one JSON line to AUDIT_LOG_FILE so
+ * that what an assistant did on this machine can be reviewed afterwards.
+ * Arguments are sanitized before they are written: likely secrets are
+ * redacted, by argument name and by content, and long values (file
+ * contents, clipboard text) are shortened.
+ */
+
+import * as fs from "fs/promises";
+import * as fsSync from "fs";
+import * as path from "path";
+import type { AuditEntry } from "./types.js";
+import { redactText } from "./redact.js";
+import {
+  NOTES_DIR,
+  AUDIT_LOG_FILE,
+  AUDIT_MAX_BYTES,
+  AUDIT_MAX_FILES,
+} from "../config.js";
+
+/**
+ * Argument names whose values are never written to the log. "auth" only
+ * counts as a whole word (auth, basic_auth, auth_header, authorization),
+ * so that arguments such as author are kept.
+ */
+const SENSITIVE_KEY = /token|password|passwd|secret|api[_-]?key|credential|(^|[_-])auth(orization)?([_-]|$)/i;
+
+/**
+ * Longest string argument kept verbatim in the log
+ */
+const MAX_ARG_CHARS = 500;
+
+/**
+ * Pending writes, chained so entries land in order
+ */
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Redacts sensitive values and shortens long strings, recursively.
+ * 
+ * Values of sensitive arguments are dropped whole; every other string is
+ * scanned like a tool result (see redactText), so a token inside a command,
+ * file content or URL does not reach the log either.
+ * 
+ * @param value - Argument value
+ * @param key - Name of the argument, if known
+ * @returns A copy safe to write to the log
+ */
+function sanitize(value: unknown, key?: string): unknown {
+  if (key && SENSITIVE_KEY.test(key) && value !== undefined) {
+    return "[REDACTED]";
+  }
+  if (typeof value === "string") {
+    const text = redactText(value, {});
+    return text.length > MAX_ARG_CHARS
+      ? `${text.slice(0, MAX_ARG_CHARS)}... [${text.length} chars]`
+      : text;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitize(item));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, sanitize(v, k)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Rotates the log if appending `incomingBytes` would exceed AUDIT_MAX_BYTES.
+ */
+async function rotateIfNeeded(incomingBytes: number): Promise<void> {
+  let size = 0;
+  try {
+    size = (await fs.stat(AUDIT_LOG_FILE)).size;
+  } catch {
+    return; // No log yet
+  }
+  
+  if (size + incomingBytes <= AUDIT_MAX_BYTES) return;
+  
+  // audit.jsonl.N-1 -> .N, ..., audit.jsonl -> .1; the oldest is overwritten
+  for (let i = AUDIT_MAX_FILES - 1; i >= 1; i--) {
+    const from = `${AUDIT_LOG_FILE}.${i}`;
+    if (fsSync.existsSync(from)) {
+      await fs.rename(from, `${AUDIT_LOG_FILE}.${i + 1}`);
+    }
+  }
+  await fs.rename(AUDIT_LOG_FILE, `${AUDIT_LOG_FILE}.1`);
+}
+
+/**
+ * Appends an entry to the log.
+ */
+async function appendEntry(entry: AuditEntry): Promise<void> {
+  const line = JSON.stringify(entry) + "\n";
+  await fs.mkdir(NOTES_DIR, { recursive: true });
+  await rotateIfNeeded(Buffer.byteLength(line, "utf-8"));
+  await fs.appendFile(AUDIT_LOG_FILE, line, "utf-8");
+}
+
+/**
+ * Records a tool invocation. Writing happens in the background; failures
+ * are reported on stderr and never affect the tool result.
+ * 
+ * @param call - The tool name, its arguments, when it started, and its result or error
+ */
+export function recordToolCall(call: {
+  tool: string;
+  args: Record<string, unknown>;
+  startedAt: number;
+  result?: unknown;
+  error?: { message?: string };
+}): void {
+  const { tool, args, startedAt, result, error } = call;
+  const outcome = (result && typeof result === "object" ? result : {}) as Record<string, unknown>;
+  
+  const exitCode = typeof outcome.exit_code === "number" ? outcome.exit_code : undefined;
+  const truncated = typeof outcome.truncated === "boolean" ? outcome.truncated : undefined;
+  
+  const cwdArg = args.cwd ?? args.repo_path ?? args.root_path;
+  
+  const entry: AuditEntry = {
+    timestamp: new Date(startedAt).toISOString(),
+    tool,
+    args: sanitize(args) as Record<string, unknown>,
+    cwd: typeof cwdArg === "string" ? path.resolve(cwdArg) : process.cwd(),
+    duration_ms: Date.now() - startedAt,
+    success: !error && (exitCode === undefined || exitCode === 0) && outcome.success !== false,
+    exit_code: exitCode,
+    truncated,
+    error: error ? error.message || "Unknown error" : undefined,
+  };
+  
+  writeQueue = writeQueue
+    .then(() => appendEntry(entry))
+    .catch((err) => console.error("Failed to write audit log:", err));
+}
+
+/**
+ * Reads audit entries, newest first.
+ * 
+ * Searches the current log and all rotated files.
+ * 
+ * @param filter - Optional tool name, ISO time range, failures-only flag and limit
+ * @returns Matching entries, newest first
+ */
+export async function readAuditEntries(filter: {
+  tool?: string;
+  since?: string;
+  until?: string;
+  failed_only?: boolean;
+  limit?: number;
+}): Promise<AuditEntry[]> {
+  // Make sure everything recorded so far is on disk
+  await writeQueue;
+  
+  const since = filter.since ? Date.parse(filter.since) : undefined;
+  const until = filter.until ? Date.parse(filter.until) : undefined;
+  if (Number.isNaN(since) || Number.isNaN(until)) {
+    throw new Error("since and until must be ISO 8601 timestamps");
+  }
+  
+  const files = [AUDIT_LOG_FILE];
+  for (let i = 1; i <= AUDIT_MAX_FILES; i++) {
+    files.push(`${AUDIT_LOG_FILE}.${i}`);
+  }
+  
+  const entries: AuditEntry[] = [];
+  for (const file of files) {
+    let data: string;
+    try {
+      data = await fs.readFile(file, "utf-8");
+    } catch {
+      continue;
+    }
+    
+    // Newest lines are at the end of each file
+    for (const line of data.split("\n").reverse()) {
+      if (!line.trim()) continue;
+      
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue; // Skip a partially written line
+      }
+      
+      const time = Date.parse(entry.timestamp);
+      if (filter.tool && entry.tool !== filter.tool) continue;
+      if (since !== undefined && time < since) continue;
+      if (until !== undefined && time > until) continue;
+      if (filter.failed_only && entry.success) continue;
+      
+      entries.push(entry);
+    }
+  }
+  
+  entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  return entries.slice(0, filter.limit ?? 50);
+}
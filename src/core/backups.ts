@@ -0,0 +1,220 @@
+/**
+ * Backup store for files the server changes.
+ * 
+ * Before fs_write_file or fs_edit_file replaces a file, its current content
+ * is saved so that fs_undo can bring it back. Each allowed root has its own
+ * store under BACKUP_DIR:
+ * 
+ *   index.jsonl        one BackupVersion per line, oldest first
+ *   objects/<sha256>   contents, stored once however many versions share them
+ * 
+ * A version without a sha256 records that the file did not exist yet.
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { createHash, randomBytes } from "crypto";
+import { isWithinRoot } from "./paths.js";
+import type { BackupVersion } from "./types.js";
+import {
+  ALLOWED_ROOTS,
+  BACKUP_DIR,
+  BACKUP_WRITES,
+  BACKUP_MAX_VERSIONS,
+} from "../config.js";
+
+/**
+ * Files larger than this are not backed up
+ */
+const BACKUP_MAX_FILE_BYTES = 20_000_000;
+
+/**
+ * Pending index updates, chained so concurrent writes do not interleave
+ */
+let updateQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs an index update after all earlier ones.
+ */
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = updateQueue.then(task);
+  updateQueue = run.catch(() => {});
+  return run;
+}
+
+/**
+ * Finds the store for a path: that of the innermost allowed root
+ * containing it.
+ * 
+ * @param target - Absolute path
+ * @returns The store's directory, or null if the path is in no allowed root
+ */
+function storeFor(target: string): string | null {
+  const root = ALLOWED_ROOTS.map((candidate) => path.resolve(candidate))
+    .filter((candidate) => isWithinRoot(target, candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!root) return null;
+  
+  const hash = createHash("sha256").update(root).digest("hex").slice(0, 12);
+  return path.join(BACKUP_DIR, `${path.basename(root) || "root"}-${hash}`);
+}
+
+/**
+ * Reads a store's index, skipping unparsable lines.
+ */
+async function readIndex(store: string): Promise<BackupVersion[]> {
+  let text: string;
+  try {
+    text = await fs.readFile(path.join(store, "index.jsonl"), "utf-8");
+  } catch {
+    return [];
+  }
+  
+  return text.split("\n").flatMap((line) => {
+    if (!line.trim()) return [];
+    try {
+      return [JSON.parse(line) as BackupVersion];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * Drops the oldest versions of a file beyond BACKUP_MAX_VERSIONS, and the
+ * contents no remaining version refers to.
+ */
+async function prune(store: string, target: string): Promise<void> {
+  const index = await readIndex(store);
+  const versions = index.filter((version) => version.path === target);
+  if (versions.length <= BACKUP_MAX_VERSIONS) return;
+  
+  const dropped = versions.slice(0, versions.length - BACKUP_MAX_VERSIONS);
+  const droppedIds = new Set(dropped.map((version) => version.id));
+  const kept = index.filter((version) => !droppedIds.has(version.id));
+  
+  const indexFile = path.join(store, "index.jsonl");
+  await fs.writeFile(`${indexFile}.tmp`, kept.map((version) => JSON.stringify(version) + "\n").join(""));
+  await fs.rename(`${indexFile}.tmp`, indexFile);
+  
+  const referenced = new Set(kept.map((version) => version.sha256));
+  for (const version of dropped) {
+    if (version.sha256 && !referenced.has(version.sha256)) {
+      await fs.rm(path.join(store, "objects", version.sha256), { force: true });
+    }
+  }
+}
+
+/**
+ * Saves the current version of a file before it is changed.
+ * 
+ * Does nothing if backups are turned off, the path is not in an allowed
+ * root, or the file is larger than 20 MB. A missing file is recorded as
+ * such, so that undoing its creation removes it.
+ * 
+ * @param target - Absolute path of the file about to change (already validated)
+ * @param tool - Tool making the change
+ * @returns The saved version, or null if none was saved
+ */
+export async function backupFile(target: string, tool: string): Promise<BackupVersion | null> {
+  if (!BACKUP_WRITES) return null;
+  const store = storeFor(target);
+  if (!store) return null;
+  
+  let data: Buffer | null = null;
+  try {
+    const stats = await fs.stat(target);
+    if (!stats.isFile() || stats.size > BACKUP_MAX_FILE_BYTES) return null;
+    data = await fs.readFile(target);
+  } catch (error: any) {
+    if (error.code !== "ENOENT") throw error;
+  }
+  
+  return enqueue(async () => {
+    const now = new Date();
+    const version: BackupVersion = {
+      id: `${now.toISOString().replace(/[-:.]/g, "")}-${randomBytes(4).toString("hex")}`,
+      path: target,
+      saved_at: now.toISOString(),
+      tool,
+      size: data ? data.length : null,
+      sha256: data ? createHash("sha256").update(data).digest("hex") : null,
+    };
+    
+    await fs.mkdir(path.join(store, "objects"), { recursive: true });
+    if (data && version.sha256) {
+      // Contents are immutable, so an existing object is already right
+      await fs.writeFile(path.join(store, "objects", version.sha256), data, { flag: "wx" })
+        .catch((error) => {
+          if (error.code !== "EEXIST") throw error;
+        });
+    }
+    await fs.appendFile(path.join(store, "index.jsonl"), JSON.stringify(version) + "\n");
+    await prune(store, target);
+    
+    return version;
+  });
+}
+
+/**
+ * Lists the saved versions of a file, newest first.
+ * 
+ * @param target - Absolute path of the file
+ */
+export async function listVersions(target: string): Promise<BackupVersion[]> {
+  const store = storeFor(target);
+  if (!store) return [];
+  
+  const index = await readIndex(store);
+  return index.filter((version) => version.path === target).reverse();
+}
+
+/**
+ * Lists the files under a directory that have saved versions, most
+ * recently changed first.
+ * 
+ * @param dir - Absolute path of the directory
+ */
+export async function listBackedUpFiles(
+  dir: string
+): Promise<{ path: string; versions: number; last_saved_at: string }[]> {
+  const store = storeFor(dir);
+  if (!store) return [];
+  
+  const files = new Map<string, { path: string; versions: number; last_saved_at: string }>();
+  for (const version of await readIndex(store)) {
+    if (!isWithinRoot(version.path, dir)) continue;
+    
+    const file = files.get(version.path) ?? { path: version.path, versions: 0, last_saved_at: "" };
+    file.versions++;
+    file.last_saved_at = version.saved_at;
+    files.set(version.path, file);
+  }
+  
+  return [...files.values()].sort((a, b) => b.last_saved_at.localeCompare(a.last_saved_at));
+}
+
+/**
+ * Reads a saved version of a file.
+ * 
+ * @param target - Absolute path of the file
+ * @param id - Version id
+ * @returns The version, and its content (null if the file did not exist)
+ * @throws Error if the file has no version with this id
+ */
+export async function readVersion(
+  target: string,
+  id: string
+): Promise<{ version: BackupVersion; data: Buffer | null }> {
+  const version = (await listVersions(target)).find((candidate) => candidate.id === id);
+  if (!version) {
+    throw new Error(`No saved version ${id} of ${target}. Use fs_history to list its versions.`);
+  }
+  
+  if (!version.sha256) {
+    return { version, data: null };
+  }
+  
+  const store = storeFor(target) as string;
+  return { version, data: await fs.readFile(path.join(store, "objects", version.sha256)) };
+}
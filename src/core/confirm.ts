@@ -0,0 +1,137 @@
+/**
+ * Two-phase confirmation for destructive tools.
+ * 
+ * The first call to a destructive tool returns a preview and a one-time
+ * token instead of running. The tool only runs when called again with that
+ * token, with identical arguments, before the token expires.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import type { ConfirmationRequest } from "./types.js";
+import { CONFIRMATION_TOOLS } from "../config.js";
+
+/**
+ * Name of the argument that carries the confirmation token
+ */
+export const CONFIRMATION_TOKEN_ARG = "confirmation_token";
+
+/**
+ * Confirmation token property added to the input schema of destructive tools
+ */
+export const CONFIRMATION_TOKEN_SCHEMA = {
+  type: "string" as const,
+  description:
+    "Token from a previous confirmation_required response. Omit on the first call to get a preview.",
+};
+
+/**
+ * A token waiting to be redeemed
+ */
+interface PendingConfirmation {
+  tool: string;
+  argsHash: string;
+  expiresAt: number;
+}
+
+const pending = new Map<string, PendingConfirmation>();
+
+/**
+ * Hashes tool arguments (minus the token itself) so that a token can only
+ * confirm the exact call that was previewed.
+ */
+function hashArgs(args: Record<string, unknown>): string {
+  const { [CONFIRMATION_TOKEN_ARG]: _token, ...rest } = args;
+  const canonical = JSON.stringify(
+    Object.keys(rest).sort().map((key) => [key, rest[key]])
+  );
+  return createHash("sha256").update(canonical).digest("hex");
+}
+
+/**
+ * Drops expired tokens.
+ */
+function purgeExpired(): void {
+  const now = Date.now();
+  for (const [token, entry] of pending) {
+    if (entry.expiresAt <= now) pending.delete(token);
+  }
+}
+
+/**
+ * Checks whether a tool is configured to require confirmation.
+ * 
+ * @param tool - Tool name
+ * @returns True if calls must be confirmed
+ */
+export function requiresConfirmation(tool: string): boolean {
+  return CONFIRMATION_TOOLS[tool]?.enabled === true;
+}
+
+/**
+ * Issues a confirmation token for a previewed call.
+ * 
+ * @param tool - Tool name
+ * @param args - The arguments the tool was called with
+ * @param preview - Description of what the call would do
+ * @returns The confirmation request to return to the client
+ */
+export function issueConfirmation(
+  tool: string,
+  args: Record<string, unknown>,
+  preview: unknown
+): ConfirmationRequest {
+  purgeExpired();
+  
+  const ttlSeconds = CONFIRMATION_TOOLS[tool]?.ttl_seconds ?? 120;
+  const token = randomBytes(16).toString("hex");
+  const expiresAt = Date.now() + ttlSeconds * 1000;
+  
+  pending.set(token, { tool, argsHash: hashArgs(args), expiresAt });
+  
+  return {
+    confirmation_required: true,
+    tool,
+    confirmation_token: token,
+    expires_at: new Date(expiresAt).toISOString(),
+    preview,
+    message:
+      `${tool} is a destructive operation. Show the preview to the user and, ` +
+      `if they approve, call ${tool} again with the same arguments plus ` +
+      `${CONFIRMATION_TOKEN_ARG} within ${ttlSeconds} seconds.`,
+  };
+}
+
+/**
+ * Redeems a confirmation token. Tokens are single-use.
+ * 
+ * @param tool - Tool name
+ * @param args - The arguments of the confirming call, including the token
+ * @throws Error if the token is unknown, expired, for another tool, or the arguments changed
+ */
+export function consumeConfirmation(
+  tool: string,
+  args: Record<string, unknown>
+): void {
+  purgeExpired();
+  
+  const token = String(args[CONFIRMATION_TOKEN_ARG]);
+  const entry = pending.get(token);
+  
+  if (!entry) {
+    throw new Error(
+      "Invalid or expired confirmation token. Call the tool without a token to get a new preview."
+    );
+  }
+  
+  // Single use, even if the checks below fail
+  pending.delete(token);
+  
+  if (entry.tool !== tool) {
+    throw new Error(`Confirmation token was issued for ${entry.tool}, not ${tool}`);
+  }
+  if (entry.argsHash !== hashArgs(args)) {
+    throw new Error(
+      "Arguments differ from the previewed call. Call the tool without a token to get a new preview."
+    );
+  }
+}
@@ -0,0 +1,423 @@
+/**
+ * Line diffs and unified patches.
+ * 
+ * Computes line diffs (Myers' algorithm), formats them as unified diffs,
+ * parses unified diffs (plain or git style), and applies parsed hunks to
+ * text. Lines are compared including their newline, so a missing newline at
+ * the end of a file shows up as a change, marked the way diff(1) marks it.
+ */
+
+import type { DiffHunk, DiffLine, FilePatch } from "./types.js";
+
+/**
+ * Marker line following a line that has no trailing newline
+ */
+const NO_NEWLINE_MARKER = "\\ No newline at end of file";
+
+/**
+ * Edit distance beyond which diffLines stops searching for a minimal diff
+ * and replaces the whole changed region instead. Bounds time and memory on
+ * unrelated inputs.
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * One step of a line diff. `text` includes the line's newline, if it has one.
+ */
+interface DiffOp {
+  type: DiffLine["type"];
+  text: string;
+}
+
+/**
+ * Splits text into lines, each keeping its trailing newline.
+ */
+export function splitLines(text: string): string[] {
+  return text === "" ? [] : text.split(/(?<=\n)/);
+}
+
+/**
+ * Recovers the edit script from the saved Myers frontiers.
+ */
+function backtrack(trace: Int32Array[], a: string[], b: string[], distance: number): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+  
+  for (let d = distance; d > 0; d--) {
+    // trace[d] holds the frontier before round d, for k in [-d-1, d+1]
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    
+    while (x > prevX && y > prevY) {
+      ops.push({ type: "context", text: a[--x] });
+      y--;
+    }
+    if (x === prevX) {
+      ops.push({ type: "add", text: b[--y] });
+    } else {
+      ops.push({ type: "delete", text: a[--x] });
+    }
+  }
+  
+  while (x > 0 && y > 0) {
+    ops.push({ type: "context", text: a[--x] });
+    y--;
+  }
+  
+  return ops.reverse();
+}
+
+/**
+ * Finds a shortest edit script between two line arrays, or null if it is
+ * longer than MAX_EDIT_DISTANCE.
+ */
+function myers(a: string[], b: string[]): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+  
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b, d);
+      }
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Computes a line diff. Common leading and trailing lines are matched
+ * first; the rest is diffed with Myers' algorithm, falling back to
+ * replacing the whole middle when the inputs are too different.
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const middle = myers(middleA, middleB) ?? [
+    ...middleA.map((text): DiffOp => ({ type: "delete", text })),
+    ...middleB.map((text): DiffOp => ({ type: "add", text })),
+  ];
+  
+  return [
+    ...a.slice(0, prefix).map((text): DiffOp => ({ type: "context", text })),
+    ...middle,
+    ...a.slice(a.length - suffix).map((text): DiffOp => ({ type: "context", text })),
+  ];
+}
+
+/**
+ * Converts a diff step to a hunk line, numbering it in the old and new text.
+ */
+function toDiffLine(op: DiffOp, oldLine: number, newLine: number): DiffLine {
+  const line: DiffLine = { type: op.type, text: op.text.replace(/\n$/, "") };
+  if (op.type !== "add") line.old_line = oldLine;
+  if (op.type !== "delete") line.new_line = newLine;
+  if (!op.text.endsWith("\n")) line.no_newline = true;
+  return line;
+}
+
+/**
+ * Computes the hunks that turn one text into another.
+ * 
+ * @param oldText - Original text
+ * @param newText - Changed text
+ * @param context - Unchanged lines shown around each change (default: 3)
+ * @returns Hunks with old and new line numbers; empty if the texts are equal
+ */
+export function computeHunks(oldText: string, newText: string, context: number = 3): DiffHunk[] {
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const hunks: DiffHunk[] = [];
+  
+  // Line numbers of each op in the old and new text
+  const oldLines: number[] = [];
+  const newLines: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    oldLines.push(oldLine);
+    newLines.push(newLine);
+    if (op.type !== "add") oldLine++;
+    if (op.type !== "delete") newLine++;
+  }
+  
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].type === "context") {
+      i++;
+      continue;
+    }
+    
+    // Extend the hunk while the next change is within 2 * context lines
+    const start = Math.max(0, i - context);
+    let end = i;
+    let unchanged = 0;
+    for (let j = i; j < ops.length && unchanged <= 2 * context; j++) {
+      if (ops[j].type === "context") {
+        unchanged++;
+      } else {
+        unchanged = 0;
+        end = j;
+      }
+    }
+    const stop = Math.min(ops.length, end + context + 1);
+    
+    const lines = ops
+      .slice(start, stop)
+      .map((op, offset) => toDiffLine(op, oldLines[start + offset], newLines[start + offset]));
+    const oldCount = lines.filter((line) => line.type !== "add").length;
+    const newCount = lines.filter((line) => line.type !== "delete").length;
+    
+    hunks.push({
+      // An empty side is numbered by the line it follows, as diff(1) does
+      old_start: oldCount > 0 ? oldLines[start] : oldLines[start] - 1,
+      old_lines: oldCount,
+      new_start: newCount > 0 ? newLines[start] : newLines[start] - 1,
+      new_lines: newCount,
+      lines,
+    });
+    i = stop;
+  }
+  
+  return hunks;
+}
+
+/**
+ * Formats a hunk range as in a unified diff header ("5", "5,3" or "4,0").
+ */
+function formatRange(start: number, count: number): string {
+  return count === 1 ? String(start) : `${start},${count}`;
+}
+
+/**
+ * Formats hunks as a unified diff.
+ * 
+ * @param hunks - Hunks to format
+ * @param oldName - Name shown on the --- line
+ * @param newName - Name shown on the +++ line
+ * @returns The diff text, or an empty string if there are no hunks
+ */
+export function formatUnifiedDiff(hunks: DiffHunk[], oldName: string, newName: string): string {
+  if (hunks.length === 0) return "";
+  
+  const out = [`--- ${oldName}`, `+++ ${newName}`];
+  const prefixes = { context: " ", add: "+", delete: "-" };
+  
+  for (const hunk of hunks) {
+    const header = hunk.header ? ` ${hunk.header}` : "";
+    out.push(
+      `@@ -${formatRange(hunk.old_start, hunk.old_lines)} +${formatRange(hunk.new_start, hunk.new_lines)} @@${header}`
+    );
+    for (const line of hunk.lines) {
+      out.push(prefixes[line.type] + line.text);
+      if (line.no_newline) out.push(NO_NEWLINE_MARKER);
+    }
+  }
+  
+  return out.join("\n") + "\n";
+}
+
+/**
+ * Strips the a/ or b/ prefix git adds to paths, and maps /dev/null to null.
+ */
+function patchPath(raw: string): string | null {
+  const name = raw.split("\t")[0].trim();
+  if (name === "/dev/null") return null;
+  return /^[ab]\//.test(name) ? name.slice(2) : name;
+}
+
+/**
+ * Parses a unified diff, as produced by diff -u or git diff.
+ * 
+ * A diff may cover several files; bare hunks without ---/+++ headers are
+ * returned as a single patch with null paths. Other lines (diff --git,
+ * index, mode changes) are skipped.
+ * 
+ * @param text - Diff text
+ * @returns One entry per file, with numbered hunk lines
+ * @throws Error if a hunk header is malformed or a hunk is shorter than its header says
+ */
+export function parseUnifiedDiff(text: string): FilePatch[] {
+  const patches: FilePatch[] = [];
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  let current: FilePatch | null = null;
+  let i = 0;
+  
+  while (i < lines.length) {
+    const line = lines[i];
+    
+    if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      current = {
+        old_path: patchPath(line.slice(4)),
+        new_path: patchPath(lines[i + 1].slice(4)),
+        hunks: [],
+      };
+      patches.push(current);
+      i += 2;
+      continue;
+    }
+    
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/);
+    if (!header) {
+      if (line.startsWith("@@")) {
+        throw new Error(`Malformed hunk header: ${line}`);
+      }
+      i++;
+      continue;
+    }
+    
+    if (!current) {
+      current = { old_path: null, new_path: null, hunks: [] };
+      patches.push(current);
+    }
+    
+    const hunk: DiffHunk = {
+      old_start: Number(header[1]),
+      old_lines: header[2] === undefined ? 1 : Number(header[2]),
+      new_start: Number(header[3]),
+      new_lines: header[4] === undefined ? 1 : Number(header[4]),
+      lines: [],
+    };
+    if (header[5]) hunk.header = header[5];
+    current.hunks.push(hunk);
+    i++;
+    
+    let oldLine = hunk.old_start;
+    let newLine = hunk.new_start;
+    let oldSeen = 0;
+    let newSeen = 0;
+    
+    while (oldSeen < hunk.old_lines || newSeen < hunk.new_lines) {
+      const body = lines[i];
+      if (body === undefined || body.startsWith("@@")) {
+        throw new Error(
+          `Hunk @@ -${hunk.old_start},${hunk.old_lines} +${hunk.new_start},${hunk.new_lines} @@ ends early`
+        );
+      }
+      i++;
+      
+      if (body.startsWith("\\")) {
+        const previous = hunk.lines[hunk.lines.length - 1];
+        if (previous) previous.no_newline = true;
+        continue;
+      }
+      
+      // Some tools drop the space of empty context lines
+      const marker = body === "" ? " " : body[0];
+      const content = body.slice(1);
+      if (marker === " ") {
+        hunk.lines.push({ type: "context", text: content, old_line: oldLine++, new_line: newLine++ });
+        oldSeen++;
+        newSeen++;
+      } else if (marker === "-") {
+        hunk.lines.push({ type: "delete", text: content, old_line: oldLine++ });
+        oldSeen++;
+      } else if (marker === "+") {
+        hunk.lines.push({ type: "add", text: content, new_line: newLine++ });
+        newSeen++;
+      } else {
+        throw new Error(`Unexpected line in hunk: ${body}`);
+      }
+    }
+    
+    // A no-newline marker may follow the last line of the hunk
+    if (lines[i]?.startsWith("\\")) {
+      const previous = hunk.lines[hunk.lines.length - 1];
+      if (previous) previous.no_newline = true;
+      i++;
+    }
+  }
+  
+  return patches;
+}
+
+/**
+ * Rebuilds a hunk line's text as it appears in the file.
+ */
+function lineText(line: DiffLine): string {
+  return line.no_newline ? line.text : line.text + "\n";
+}
+
+/**
+ * Applies hunks to text.
+ * 
+ * Each hunk's context and deleted lines must match the text exactly. A hunk
+ * is first tried at the line its header names (adjusted for earlier hunks),
+ * then at the nearest position where it matches, as patch(1) does.
+ * 
+ * @param text - Original text
+ * @param hunks - Hunks to apply, in order
+ * @returns The patched text
+ * @throws Error naming the first hunk that does not match
+ */
+export function applyHunks(text: string, hunks: DiffHunk[]): string {
+  const lines = splitLines(text);
+  const out: string[] = [];
+  let position = 0; // Next line of `lines` not yet copied
+  let delta = 0; // How far actual positions have drifted from the headers
+  
+  hunks.forEach((hunk, index) => {
+    const expected = hunk.lines.filter((line) => line.type !== "add").map(lineText);
+    const replacement = hunk.lines.filter((line) => line.type !== "delete").map(lineText);
+    
+    const matchesAt = (at: number) =>
+      at >= position &&
+      at + expected.length <= lines.length &&
+      expected.every((line, i) => lines[at + i] === line);
+    
+    const wanted = Math.max(position, (hunk.old_lines > 0 ? hunk.old_start - 1 : hunk.old_start) + delta);
+    let found = -1;
+    for (let distance = 0; found === -1 && distance <= lines.length; distance++) {
+      if (matchesAt(wanted - distance)) found = wanted - distance;
+      else if (matchesAt(wanted + distance)) found = wanted + distance;
+    }
+    
+    if (found === -1) {
+      throw new Error(
+        `Hunk ${index + 1} (@@ -${hunk.old_start},${hunk.old_lines} +${hunk.new_start},${hunk.new_lines} @@) does not match the file`
+      );
+    }
+    
+    out.push(...lines.slice(position, found), ...replacement);
+    position = found + expected.length;
+    delta = found - (hunk.old_lines > 0 ? hunk.old_start - 1 : hunk.old_start);
+  });
+  
+  out.push(...lines.slice(position));
+  return out.join("");
+}
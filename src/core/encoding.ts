@@ -0,0 +1,215 @@
+/**
+ * File content sniffing.
+ * 
+ * Detects whether a file is text or binary, which text encoding it uses,
+ * and the MIME type of binary files from their magic numbers. Also provides
+ * the UTF-8 boundary helpers and hex dumps used when reading files.
+ */
+
+/**
+ * A binary format recognised by the bytes at a fixed offset
+ */
+interface MagicNumber {
+  mime: string;
+  bytes: number[];
+  offset?: number;
+}
+
+const MAGIC_NUMBERS: MagicNumber[] = [
+  { mime: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mime: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { mime: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mime: "image/webp", bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+  { mime: "image/x-icon", bytes: [0x00, 0x00, 0x01, 0x00] },
+  { mime: "image/bmp", bytes: [0x42, 0x4d] },
+  { mime: "application/pdf", bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { mime: "application/zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mime: "application/gzip", bytes: [0x1f, 0x8b] },
+  { mime: "application/x-bzip2", bytes: [0x42, 0x5a, 0x68] },
+  { mime: "application/x-xz", bytes: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00] },
+  { mime: "application/x-7z-compressed", bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { mime: "application/x-tar", bytes: [0x75, 0x73, 0x74, 0x61, 0x72], offset: 257 },
+  // "SQLite format 3\0"
+  {
+    mime: "application/vnd.sqlite3",
+    bytes: [0x53, 0x51, 0x4c, 0x69, 0x74, 0x65, 0x20, 0x66, 0x6f, 0x72, 0x6d, 0x61, 0x74, 0x20, 0x33, 0x00],
+  },
+  { mime: "application/x-elf", bytes: [0x7f, 0x45, 0x4c, 0x46] },
+  { mime: "application/x-mach-binary", bytes: [0xcf, 0xfa, 0xed, 0xfe] },
+  { mime: "application/x-mach-binary", bytes: [0xca, 0xfe, 0xba, 0xbe] },
+  { mime: "application/wasm", bytes: [0x00, 0x61, 0x73, 0x6d] },
+  { mime: "audio/mpeg", bytes: [0x49, 0x44, 0x33] },
+  { mime: "audio/ogg", bytes: [0x4f, 0x67, 0x67, 0x53] },
+  { mime: "audio/flac", bytes: [0x66, 0x4c, 0x61, 0x43] },
+  { mime: "audio/wav", bytes: [0x57, 0x41, 0x56, 0x45], offset: 8 },
+  { mime: "video/mp4", bytes: [0x66, 0x74, 0x79, 0x70], offset: 4 },
+  { mime: "font/woff", bytes: [0x77, 0x4f, 0x46, 0x46] },
+  { mime: "font/woff2", bytes: [0x77, 0x4f, 0x46, 0x32] },
+];
+
+/**
+ * Byte order marks, checked before anything else
+ */
+const BYTE_ORDER_MARKS: { encoding: string; bytes: number[] }[] = [
+  { encoding: "utf-8", bytes: [0xef, 0xbb, 0xbf] },
+  { encoding: "utf-16le", bytes: [0xff, 0xfe] },
+  { encoding: "utf-16be", bytes: [0xfe, 0xff] },
+];
+
+/**
+ * Share of control characters above which a file without NUL bytes is still
+ * treated as binary
+ */
+const MAX_CONTROL_RATIO = 0.1;
+
+/**
+ * Encoding assumed for text that is not valid UTF-8. Windows-1252 is a
+ * superset of ISO-8859-1 (Latin-1) and decodes any byte.
+ */
+const LEGACY_FALLBACK_ENCODING = "windows-1252";
+
+/**
+ * Checks whether `buffer` contains `bytes` at `offset`.
+ */
+function hasBytes(buffer: Buffer, bytes: number[], offset: number = 0): boolean {
+  if (buffer.length < offset + bytes.length) return false;
+  return bytes.every((byte, i) => buffer[offset + i] === byte);
+}
+
+/**
+ * Returns the length of the buffer without a trailing incomplete UTF-8
+ * character, so that a cut never splits a multi-byte character.
+ */
+export function completeUtf8Length(buffer: Buffer): number {
+  for (let i = buffer.length - 1; i >= Math.max(0, buffer.length - 4); i--) {
+    const byte = buffer[i];
+    if ((byte & 0xc0) === 0x80) continue; // Continuation byte
+    
+    const needed = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+    return i + needed <= buffer.length ? buffer.length : i;
+  }
+  return buffer.length;
+}
+
+/**
+ * Counts leading UTF-8 continuation bytes, i.e. how far a start offset must
+ * move forward to reach a character boundary.
+ */
+export function leadingContinuationBytes(buffer: Buffer): number {
+  let count = 0;
+  while (count < 3 && count < buffer.length && (buffer[count] & 0xc0) === 0x80) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Checks whether bytes are valid UTF-8, ignoring a character cut off at the
+ * end of a partial sample.
+ */
+function isValidUtf8(sample: Buffer, partial: boolean): boolean {
+  const bytes = partial ? sample.subarray(0, completeUtf8Length(sample)) : sample;
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detects the text encoding of a file from a sample of its first bytes.
+ * 
+ * A byte order mark decides; otherwise NUL bytes or many control characters
+ * mean binary, valid UTF-8 means UTF-8, and anything else is decoded as
+ * Windows-1252.
+ * 
+ * @param sample - The start of the file
+ * @param partial - True if the sample is not the whole file
+ * @returns The encoding name, or null if the content looks binary
+ */
+export function detectTextEncoding(sample: Buffer, partial: boolean): string | null {
+  for (const bom of BYTE_ORDER_MARKS) {
+    if (hasBytes(sample, bom.bytes)) return bom.encoding;
+  }
+  
+  if (sample.includes(0)) return null;
+  
+  let controls = 0;
+  for (const byte of sample) {
+    // Tab, newline, vertical tab, form feed, carriage return and escape are text
+    if (byte < 0x20 && !(byte >= 0x09 && byte <= 0x0d) && byte !== 0x1b) controls++;
+  }
+  if (sample.length > 0 && controls / sample.length > MAX_CONTROL_RATIO) return null;
+  
+  return isValidUtf8(sample, partial) ? "utf-8" : LEGACY_FALLBACK_ENCODING;
+}
+
+/**
+ * Sniffs the MIME type of binary content from its magic number.
+ * 
+ * @param sample - The start of the file
+ * @returns The MIME type, or application/octet-stream if unrecognised
+ */
+export function sniffMimeType(sample: Buffer): string {
+  const match = MAGIC_NUMBERS.find((magic) => hasBytes(sample, magic.bytes, magic.offset));
+  return match ? match.mime : "application/octet-stream";
+}
+
+/**
+ * Normalises a text encoding label (e.g. "latin1", "sjis", "UTF-16").
+ * 
+ * @param label - Any encoding label known to TextDecoder
+ * @returns The canonical encoding name
+ * @throws Error if the encoding is not supported
+ */
+export function normalizeEncoding(label: string): string {
+  try {
+    return new TextDecoder(label).encoding;
+  } catch {
+    throw new Error(`Unsupported encoding: ${label}`);
+  }
+}
+
+/**
+ * Checks whether an encoding uses two-byte code units, so that line-based
+ * byte scanning does not apply.
+ */
+export function isUtf16(encoding: string): boolean {
+  return encoding === "utf-16le" || encoding === "utf-16be";
+}
+
+/**
+ * Decodes text. A byte order mark at the start is dropped and invalid
+ * sequences become U+FFFD.
+ */
+export function decodeText(buffer: Buffer, encoding: string): string {
+  return new TextDecoder(encoding).decode(buffer);
+}
+
+/**
+ * Formats bytes like `hexdump -C`: offset, 16 bytes in hex, and their
+ * printable ASCII characters.
+ * 
+ * @param buffer - Bytes to dump
+ * @param baseOffset - File offset of the first byte
+ */
+export function hexDump(buffer: Buffer, baseOffset: number = 0): string {
+  const lines: string[] = [];
+  
+  for (let i = 0; i < buffer.length; i += 16) {
+    const row = buffer.subarray(i, i + 16);
+    const hex = [...row].map((byte) => byte.toString(16).padStart(2, "0"));
+    const left = hex.slice(0, 8).join(" ");
+    const right = hex.slice(8).join(" ");
+    const ascii = [...row]
+      .map((byte) => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : "."))
+      .join("");
+    
+    lines.push(
+      `${(baseOffset + i).toString(16).padStart(8, "0")}  ${left.padEnd(23)}  ${right.padEnd(23)}  |${ascii}|`
+    );
+  }
+  
+  return lines.join("\n");
+}
@@ -1,37 +1,90 @@
 /**
  * Safe command execution utilities.
  * 
- * This module provides a wrapper around child_process.exec with safety features:
- * - Command blacklisting (dangerous patterns)
+ * This module provides a wrapper around child_process.spawn with safety features:
+ * - Command policy evaluation (allow/deny/ask rules, see policy.ts)
+ * - Argument-vector mode that bypasses the shell entirely
  * - Timeout handling
  * - Output truncation
  * - Dry-run mode
  */
 
-import { exec } from "child_process";
-import { promisify } from "util";
-import type { CommandResult, CommandOptions } from "./types.js";
+import { spawn, type ChildProcessWithoutNullStreams } from "child_process";
+import type { CommandResult, CommandOptions, CommandWarning } from "./types.js";
+import { evaluateCommand, parseCommandLine } from "./policy.js";
 import {
   DEFAULT_COMMAND_TIMEOUT,
   DEFAULT_MAX_OUTPUT_CHARS,
-  DANGEROUS_PATTERNS,
 } from "../config.js";
 
-const execAsync = promisify(exec);
+/**
+ * Checks a command against the command policy.
+ * 
+ * Shell commands are tokenized first; argv commands are evaluated as a
+ * single simple command, exactly as they will be executed.
+ * 
+ * `confirmed` must only be set by the server after the user approved this
+ * exact command through a confirmation token (see confirm.ts), never from
+ * a tool argument.
+ * 
+ * @param options - Command execution options
+ * @param cwd - Working directory the command would run in
+ * @param confirmed - The command was confirmed, so "ask" rules let it run
+ * @returns The verdict if the command must not run now, undefined if allowed
+ */
+export function checkCommandSafety(
+  options: CommandOptions,
+  cwd: string,
+  confirmed: boolean = false
+): CommandWarning | undefined {
+  const commandLine = describeCommand(options);
+  const commands = options.argv
+    ? [{ argv: options.argv, redirects: [], input_from: [] }]
+    : parseCommandLine(commandLine);
+  
+  const verdict = evaluateCommand(commandLine, commands, cwd);
+  
+  if (verdict.verdict === "blocked") {
+    return verdict;
+  }
+  if (verdict.verdict === "needs_confirmation" && !confirmed) {
+    return verdict;
+  }
+  return undefined;
+}
+
+/**
+ * Quotes a single argument for display so an argv can be shown as one line.
+ * The result is only used for previews and safety checks, never executed.
+ * 
+ * @param arg - The argument to quote
+ * @returns The argument, single-quoted if it contains anything unusual
+ */
+function quoteArg(arg: string): string {
+  if (/^[\w@%+=:,./-]+$/.test(arg)) {
+    return arg;
+  }
+  return `'${arg.replace(/'/g, "'\\''")}'`;
+}
 
 /**
- * Checks if a command contains dangerous patterns.
+ * Renders command options as a single human-readable command line.
  * 
- * @param command - The command to check
- * @returns An error message if dangerous, undefined otherwise
+ * @param options - Command execution options
+ * @returns The shell command, or the quoted argument vector
+ * @throws Error if neither a command nor an argv was provided
  */
-function checkCommandSafety(command: string): string | undefined {
-  for (const pattern of DANGEROUS_PATTERNS) {
-    if (pattern.test(command)) {
-      return `Command blocked: potentially dangerous pattern detected (${pattern})`;
+export function describeCommand(options: CommandOptions): string {
+  if (options.argv) {
+    if (options.argv.length === 0) {
+      throw new Error("argv must contain at least the executable");
     }
+    return options.argv.map(quoteArg).join(" ");
   }
-  return undefined;
+  if (options.command === undefined) {
+    throw new Error("Either command or argv must be provided");
+  }
+  return options.command;
 }
 
 /**
@@ -59,24 +112,148 @@ function truncateOutput(
 }
 
 /**
- * Executes a shell command with safety features and options.
+ * Starts a child process for the given options without waiting for it.
+ * 
+ * In argv mode the executable is started directly with `shell: false`, so
+ * arguments are passed through verbatim and can never be interpreted as
+ * shell syntax. In command mode the string is handed to /bin/sh.
+ * 
+ * Callers are responsible for safety checks (see checkCommandSafety).
+ * 
+ * @param options - Command execution options
+ * @param cwd - Working directory
+ * @param detached - Start the process in its own process group
+ * @returns The spawned child process
+ */
+export function spawnCommand(
+  options: CommandOptions,
+  cwd: string,
+  detached: boolean = false
+): ChildProcessWithoutNullStreams {
+  return options.argv
+    ? spawn(options.argv[0], options.argv.slice(1), { cwd, shell: false, detached })
+    : spawn(options.command as string, { cwd, shell: true, detached });
+}
+
+/**
+ * Raw outcome of running a child process, before truncation
+ */
+interface ProcessOutcome {
+  stdout: string;
+  stderr: string;
+  exit_code: number;
+  timed_out: boolean;
+}
+
+/**
+ * Runs a child process to completion, collecting its output.
+ * 
+ * @param options - Command execution options
+ * @param cwd - Working directory
+ * @param timeoutSeconds - Timeout after which the process is sent SIGTERM
+ * @param maxBuffer - Characters to collect per stream before discarding the rest
+ * @returns Collected output, exit code and timeout flag
+ */
+function runProcess(
+  options: CommandOptions,
+  cwd: string,
+  timeoutSeconds: number,
+  maxBuffer: number
+): Promise<ProcessOutcome> {
+  return new Promise((resolve) => {
+    const child = spawnCommand(options, cwd);
+    
+    let stdout = "";
+    let stderr = "";
+    let timedOut = false;
+    let settled = false;
+    
+    const finish = (outcome: ProcessOutcome) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve(outcome);
+    };
+    
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill("SIGTERM");
+    }, timeoutSeconds * 1000);
+    
+    child.stdout.setEncoding("utf-8");
+    child.stderr.setEncoding("utf-8");
+    
+    // Stop collecting once well past the limit; it will be truncated anyway
+    child.stdout.on("data", (chunk: string) => {
+      if (stdout.length < maxBuffer) stdout += chunk;
+    });
+    child.stderr.on("data", (chunk: string) => {
+      if (stderr.length < maxBuffer) stderr += chunk;
+    });
+    
+    child.on("error", (err: NodeJS.ErrnoException) => {
+      // Spawn failures (e.g. ENOENT) never produce an exit code
+      finish({
+        stdout,
+        stderr: err.code === "ENOENT"
+          ? `Command not found: ${options.argv ? options.argv[0] : options.command}`
+          : err.message,
+        exit_code: err.code === "ENOENT" ? 127 : 1,
+        timed_out: false,
+      });
+    });
+    
+    child.on("close", (code, signal) => {
+      if (timedOut) {
+        finish({
+          stdout,
+          stderr: `Command timed out after ${timeoutSeconds} seconds`,
+          exit_code: 0,
+          timed_out: true,
+        });
+        return;
+      }
+      
+      finish({
+        stdout,
+        stderr,
+        exit_code: code ?? (signal ? 128 : 1),
+        timed_out: false,
+      });
+    });
+    
+    // Ignore EPIPE if the process exits without reading its input
+    child.stdin.on("error", () => {});
+    child.stdin.end(options.input);
+  });
+}
+
+/**
+ * Executes a command with safety features and options.
+ * 
+ * Pass `argv` instead of `command` whenever any part of the command comes
+ * from user input (hostnames, branch names, PIDs, ...): the argument vector
+ * is executed without a shell, so no quoting or escaping is needed.
  * 
  * @param options - Command execution options
+ * @param confirmed - The user confirmed the command (see checkCommandSafety)
  * @returns Result of the command execution
  */
 export async function execCommand(
-  options: CommandOptions
+  options: CommandOptions,
+  confirmed: boolean = false
 ): Promise<CommandResult> {
   const {
-    command,
     cwd = process.cwd(),
     timeout_seconds = DEFAULT_COMMAND_TIMEOUT,
     max_output_chars = DEFAULT_MAX_OUTPUT_CHARS,
     dry_run = false,
   } = options;
   
-  // Check for dangerous patterns
-  const safetyWarning = checkCommandSafety(command);
+  const commandLine = describeCommand(options);
+  
+  // Evaluate the command policy
+  const safetyWarning = checkCommandSafety(options, cwd, confirmed);
   if (safetyWarning) {
     return {
       stdout: "",
@@ -98,50 +275,32 @@ export async function execCommand(
       timed_out: false,
       cwd,
       truncated: false,
-      warning: `[DRY RUN] Would execute: ${command} (in ${cwd})`,
+      warning: {
+        verdict: "allowed",
+        message: `[DRY RUN] Would execute: ${commandLine} (in ${cwd})`,
+      },
     };
   }
   
   // Execute the command
-  let timedOut = false;
-  let stdout = "";
-  let stderr = "";
-  let exitCode = 0;
-  
-  try {
-    const result = await execAsync(command, {
-      cwd,
-      timeout: timeout_seconds * 1000,
-      maxBuffer: max_output_chars * 2, // Give some headroom before Node.js kills it
-    });
-    
-    stdout = result.stdout || "";
-    stderr = result.stderr || "";
-  } catch (err: any) {
-    // Handle timeout
-    if (err.killed || err.signal === "SIGTERM") {
-      timedOut = true;
-      stderr = `Command timed out after ${timeout_seconds} seconds`;
-    } else {
-      // Command executed but returned non-zero exit code
-      stdout = err.stdout || "";
-      stderr = err.stderr || err.message || "Unknown error";
-      exitCode = err.code ?? 1;
-    }
-  }
+  const outcome = await runProcess(
+    options,
+    cwd,
+    timeout_seconds,
+    max_output_chars * 2 // Give some headroom before discarding output
+  );
   
   // Truncate output if needed
-  const stdoutResult = truncateOutput(stdout, max_output_chars);
-  const stderrResult = truncateOutput(stderr, max_output_chars);
+  const stdoutResult = truncateOutput(outcome.stdout, max_output_chars);
+  const stderrResult = truncateOutput(outcome.stderr, max_output_chars);
   const wasTruncated = stdoutResult.wasTruncated || stderrResult.wasTruncated;
   
   return {
     stdout: stdoutResult.truncated,
     stderr: stderrResult.truncated,
-    exit_code: exitCode,
-    timed_out: timedOut,
+    exit_code: outcome.exit_code,
+    timed_out: outcome.timed_out,
     cwd,
     truncated: wasTruncated,
   };
 }
-
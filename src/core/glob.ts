@@ -0,0 +1,99 @@
+/**
+ * Minimal glob matching.
+ * 
+ * Supports the subset of glob syntax used by policy rules and path filters:
+ * `*` (any characters except "/"), `**` (any characters including "/"),
+ * `?` (one character), `[abc]` character classes and `{a,b}` alternatives.
+ * A leading `~` expands to the user's home directory.
+ */
+
+import * as os from "os";
+
+const regexCache = new Map<string, RegExp>();
+
+/**
+ * Expands a leading `~` to the user's home directory.
+ * 
+ * @param pattern - A path or glob
+ * @returns The pattern with `~` expanded
+ */
+export function expandHome(pattern: string): string {
+  if (pattern === "~") {
+    return os.homedir();
+  }
+  if (pattern.startsWith("~/")) {
+    return os.homedir() + pattern.slice(1);
+  }
+  return pattern;
+}
+
+/**
+ * Converts a glob pattern to an anchored regular expression.
+ * 
+ * @param glob - The glob pattern
+ * @returns A RegExp matching the whole input against the pattern
+ */
+export function globToRegExp(glob: string): RegExp {
+  const cached = regexCache.get(glob);
+  if (cached) return cached;
+  
+  let source = "";
+  let braceDepth = 0;
+  
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" also matches zero directories
+        if (glob[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        let cls = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+        if (cls.startsWith("!")) cls = "^" + cls.slice(1);
+        source += `[${cls}]`;
+        i = end;
+      }
+    } else if (char === "{") {
+      braceDepth++;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^${}()|\\\]]/g, "\\$&");
+    }
+  }
+  
+  const regex = new RegExp(`^${source}$`);
+  regexCache.set(glob, regex);
+  return regex;
+}
+
+/**
+ * Tests a string against one or more glob patterns.
+ * 
+ * @param value - The string to test (e.g. a path or executable name)
+ * @param patterns - One glob or a list of globs
+ * @returns True if any pattern matches
+ */
+export function matchesGlob(value: string, patterns: string | string[]): boolean {
+  const list = Array.isArray(patterns) ? patterns : [patterns];
+  return list.some((pattern) => globToRegExp(expandHome(pattern)).test(value));
+}
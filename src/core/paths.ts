@@ -7,34 +7,236 @@
 
 import * as path from "path";
 import * as fs from "fs";
-import { ALLOWED_ROOTS } from "../config.js";
+import { expandHome, matchesGlob } from "./glob.js";
+import type { PathAccess } from "./types.js";
+import {
+  ALLOWED_ROOTS,
+  READ_ONLY_ROOTS,
+  SYMLINK_ROOTS,
+  DENY_GLOBS,
+} from "../config.js";
+
+/**
+ * Symlink hops followed before giving up (matches the usual OS limit)
+ */
+const MAX_SYMLINK_DEPTH = 40;
+
+/**
+ * Checks whether a path is a root or inside it, comparing whole path
+ * segments so that "/home/me/dev" does not contain "/home/me/dev-secrets".
+ * 
+ * @param target - Absolute, normalized path to test
+ * @param root - Absolute, normalized root directory
+ * @returns True if target is root or a descendant of root
+ */
+export function isWithinRoot(target: string, root: string): boolean {
+  const relative = path.relative(root, target);
+  return (
+    relative === "" ||
+    (relative !== ".." && !relative.startsWith(".." + path.sep) && !path.isAbsolute(relative))
+  );
+}
+
+/**
+ * Resolves a path to its real location on disk, following every symlink,
+ * even when the path (or part of it) does not exist yet.
+ * 
+ * The nearest existing ancestor is resolved with realpath and the missing
+ * segments are appended to it. A dangling symlink is followed to where it
+ * points, since creating the file would create it there.
+ * 
+ * @param target - Absolute path
+ * @param depth - Symlink hops so far (internal)
+ * @returns The real absolute path
+ * @throws Error on symlink loops
+ */
+export function realpathAllowMissing(target: string, depth: number = 0): string {
+  if (depth > MAX_SYMLINK_DEPTH) {
+    throw new Error(`Too many levels of symbolic links: ${target}`);
+  }
+  
+  try {
+    return fs.realpathSync.native(target);
+  } catch (err: any) {
+    if (err.code === "ELOOP") {
+      throw new Error(`Too many levels of symbolic links: ${target}`);
+    }
+    if (err.code !== "ENOENT" && err.code !== "ENOTDIR") {
+      throw err;
+    }
+  }
+  
+  const parent = path.dirname(target);
+  if (parent === target) {
+    return target;
+  }
+  const realParent = realpathAllowMissing(parent, depth);
+  
+  // The entry itself may be a symlink whose target is missing
+  let stats: fs.Stats | undefined;
+  try {
+    stats = fs.lstatSync(path.join(realParent, path.basename(target)));
+  } catch {
+    stats = undefined;
+  }
+  
+  if (stats?.isSymbolicLink()) {
+    const link = fs.readlinkSync(path.join(realParent, path.basename(target)));
+    return realpathAllowMissing(path.resolve(realParent, link), depth + 1);
+  }
+  
+  return path.join(realParent, path.basename(target));
+}
+
+/**
+ * Finds the deny-list pattern a path matches, if any.
+ * 
+ * Patterns without "/" are tested against every path segment; patterns with
+ * "/" against the whole path. A matching "!" pattern exempts the path.
+ * Matching ignores case: on case-insensitive filesystems (the macOS
+ * default) ".ENV" and "ID_RSA" are the same files as ".env" and "id_rsa".
+ * 
+ * @param target - Absolute path
+ * @returns The matching deny pattern, or undefined if the path is not denied
+ */
+export function findDeniedPattern(target: string): string | undefined {
+  const lowered = target.toLowerCase();
+  const segments = lowered.split(path.sep).filter(Boolean);
+  const matches = (pattern: string) => {
+    const glob = expandHome(pattern).toLowerCase();
+    return glob.includes("/")
+      ? matchesGlob(lowered, glob)
+      : segments.some((segment) => matchesGlob(segment, glob));
+  };
+  
+  const exempt = DENY_GLOBS.some(
+    (pattern) => pattern.startsWith("!") && matches(pattern.slice(1))
+  );
+  if (exempt) return undefined;
+  
+  return DENY_GLOBS.find((pattern) => !pattern.startsWith("!") && matches(pattern));
+}
+
+/**
+ * Refuses paths on the sensitive-file deny list.
+ * 
+ * Both the path as written and its real location are checked, so a symlink
+ * named "notes.txt" pointing at ~/.ssh/id_rsa is refused too.
+ * 
+ * @param target - Absolute path
+ * @throws Error if the path matches a deny pattern
+ */
+export function assertNotDenied(target: string): void {
+  for (const candidate of new Set([target, realpathAllowMissing(target)])) {
+    const pattern = findDeniedPattern(candidate);
+    if (pattern) {
+      throw new Error(
+        `Access denied: "${candidate}" matches the sensitive-file deny list ("${pattern}")`
+      );
+    }
+  }
+}
+
+/**
+ * Refuses to move, delete or replace an allowed root itself, or a directory
+ * containing one.
+ * 
+ * @param target - Absolute path (as returned by resolveSafePath)
+ * @throws Error if the path is, or contains, an allowed or read-only root
+ */
+export function assertNotRoot(target: string): void {
+  for (const root of [...ALLOWED_ROOTS, ...READ_ONLY_ROOTS]) {
+    if (isWithinRoot(path.resolve(root), target)) {
+      throw new Error(
+        `Access denied: "${target}" is or contains the allowed root "${root}", which cannot be moved, deleted or replaced`
+      );
+    }
+  }
+}
+
+/**
+ * Refuses a write to a path inside a read-only root.
+ * 
+ * @param target - Absolute path to check
+ * @param shown - Path to name in the error
+ * @param locate - Maps a configured read-only root to the form `target` is in
+ * @throws Error if the target is inside a read-only root
+ */
+function assertNotReadOnly(target: string, shown: string, locate: (root: string) => string): void {
+  const readOnlyRoot = READ_ONLY_ROOTS.find((candidate) => isWithinRoot(target, locate(candidate)));
+  if (readOnlyRoot) {
+    throw new Error(
+      `Access denied: Path "${shown}" is in read-only root "${readOnlyRoot}" and cannot be modified.`
+    );
+  }
+}
 
 /**
  * Resolves a path to an absolute path and ensures it's within allowed roots.
  * 
+ * Both the path as written and its real location (with symlinks resolved,
+ * see realpathAllowMissing) must be inside an allowed root, compared by
+ * whole path segments. Roots listed in SYMLINK_ROOTS skip the second check,
+ * so their symlinks may point anywhere. Read-only roots only satisfy "read"
+ * access, also where one is nested inside an allowed root (~/Downloads
+ * under an allowed ~), and paths on the sensitive-file deny list are always
+ * refused.
+ * 
  * @param inputPath - The path to resolve (can be relative or absolute)
+ * @param access - Whether the caller will read or modify the path (default: "read")
  * @param basePath - Optional base path for relative resolution (defaults to cwd)
- * @returns The resolved absolute path
- * @throws Error if the path is outside allowed roots
+ * @returns The resolved absolute path (symlinks are not resolved in the returned path)
+ * @throws Error if the path is outside allowed roots, read-only for a write,
+ *   reached through a symlink leading outside the roots, or deny-listed
  */
-export function resolveSafePath(inputPath: string, basePath?: string): string {
+export function resolveSafePath(
+  inputPath: string,
+  access: PathAccess = "read",
+  basePath?: string
+): string {
   // Resolve to absolute path
   const base = basePath || process.cwd();
   const resolved = path.resolve(base, inputPath);
   
-  // Check if the resolved path is under any allowed root
-  const isAllowed = ALLOWED_ROOTS.some((root) => {
-    const normalizedRoot = path.resolve(root);
-    return resolved.startsWith(normalizedRoot);
-  });
+  const roots = access === "write" ? ALLOWED_ROOTS : [...ALLOWED_ROOTS, ...READ_ONLY_ROOTS];
+  
+  // A read-only root wins over an allowed root it is nested in
+  if (access === "write") {
+    assertNotReadOnly(resolved, resolved, (candidate) => path.resolve(candidate));
+  }
   
-  if (!isAllowed) {
+  // Check if the resolved path is under any permitted root
+  const root = roots.find((candidate) => isWithinRoot(resolved, path.resolve(candidate)));
+  
+  if (!root) {
     throw new Error(
       `Access denied: Path "${resolved}" is outside allowed roots.\n` +
-      `Allowed roots: ${ALLOWED_ROOTS.join(", ")}`
+      `Allowed roots: ${roots.join(", ")}`
+    );
+  }
+  
+  // Check where the path really leads, so a symlink inside a root cannot
+  // reach the rest of the disk
+  if (!SYMLINK_ROOTS.includes(root)) {
+    const real = realpathAllowMissing(resolved);
+    if (access === "write") {
+      assertNotReadOnly(real, resolved, (candidate) => realpathAllowMissing(path.resolve(candidate)));
+    }
+    const realInRoot = roots.some((candidate) =>
+      isWithinRoot(real, realpathAllowMissing(path.resolve(candidate)))
     );
+    
+    if (!realInRoot) {
+      throw new Error(
+        `Access denied: Path "${resolved}" resolves to "${real}" through a symlink, ` +
+        `which is outside ${access === "write" ? "writable" : "allowed"} roots.\n` +
+        `Allowed roots: ${roots.join(", ")}`
+      );
+    }
   }
   
+  assertNotDenied(resolved);
+  
   return resolved;
 }
 
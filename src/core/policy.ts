@@ -0,0 +1,624 @@
+/**
+ * Command policy engine.
+ * 
+ * Commands are tokenized into simple commands (pipeline stages, list
+ * elements, the contents of command/process substitutions and the command
+ * lines given to `sh -c` or `eval`), and each one is evaluated against an
+ * ordered list of allow/deny/ask rules. User rules from the policy file come
+ * first, followed by the built-in rules.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { matchesGlob, expandHome } from "./glob.js";
+import type {
+  CommandPolicy,
+  CommandWarning,
+  PolicyRule,
+} from "./types.js";
+import { POLICY_FILE, DEFAULT_POLICY_RULES } from "../config.js";
+
+/**
+ * A single simple command extracted from a command line
+ */
+export interface SimpleCommand {
+  argv: string[];
+  redirects: string[];
+  /** Executables feeding this command via a pipe or a substitution */
+  input_from: string[];
+}
+
+/**
+ * Wrappers that run the following words as a command
+ */
+const WRAPPERS = new Set([
+  "sudo", "doas", "env", "nohup", "time", "nice", "command", "exec",
+  "xargs", "builtin", "caffeinate", "timeout",
+]);
+
+/**
+ * Shell keywords that may precede a command
+ */
+const KEYWORDS = new Set([
+  "if", "then", "else", "elif", "fi", "do", "done", "while", "until",
+  "for", "in", "case", "esac", "!", "{", "}", "(", ")",
+]);
+
+/**
+ * sudo options that consume the following word
+ */
+const SUDO_OPTIONS_WITH_VALUE = new Set(["-u", "-g", "-h", "-p", "-C", "-U", "-r", "-t", "-D"]);
+
+/**
+ * Shells whose -c argument is a command line of its own
+ */
+const SHELLS = new Set(["sh", "bash", "zsh", "dash", "ksh", "fish"]);
+
+/**
+ * Shell options that consume the following word (`-o pipefail`)
+ */
+const SHELL_OPTIONS_WITH_VALUE = new Set(["-o", "+o", "-O", "+O"]);
+
+/**
+ * Finds the index just past the `)` that closes a substitution opened
+ * before `start`, honouring quotes and nesting.
+ */
+function findClosingParen(text: string, start: number): number {
+  let depth = 1;
+  let quote: string | null = null;
+  
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\\" && quote !== "'") {
+      i++;
+    } else if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")") {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return text.length;
+}
+
+/**
+ * Returns the executable name of a simple command's argv, skipping
+ * environment assignments and wrappers such as `sudo` or `env`.
+ */
+function resolveExecutable(argv: string[]): { name: string; args: string[] } | undefined {
+  let i = 0;
+  
+  while (i < argv.length) {
+    const word = argv[i];
+    
+    if (KEYWORDS.has(word) || /^[A-Za-z_][A-Za-z0-9_]*=/.test(word)) {
+      i++;
+      continue;
+    }
+    
+    const name = path.basename(word);
+    if (WRAPPERS.has(name)) {
+      i++;
+      // Skip the wrapper's own options
+      while (i < argv.length && (argv[i].startsWith("-") || /^[A-Za-z_][A-Za-z0-9_]*=/.test(argv[i]))) {
+        if (name === "sudo" && SUDO_OPTIONS_WITH_VALUE.has(argv[i])) i++;
+        i++;
+      }
+      // timeout takes a duration before the command
+      if (name === "timeout" && i < argv.length) i++;
+      continue;
+    }
+    
+    return { name, args: argv.slice(i + 1) };
+  }
+  
+  return undefined;
+}
+
+/**
+ * Returns the files a simple command writes: its redirection targets, the
+ * arguments of tee, and the output files of curl and wget.
+ */
+function writtenFiles(exe: { name: string; args: string[] }, redirects: string[]): string[] {
+  const files = [...redirects];
+  
+  if (exe.name === "tee") {
+    files.push(...positionalArgs(exe.args));
+  }
+  
+  const outputOptions = exe.name === "curl"
+    ? ["-o", "--output"]
+    : exe.name === "wget" ? ["-O", "--output-document"] : [];
+  exe.args.forEach((arg, i) => {
+    const [option, value] = arg.split(/=(.*)/s);
+    if (!outputOptions.includes(option)) return;
+    const file = value ?? exe.args[i + 1];
+    if (file !== undefined && file !== "-") files.push(file);
+  });
+  
+  return files;
+}
+
+/**
+ * Splits a command line into simple commands.
+ * 
+ * This is a deliberately small shell lexer: it understands quoting,
+ * escapes, `;`, `&&`, `||`, `|`, `&`, newlines, redirections, subshells,
+ * and `$(...)`, backtick and `<(...)`/`>(...)` substitutions. Substitution
+ * bodies are parsed recursively and reported as commands of their own.
+ * 
+ * A pipeline stage's input_from lists every earlier stage of the pipeline,
+ * and a command that runs a file an earlier command on the line wrote (its
+ * script argument or a redirection) counts as reading that writer's output,
+ * so `curl ... > f && sh f` and `curl ... | tee f | sh` look like
+ * `curl ... | sh`.
+ * 
+ * @param command - The command line
+ * @returns The simple commands it contains, in order
+ */
+export function parseCommandLine(command: string): SimpleCommand[] {
+  const commands: SimpleCommand[] = [];
+  
+  let words: string[] = [];
+  let redirects: string[] = [];
+  let inputFrom: string[] = [];
+  let word = "";
+  let inWord = false;
+  let quotedWord = false;
+  let pendingRedirect = false;
+  let previousStages: string[] = [];
+  const written = new Map<string, string[]>();
+  
+  const addSubstitution = (body: string) => {
+    const nested = parseCommandLine(body);
+    commands.push(...nested);
+    for (const cmd of nested) {
+      const exe = resolveExecutable(cmd.argv);
+      if (exe) inputFrom.push(exe.name);
+    }
+  };
+  
+  const endWord = () => {
+    if (!inWord) return;
+    // Expand a leading ~ the way the shell would for unquoted words
+    if (!quotedWord) {
+      word = expandHome(word);
+    }
+    if (pendingRedirect) {
+      redirects.push(word);
+      pendingRedirect = false;
+    } else {
+      words.push(word);
+    }
+    word = "";
+    inWord = false;
+    quotedWord = false;
+  };
+  
+  const endCommand = (pipe: boolean) => {
+    endWord();
+    if (words.length > 0 || redirects.length > 0) {
+      const exe = resolveExecutable(words);
+      const script = exe ? positionalArgs(exe.args).slice(0, 1) : [];
+      for (const file of [...script, ...redirects]) {
+        inputFrom.push(...(written.get(path.normalize(file)) ?? []));
+      }
+      
+      commands.push({ argv: words, redirects, input_from: inputFrom });
+      
+      if (exe) {
+        for (const file of writtenFiles(exe, redirects)) {
+          written.set(path.normalize(file), [exe.name, ...inputFrom]);
+        }
+      }
+      previousStages = pipe && exe ? [exe.name, ...inputFrom] : [];
+    } else if (!pipe) {
+      previousStages = [];
+    }
+    words = [];
+    redirects = [];
+    inputFrom = [...previousStages];
+  };
+  
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    const next = command[i + 1];
+    
+    if (char === "\\") {
+      if (next === "\n") {
+        i++;
+        continue;
+      }
+      word += next ?? "";
+      inWord = true;
+      i++;
+    } else if (char === "'") {
+      const end = command.indexOf("'", i + 1);
+      const stop = end === -1 ? command.length : end;
+      word += command.slice(i + 1, stop);
+      inWord = true;
+      quotedWord = true;
+      i = stop;
+    } else if (char === '"') {
+      inWord = true;
+      quotedWord = true;
+      i++;
+      while (i < command.length && command[i] !== '"') {
+        if (command[i] === "\\" && i + 1 < command.length) {
+          word += command[i + 1];
+          i += 2;
+        } else if (command[i] === "$" && command[i + 1] === "(") {
+          const end = findClosingParen(command, i + 2);
+          addSubstitution(command.slice(i + 2, end - 1));
+          word += command.slice(i, end);
+          i = end;
+        } else if (command[i] === "`") {
+          const end = command.indexOf("`", i + 1);
+          const stop = end === -1 ? command.length : end;
+          addSubstitution(command.slice(i + 1, stop));
+          word += command.slice(i, stop + 1);
+          i = stop + 1;
+        } else {
+          word += command[i];
+          i++;
+        }
+      }
+    } else if (char === "$" && next === "(") {
+      const end = findClosingParen(command, i + 2);
+      addSubstitution(command.slice(i + 2, end - 1));
+      word += command.slice(i, end);
+      inWord = true;
+      i = end - 1;
+    } else if (char === "`") {
+      const end = command.indexOf("`", i + 1);
+      const stop = end === -1 ? command.length : end;
+      addSubstitution(command.slice(i + 1, stop));
+      word += command.slice(i, stop + 1);
+      inWord = true;
+      i = stop;
+    } else if ((char === "<" || char === ">") && next === "(") {
+      // Process substitution: the body feeds this command
+      endWord();
+      const end = findClosingParen(command, i + 2);
+      addSubstitution(command.slice(i + 2, end - 1));
+      words.push(command.slice(i, end));
+      i = end - 1;
+    } else if (char === "|" && next === "|") {
+      endCommand(false);
+      i++;
+    } else if (char === "|") {
+      endCommand(true);
+      if (next === "&") i++;
+    } else if (char === "&" && next === "&") {
+      endCommand(false);
+      i++;
+    } else if (char === "&" && next === ">") {
+      endWord();
+      pendingRedirect = true;
+      i += command[i + 2] === ">" ? 2 : 1;
+    } else if (char === ";" || char === "&" || char === "\n" || char === "(" || char === ")") {
+      endCommand(false);
+    } else if (char === ">" || char === "<") {
+      // A word made only of digits before a redirection is an fd number
+      if (/^\d+$/.test(word) && !quotedWord) {
+        word = "";
+        inWord = false;
+      }
+      endWord();
+      // Consume >>, >|, <<, <<<, >&, <&
+      while (command[i + 1] === ">" || command[i + 1] === "<" || command[i + 1] === "|") i++;
+      if (command[i + 1] === "&") {
+        i++;
+        // Duplicating a file descriptor (2>&1) is not a file target
+        if (/\d|-/.test(command[i + 1] ?? "")) {
+          while (/[\d-]/.test(command[i + 1] ?? "")) i++;
+          continue;
+        }
+      }
+      pendingRedirect = true;
+    } else if (/\s/.test(char)) {
+      endWord();
+    } else {
+      word += char;
+      inWord = true;
+    }
+  }
+  
+  endCommand(false);
+  return commands;
+}
+
+/**
+ * Returns the command line a simple command runs from a string: the -c
+ * argument of a shell, or the arguments of eval.
+ */
+function nestedScript(argv: string[]): string | undefined {
+  const exe = resolveExecutable(argv);
+  if (!exe) return undefined;
+  
+  if (exe.name === "eval") {
+    return exe.args.length > 0 ? exe.args.join(" ") : undefined;
+  }
+  if (!SHELLS.has(exe.name)) return undefined;
+  
+  // With -c (alone or combined, as in -ec), the first operand is the command line
+  let commandString = false;
+  for (let i = 0; i < exe.args.length; i++) {
+    const arg = exe.args[i];
+    
+    if (arg === "--") {
+      return commandString ? exe.args[i + 1] : undefined;
+    } else if (arg.startsWith("--command=")) {
+      return arg.slice("--command=".length);
+    } else if (arg === "--command" || /^-[A-Za-z]*c[A-Za-z]*$/.test(arg)) {
+      commandString = true;
+    } else if (SHELL_OPTIONS_WITH_VALUE.has(arg)) {
+      i++;
+    } else if (!arg.startsWith("-") && !arg.startsWith("+")) {
+      return commandString ? arg : undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Expands a simple command into itself followed by the commands of the
+ * command line it runs from a string (`bash -c '...'`, `eval ...`), parsed
+ * recursively, so that those are checked by the same rules. The nested
+ * commands also read whatever feeds the outer command.
+ */
+function withNestedCommands(cmd: SimpleCommand): SimpleCommand[] {
+  const script = nestedScript(cmd.argv);
+  if (script === undefined) return [cmd];
+  
+  const nested = parseCommandLine(script).flatMap(withNestedCommands);
+  for (const inner of nested) {
+    inner.input_from.push(...cmd.input_from);
+  }
+  return [cmd, ...nested];
+}
+
+/**
+ * Checks whether every flag group of a rule is present in the arguments.
+ * Short flags may be combined (`-rf`); long flags are matched by name.
+ */
+function hasFlags(args: string[], flags: string[]): boolean {
+  const shortFlags = new Set<string>();
+  const longFlags = new Set<string>();
+  
+  for (const arg of args) {
+    if (arg === "--") break;
+    if (arg.startsWith("--")) {
+      longFlags.add(arg.slice(2).split("=")[0]);
+    } else if (arg.startsWith("-") && arg.length > 1) {
+      for (const letter of arg.slice(1)) shortFlags.add(letter);
+    }
+  }
+  
+  return flags.every((group) =>
+    group.split("|").some((flag) =>
+      flag.length === 1 ? shortFlags.has(flag) : longFlags.has(flag)
+    )
+  );
+}
+
+/**
+ * Returns the arguments of a command that are not flags.
+ */
+function positionalArgs(args: string[]): string[] {
+  const result: string[] = [];
+  let afterDashDash = false;
+  
+  for (const arg of args) {
+    if (!afterDashDash && arg === "--") {
+      afterDashDash = true;
+    } else if (afterDashDash || !arg.startsWith("-") || arg === "-") {
+      result.push(arg);
+    }
+  }
+  return result;
+}
+
+/**
+ * Normalizes a path-like argument the way the filesystem will see it:
+ * resolved against the working directory, with repeated "/", "." and ".."
+ * collapsed, so that "//" and "/usr/.." are recognised as "/". Other
+ * arguments are returned unchanged.
+ */
+function normalizePathArg(arg: string, cwd: string): string {
+  if (!arg.includes("/") && arg !== "." && arg !== "..") return arg;
+  return path.resolve(cwd, arg);
+}
+
+/**
+ * Tests whether a rule matches a single simple command.
+ * 
+ * Positional arguments are matched both as written and normalized (see
+ * normalizePathArg).
+ */
+function ruleMatches(rule: PolicyRule, cmd: SimpleCommand, cwd: string): boolean {
+  if (rule.pattern !== undefined) {
+    return false; // Raw-pattern rules are evaluated against the full line
+  }
+  if (rule.cwd !== undefined && !matchesGlob(cwd, rule.cwd)) {
+    return false;
+  }
+  
+  const exe = resolveExecutable(cmd.argv);
+  
+  if (rule.executable !== undefined) {
+    if (!exe || !matchesGlob(exe.name, rule.executable)) return false;
+  }
+  
+  const args = exe ? exe.args : [];
+  
+  if (rule.flags !== undefined && !hasFlags(args, rule.flags)) {
+    return false;
+  }
+  if (rule.args !== undefined) {
+    const patterns = rule.args;
+    const candidates = positionalArgs(args).flatMap((written) => {
+      const arg = written.replace(/^(\$HOME|\$\{HOME\})(?=$|\/)/, os.homedir());
+      return [arg, normalizePathArg(arg, cwd)];
+    });
+    if (!candidates.some((arg) => matchesGlob(arg, patterns))) return false;
+  }
+  if (rule.args_regex !== undefined && !new RegExp(rule.args_regex).test(args.join(" "))) {
+    return false;
+  }
+  if (rule.input_from !== undefined) {
+    const sources = rule.input_from;
+    if (!cmd.input_from.some((source) => matchesGlob(source, sources))) return false;
+  }
+  if (rule.redirect_to !== undefined) {
+    const targets = rule.redirect_to;
+    if (!cmd.redirects.some((target) => matchesGlob(target, targets))) return false;
+  }
+  
+  return true;
+}
+
+let cachedPolicy: { rules: PolicyRule[]; defaultAction: PolicyRule["action"] } | undefined;
+
+/**
+ * Validates the shape of a policy file.
+ * 
+ * @throws Error describing the first problem found
+ */
+function validatePolicy(policy: CommandPolicy): void {
+  const actions = ["allow", "deny", "ask"];
+  
+  if (policy.default_action !== undefined && !actions.includes(policy.default_action)) {
+    throw new Error(`default_action must be one of ${actions.join(", ")}`);
+  }
+  if (policy.rules !== undefined && !Array.isArray(policy.rules)) {
+    throw new Error("rules must be an array");
+  }
+  
+  for (const [index, rule] of (policy.rules || []).entries()) {
+    if (!rule || typeof rule.id !== "string") {
+      throw new Error(`rules[${index}] is missing a string "id"`);
+    }
+    if (!actions.includes(rule.action)) {
+      throw new Error(`rule "${rule.id}": action must be one of ${actions.join(", ")}`);
+    }
+    for (const key of ["args_regex", "pattern"] as const) {
+      if (rule[key] !== undefined) {
+        try {
+          new RegExp(rule[key] as string);
+        } catch (err: any) {
+          throw new Error(`rule "${rule.id}": invalid ${key}: ${err.message}`);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Loads the effective policy: user rules from POLICY_FILE followed by the
+ * built-in rules. The result is cached for the life of the process.
+ * 
+ * @throws Error if the policy file exists but is invalid
+ */
+function loadPolicy(): { rules: PolicyRule[]; defaultAction: PolicyRule["action"] } {
+  if (cachedPolicy) return cachedPolicy;
+  
+  let userPolicy: CommandPolicy = {};
+  if (fs.existsSync(POLICY_FILE)) {
+    try {
+      userPolicy = JSON.parse(fs.readFileSync(POLICY_FILE, "utf-8"));
+      validatePolicy(userPolicy);
+    } catch (err: any) {
+      throw new Error(`Invalid policy file ${POLICY_FILE}: ${err.message}`);
+    }
+  }
+  
+  const userRules = userPolicy.rules || [];
+  cachedPolicy = {
+    rules: userPolicy.replace_defaults ? userRules : [...userRules, ...DEFAULT_POLICY_RULES],
+    defaultAction: userPolicy.default_action || "allow",
+  };
+  return cachedPolicy;
+}
+
+/**
+ * Converts a rule action into a verdict.
+ */
+function toWarning(action: PolicyRule["action"], rule: PolicyRule | undefined, commandLine: string): CommandWarning {
+  const ruleText = rule
+    ? `rule "${rule.id}"${rule.description ? ` (${rule.description})` : ""}`
+    : "the default policy";
+  
+  if (action === "deny") {
+    return {
+      verdict: "blocked",
+      rule_id: rule?.id,
+      message: `Command blocked by ${ruleText}: ${commandLine}`,
+    };
+  }
+  if (action === "ask") {
+    return {
+      verdict: "needs_confirmation",
+      rule_id: rule?.id,
+      message: `Command requires user confirmation by ${ruleText}: ${commandLine}`,
+    };
+  }
+  return { verdict: "allowed", rule_id: rule?.id, message: "Command allowed" };
+}
+
+/**
+ * Evaluates a command against the command policy.
+ * 
+ * Each simple command in the line is checked against the rules in order
+ * and takes the action of the first rule that matches (or the default
+ * action). Command lines run from a string (`bash -c`, `eval`) are checked
+ * the same way. The line as a whole is blocked if any part is denied, and
+ * needs confirmation if any part asks.
+ * 
+ * @param commandLine - The full command line, used for raw-pattern rules and messages
+ * @param commands - The simple commands to evaluate (parsed from the line, or a single argv)
+ * @param cwd - Working directory the command would run in
+ * @returns The structured verdict
+ */
+export function evaluateCommand(
+  commandLine: string,
+  commands: SimpleCommand[],
+  cwd: string
+): CommandWarning {
+  let policy;
+  try {
+    policy = loadPolicy();
+  } catch (err: any) {
+    // Fail closed: a broken policy file must not silently allow everything
+    return { verdict: "blocked", rule_id: "policy-load-error", message: err.message };
+  }
+  
+  let pending: CommandWarning | undefined;
+  
+  for (const rule of policy.rules) {
+    if (rule.pattern !== undefined && new RegExp(rule.pattern).test(commandLine)) {
+      if (rule.cwd !== undefined && !matchesGlob(cwd, rule.cwd)) continue;
+      if (rule.action === "deny") return toWarning("deny", rule, commandLine);
+      if (rule.action === "ask") pending = pending ?? toWarning("ask", rule, commandLine);
+    }
+  }
+  
+  for (const cmd of commands.flatMap(withNestedCommands)) {
+    const rule = policy.rules.find((r) => ruleMatches(r, cmd, cwd));
+    const action = rule ? rule.action : policy.defaultAction;
+    
+    if (action === "deny") {
+      return toWarning("deny", rule, commandLine);
+    }
+    if (action === "ask") {
+      pending = pending ?? toWarning("ask", rule, commandLine);
+    }
+  }
+  
+  return pending ?? { verdict: "allowed", message: "Command allowed" };
+}
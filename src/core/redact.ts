@@ -0,0 +1,207 @@
+/**
+ * Secret redaction for tool results.
+ * 
+ * Command output, file contents, clipboard text and commit messages can all
+ * contain credentials. Every string in a tool result is scanned for common
+ * secret formats before it is returned, and each match is replaced with a
+ * labelled placeholder such as [REDACTED:github_token].
+ */
+
+/**
+ * Counts of redactions by secret type
+ */
+export type RedactionCounts = Record<string, number>;
+
+/**
+ * A secret format recognised by its shape alone
+ */
+interface SecretPattern {
+  type: string;
+  regex: RegExp;
+}
+
+/**
+ * Secret formats, most specific first so that e.g. a GitHub token inside a
+ * TOKEN= assignment is labelled as a GitHub token
+ */
+const SECRET_PATTERNS: SecretPattern[] = [
+  {
+    type: "private_key",
+    regex: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----/g,
+  },
+  { type: "aws_access_key", regex: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g },
+  { type: "github_token", regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { type: "slack_token", regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g },
+  { type: "stripe_key", regex: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+  { type: "jwt", regex: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+];
+
+/**
+ * Names that suggest a credential, e.g. DB_PASSWORD, apiKey or github.token
+ */
+const SECRET_NAME =
+  "[A-Za-z0-9_.-]*(?:password|passwd|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|credentials?)[A-Za-z0-9_]*";
+
+/**
+ * A credential name assigned a quoted literal: `"secret": "value"`,
+ * `password: 'value'` or `token = "value"`.
+ * 
+ * The quote is required so that code (`const token = getToken();`,
+ * `apiKey === undefined`) and type annotations (`password: string`) are
+ * left alone. Values starting with $, {, ( or < are references or templates
+ * rather than secrets.
+ */
+const SECRET_QUOTED = new RegExp(
+  `\\b(${SECRET_NAME})(["']?[ \\t]*[=:][ \\t]*["'])([^\\s"'\`$({<][^\\s"'\`]*)`,
+  "gi"
+);
+
+/**
+ * An env-style assignment at the start of a line, with no spaces around the
+ * "=": `API_KEY=value` or `export DB_PASSWORD=value` (env files, shell).
+ * Values containing parentheses are calls (`tokens=tokenize(line)`), not
+ * secrets.
+ */
+const SECRET_ENV = new RegExp(
+  `^([ \\t]*(?:export[ \\t]+)?)(${SECRET_NAME})=([^\\s"'\`$({<][^\\s"'\`()]*)(?=\\s|$)`,
+  "gim"
+);
+
+/**
+ * Candidate high-entropy token: a long run of base64url characters (and +
+ * and =). "/" is left out so that paths are tested one component at a time.
+ */
+const ENTROPY_CANDIDATE = /(?<![A-Za-z0-9+=_-])[A-Za-z0-9+=_-]{32,200}(?![A-Za-z0-9+=_-])/g;
+
+/**
+ * Subresource integrity hash, as in lockfiles: public digests, not secrets.
+ * The capture group keeps them when text is split around them.
+ */
+const INTEGRITY_HASH = /\b(sha(?:1|256|384|512)-[A-Za-z0-9+/]+={0,2})/;
+
+/**
+ * Minimum Shannon entropy (bits per character) for a candidate to be treated
+ * as a secret. Hex digests (at most 4 bits per character), UUIDs and words
+ * joined by separators stay below it; random base64 keys do not.
+ */
+const MIN_ENTROPY = 4.3;
+
+/**
+ * Builds the placeholder for a redacted secret.
+ */
+function placeholder(type: string): string {
+  return `[REDACTED:${type}]`;
+}
+
+/**
+ * Shannon entropy of a string, in bits per character.
+ */
+function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Checks whether a candidate token looks like a random secret: mixed case,
+ * contains digits, and has high entropy.
+ */
+function looksRandom(token: string): boolean {
+  return (
+    /[a-z]/.test(token) &&
+    /[A-Z]/.test(token) &&
+    /[0-9]/.test(token) &&
+    shannonEntropy(token) >= MIN_ENTROPY
+  );
+}
+
+/**
+ * Redacts secrets in a single string.
+ * 
+ * @param text - Text to scan
+ * @param counts - Redaction counts, updated in place
+ * @param entropy - Also redact high-entropy tokens; off for base64 payloads,
+ *   which are random by nature and must decode to the original bytes
+ * @returns The text with every detected secret replaced by a placeholder
+ */
+export function redactText(text: string, counts: RedactionCounts, entropy: boolean = true): string {
+  const count = (type: string) => {
+    counts[type] = (counts[type] ?? 0) + 1;
+    return placeholder(type);
+  };
+  
+  let result = text;
+  for (const { type, regex } of SECRET_PATTERNS) {
+    result = result.replace(regex, () => count(type));
+  }
+  
+  const assignmentType = (name: string) => (/passw/i.test(name) ? "password" : "secret");
+  result = result.replace(
+    SECRET_QUOTED,
+    (match, name: string, separator: string, value: string) =>
+      value.startsWith("[REDACTED:") ? match : `${name}${separator}${count(assignmentType(name))}`
+  );
+  result = result.replace(
+    SECRET_ENV,
+    (match, prefix: string, name: string, value: string) =>
+      value.startsWith("[REDACTED:") ? match : `${prefix}${name}=${count(assignmentType(name))}`
+  );
+  
+  if (!entropy) return result;
+  
+  // Odd parts of the split are integrity hashes
+  result = result
+    .split(INTEGRITY_HASH)
+    .map((part, index) =>
+      index % 2 === 1
+        ? part
+        : part.replace(ENTROPY_CANDIDATE, (token) => (looksRandom(token) ? count("high_entropy") : token))
+    )
+    .join("");
+  
+  return result;
+}
+
+/**
+ * Redacts secrets in every string of a tool result, recursively.
+ * Object keys are left unchanged.
+ * 
+ * Binary payloads, marked by an `encoding: "base64"` sibling of their
+ * `content` (as in fs_read_file results), only get the format and
+ * assignment patterns, not the high-entropy pass.
+ * 
+ * @param value - Tool result
+ * @returns A redacted copy, and the number of redactions by type
+ */
+export function redactSecrets(value: unknown): { value: unknown; counts: RedactionCounts } {
+  const counts: RedactionCounts = {};
+  
+  const walk = (item: unknown): unknown => {
+    if (typeof item === "string") {
+      return redactText(item, counts);
+    }
+    if (Array.isArray(item)) {
+      return item.map(walk);
+    }
+    if (item && typeof item === "object") {
+      const binary = (item as Record<string, unknown>).encoding === "base64";
+      return Object.fromEntries(
+        Object.entries(item).map(([key, v]) => [
+          key,
+          binary && key === "content" && typeof v === "string" ? redactText(v, counts, false) : walk(v),
+        ])
+      );
+    }
+    return item;
+  };
+  
+  return { value: walk(value), counts };
+}
@@ -0,0 +1,116 @@
+/**
+ * Regular expression matching off the main thread.
+ * 
+ * User-supplied patterns can backtrack catastrophically (`(a+)+$` on a
+ * long run of "a"s takes practically forever), and a running match cannot
+ * be interrupted. Matching in a worker thread keeps the server responsive,
+ * and a runaway match is stopped by terminating the worker.
+ */
+
+import { Worker, isMainThread, parentPort, workerData } from "worker_threads";
+
+/**
+ * First match on a line: the line's 0-based index, the match offset and the
+ * matched text
+ */
+export interface LineMatch {
+  line: number;
+  index: number;
+  text: string;
+}
+
+/**
+ * A pattern compiled in its own worker thread
+ */
+export interface RegexMatcher {
+  /**
+   * Finds the first match on each line, stopping after `limit` matching lines.
+   * 
+   * @throws Error if matching takes longer than the time limit; the worker is then stopped
+   */
+  matchLines(lines: string[], limit: number): Promise<LineMatch[]>;
+  /** Stops the worker */
+  close(): Promise<void>;
+}
+
+/**
+ * Marks the worker started by createRegexMatcher
+ */
+const WORKER_KIND = "regex-matcher";
+
+/**
+ * Finds the first match on each line, up to `limit` matching lines.
+ */
+function firstMatches(regex: RegExp, lines: string[], limit: number): LineMatch[] {
+  const found: LineMatch[] = [];
+  
+  for (let i = 0; i < lines.length && found.length < limit; i++) {
+    const match = regex.exec(lines[i]);
+    if (match) found.push({ line: i, index: match.index, text: match[0] });
+  }
+  return found;
+}
+
+// Worker side: this module is also the worker's entry point
+if (!isMainThread && workerData?.kind === WORKER_KIND) {
+  const regex = new RegExp(workerData.source, workerData.flags);
+  parentPort?.on("message", ({ lines, limit }: { lines: string[]; limit: number }) => {
+    parentPort?.postMessage(firstMatches(regex, lines, limit));
+  });
+}
+
+/**
+ * Starts a worker thread that matches lines against a regular expression.
+ * 
+ * Callers must close the matcher when done with it.
+ * 
+ * @param source - Pattern source (already checked to compile)
+ * @param flags - Regular expression flags
+ * @param timeoutSeconds - Longest a single matchLines call may take
+ * @returns The matcher
+ */
+export function createRegexMatcher(
+  source: string,
+  flags: string,
+  timeoutSeconds: number
+): RegexMatcher {
+  const worker = new Worker(new URL(import.meta.url), {
+    workerData: { kind: WORKER_KIND, source, flags },
+  });
+  
+  const matchLines = (lines: string[], limit: number) =>
+    new Promise<LineMatch[]>((resolve, reject) => {
+      const finish = () => {
+        clearTimeout(timer);
+        worker.off("message", onMessage);
+        worker.off("error", onError);
+      };
+      const onMessage = (found: LineMatch[]) => {
+        finish();
+        resolve(found);
+      };
+      const onError = (error: Error) => {
+        finish();
+        reject(error);
+      };
+      const timer = setTimeout(() => {
+        finish();
+        void worker.terminate();
+        reject(new Error(
+          `Pattern did not finish within ${timeoutSeconds} seconds and was stopped. ` +
+          `Nested quantifiers such as (a+)+ can take exponential time; simplify the pattern.`
+        ));
+      }, timeoutSeconds * 1000);
+      
+      worker.on("message", onMessage);
+      worker.on("error", onError);
+      worker.postMessage({ lines, limit });
+    });
+  
+  return {
+    matchLines,
+    close: async () => {
+      await worker.terminate();
+    },
+  };
+}
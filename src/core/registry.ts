@@ -0,0 +1,124 @@
+/**
+ * Tool registry.
+ * 
+ * Tools modules export arrays of ToolDefinitions; the server registers them
+ * here at startup, grouped, and looks tools up by name when listing and
+ * dispatching. The active profile decides which tools are enabled.
+ */
+
+import type { ToolDefinition, ToolGroup } from "./types.js";
+import { matchesGlob } from "./glob.js";
+import { CONFIRMATION_TOKEN_ARG } from "./confirm.js";
+import {
+  TOOL_PROFILES,
+  TOOL_PROFILE,
+  ENABLED_TOOLS,
+  DISABLED_TOOLS,
+  CONFIRMATION_TOOLS,
+} from "../config.js";
+
+/**
+ * A registered tool and the group it belongs to
+ */
+interface RegisteredTool {
+  tool: ToolDefinition;
+  group: ToolGroup;
+}
+
+const registry = new Map<string, RegisteredTool>();
+
+/**
+ * Registers tool definitions.
+ * 
+ * @param group - Group the tools belong to, used by profiles
+ * @param tools - Definitions exported by a tools module
+ * @throws Error if a tool name is already registered
+ */
+export function registerTools(group: ToolGroup, tools: ToolDefinition[]): void {
+  for (const tool of tools) {
+    if (registry.has(tool.name)) {
+      throw new Error(`Tool registered twice: ${tool.name}`);
+    }
+    registry.set(tool.name, { tool, group });
+  }
+}
+
+/**
+ * Checks the enable_tools / disable_tools lists and the confirm_tools keys
+ * against the registered tools. Called once at startup, after registration.
+ * (The profile name is validated with the rest of the configuration.)
+ * 
+ * Only tools with a preview whose schema accepts a confirmation token can
+ * be confirmed; any other confirm_tools entry would silently do nothing.
+ * 
+ * @throws Error if a list entry matches no tool, or a confirm_tools entry names a tool that cannot be confirmed
+ */
+export function validateToolSettings(): void {
+  const names = [...registry.keys()];
+  for (const pattern of [...ENABLED_TOOLS, ...DISABLED_TOOLS]) {
+    if (!names.some((name) => matchesGlob(name, pattern))) {
+      throw new Error(`No tool matches "${pattern}" in enable_tools / disable_tools`);
+    }
+  }
+  
+  const problems: string[] = [];
+  for (const name of Object.keys(CONFIRMATION_TOOLS)) {
+    const tool = registry.get(name)?.tool;
+    if (!tool) {
+      problems.push(`${name} is not a known tool`);
+    } else if (!tool.preview || !tool.inputSchema.properties?.[CONFIRMATION_TOKEN_ARG]) {
+      problems.push(`${name} does not support confirmation`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid confirm_tools: ${problems.join("; ")}`);
+  }
+}
+
+/**
+ * Decides whether a registered tool is enabled under the active profile.
+ */
+function isEnabled(entry: RegisteredTool): boolean {
+  const { tool, group } = entry;
+  
+  if (DISABLED_TOOLS.some((pattern) => matchesGlob(tool.name, pattern))) {
+    return false;
+  }
+  if (ENABLED_TOOLS.some((pattern) => matchesGlob(tool.name, pattern))) {
+    return true;
+  }
+  
+  const profile = TOOL_PROFILES[TOOL_PROFILE];
+  if (!profile || !profile.groups.includes(group)) {
+    return false;
+  }
+  return !profile.read_only || tool.readOnly === true;
+}
+
+/**
+ * Looks up a registered tool.
+ * 
+ * @param name - Tool name
+ * @returns The definition, or undefined if no such tool is registered
+ */
+export function getTool(name: string): ToolDefinition | undefined {
+  return registry.get(name)?.tool;
+}
+
+/**
+ * Checks whether a tool may be called under the active profile.
+ * 
+ * @param name - Tool name
+ * @returns True if the tool is registered and enabled
+ */
+export function isToolEnabled(name: string): boolean {
+  const entry = registry.get(name);
+  return entry !== undefined && isEnabled(entry);
+}
+
+/**
+ * Lists the enabled tools in registration order.
+ */
+export function listTools(): ToolDefinition[] {
+  return [...registry.values()].filter(isEnabled).map((entry) => entry.tool);
+}
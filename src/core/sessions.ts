@@ -0,0 +1,365 @@
+/**
+ * Background command sessions.
+ * 
+ * Long-running commands (dev servers, watchers, `tail -f`) are started as
+ * detached child processes whose output is buffered in memory. Clients poll
+ * the buffer with a cursor, can write to stdin, and stop the session when done.
+ * All sessions are killed when the server exits.
+ */
+
+import { randomUUID } from "crypto";
+import type { ChildProcessWithoutNullStreams } from "child_process";
+import { checkCommandSafety, describeCommand, spawnCommand } from "./exec.js";
+import type {
+  CommandOptions,
+  SessionInfo,
+  SessionReadResult,
+} from "./types.js";
+import { SESSION_BUFFER_CHARS, MAX_SESSIONS } from "../config.js";
+
+/**
+ * A chunk of output, positioned in the session's combined output stream
+ */
+interface OutputChunk {
+  offset: number;
+  stream: "stdout" | "stderr";
+  text: string;
+}
+
+/**
+ * In-memory state of a single session
+ */
+interface Session {
+  id: string;
+  command: string;
+  cwd: string;
+  child: ChildProcessWithoutNullStreams;
+  chunks: OutputChunk[];
+  bufferedChars: number;
+  totalChars: number;
+  exitCode: number | null;
+  signal: string | null;
+  startedAt: string;
+  endedAt: string | null;
+  exitUnknown: boolean;
+}
+
+const sessions = new Map<string, Session>();
+
+/**
+ * Seconds to wait for a process to exit after SIGKILL before giving up on it
+ */
+const KILL_WAIT_SECONDS = 2;
+
+/**
+ * Appends output to a session, discarding the oldest chunks once the
+ * buffer exceeds SESSION_BUFFER_CHARS.
+ */
+function appendOutput(
+  session: Session,
+  stream: "stdout" | "stderr",
+  text: string
+): void {
+  session.chunks.push({ offset: session.totalChars, stream, text });
+  session.totalChars += text.length;
+  session.bufferedChars += text.length;
+  
+  while (session.bufferedChars > SESSION_BUFFER_CHARS && session.chunks.length > 1) {
+    const dropped = session.chunks.shift()!;
+    session.bufferedChars -= dropped.text.length;
+  }
+}
+
+/**
+ * Removes the oldest finished sessions until there is room for a new one.
+ * 
+ * @throws Error if MAX_SESSIONS sessions are still running
+ */
+function makeRoom(): void {
+  if (sessions.size < MAX_SESSIONS) return;
+  
+  const finished = [...sessions.values()]
+    .filter((s) => s.endedAt !== null)
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  
+  while (sessions.size >= MAX_SESSIONS && finished.length > 0) {
+    sessions.delete(finished.shift()!.id);
+  }
+  
+  if (sessions.size >= MAX_SESSIONS) {
+    throw new Error(
+      `Too many running sessions (${MAX_SESSIONS}). Stop one before starting another.`
+    );
+  }
+}
+
+/**
+ * Looks up a session by id.
+ * 
+ * @throws Error if the session does not exist
+ */
+function getSession(sessionId: string): Session {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    throw new Error(`Unknown session: ${sessionId}`);
+  }
+  return session;
+}
+
+/**
+ * Sends a signal to a session's whole process group, so that children of
+ * the shell (e.g. the server started by `npm run dev`) are stopped too.
+ */
+function signalSession(session: Session, signal: NodeJS.Signals): void {
+  if (session.endedAt !== null || session.child.pid === undefined) return;
+  
+  try {
+    process.kill(-session.child.pid, signal);
+  } catch {
+    // Group already gone; fall back to the direct child
+    session.child.kill(signal);
+  }
+}
+
+/**
+ * Builds the public summary of a session.
+ */
+function toInfo(session: Session): SessionInfo {
+  return {
+    session_id: session.id,
+    command: session.command,
+    cwd: session.cwd,
+    pid: session.child.pid,
+    running: session.endedAt === null,
+    exit_code: session.exitCode,
+    signal: session.signal,
+    started_at: session.startedAt,
+    ended_at: session.endedAt,
+    ...(session.exitUnknown ? { exit_unknown: true } : {}),
+  };
+}
+
+/**
+ * Starts a command in the background.
+ * 
+ * The same command policy as execCommand applies. Timeouts do not: the
+ * session runs until it exits or is stopped.
+ * 
+ * @param options - Command options (command or argv, cwd, input)
+ * @param confirmed - The user confirmed the command (see checkCommandSafety)
+ * @returns Summary of the new session
+ * @throws Error if the command is blocked or cannot be started
+ */
+export function startSession(options: CommandOptions, confirmed: boolean = false): SessionInfo {
+  const cwd = options.cwd || process.cwd();
+  const commandLine = describeCommand(options);
+  
+  const safetyWarning = checkCommandSafety(options, cwd, confirmed);
+  if (safetyWarning) {
+    throw new Error(safetyWarning.message);
+  }
+  
+  makeRoom();
+  
+  const child = spawnCommand(options, cwd, true);
+  const session: Session = {
+    id: randomUUID(),
+    command: commandLine,
+    cwd,
+    child,
+    chunks: [],
+    bufferedChars: 0,
+    totalChars: 0,
+    exitCode: null,
+    signal: null,
+    startedAt: new Date().toISOString(),
+    endedAt: null,
+    exitUnknown: false,
+  };
+  
+  child.stdout.setEncoding("utf-8");
+  child.stderr.setEncoding("utf-8");
+  child.stdout.on("data", (chunk: string) => appendOutput(session, "stdout", chunk));
+  child.stderr.on("data", (chunk: string) => appendOutput(session, "stderr", chunk));
+  child.stdin.on("error", () => {});
+  
+  child.on("error", (err) => {
+    appendOutput(session, "stderr", `Failed to start: ${err.message}\n`);
+    session.exitCode = 127;
+    session.endedAt = new Date().toISOString();
+  });
+  
+  child.on("close", (code, signal) => {
+    session.exitCode = code;
+    session.signal = signal;
+    session.endedAt = session.endedAt ?? new Date().toISOString();
+    session.exitUnknown = false;
+  });
+  
+  if (options.input !== undefined) {
+    child.stdin.write(options.input);
+  }
+  
+  sessions.set(session.id, session);
+  return toInfo(session);
+}
+
+/**
+ * Reads output produced since a cursor.
+ * 
+ * The cursor is a character offset into the session's combined output.
+ * Pass the returned `next_cursor` to the following call to receive only
+ * new output. If older output was discarded, reading resumes at the oldest
+ * retained chunk and `output_dropped` is set.
+ * 
+ * @param sessionId - Session to read from
+ * @param cursor - Offset to read from (default: 0)
+ * @param maxChars - Maximum characters to return in this call
+ * @returns New stdout/stderr and the cursor for the next read
+ */
+export function readSession(
+  sessionId: string,
+  cursor: number = 0,
+  maxChars: number = SESSION_BUFFER_CHARS
+): SessionReadResult {
+  const session = getSession(sessionId);
+  
+  const firstOffset = session.chunks.length > 0
+    ? session.chunks[0].offset
+    : session.totalChars;
+  const outputDropped = cursor < firstOffset;
+  let position = Math.max(cursor, firstOffset);
+  
+  let stdout = "";
+  let stderr = "";
+  let remaining = maxChars;
+  
+  for (const chunk of session.chunks) {
+    const end = chunk.offset + chunk.text.length;
+    if (end <= position) continue;
+    if (remaining <= 0) break;
+    
+    const text = chunk.text.slice(position - chunk.offset, position - chunk.offset + remaining);
+    if (chunk.stream === "stdout") {
+      stdout += text;
+    } else {
+      stderr += text;
+    }
+    position += text.length;
+    remaining -= text.length;
+  }
+  
+  return {
+    ...toInfo(session),
+    stdout,
+    stderr,
+    next_cursor: position,
+    output_dropped: outputDropped,
+    has_more: position < session.totalChars,
+  };
+}
+
+/**
+ * Writes text to a running session's stdin.
+ * 
+ * @param sessionId - Session to write to
+ * @param input - Text to send (include a trailing newline for line-based programs)
+ * @param closeStdin - Close stdin after writing, signalling EOF
+ * @returns Number of characters written
+ * @throws Error if the session has already ended
+ */
+export function writeSession(
+  sessionId: string,
+  input: string,
+  closeStdin: boolean = false
+): { session_id: string; chars_written: number } {
+  const session = getSession(sessionId);
+  
+  if (session.endedAt !== null) {
+    throw new Error(`Session ${sessionId} has already exited`);
+  }
+  
+  if (closeStdin) {
+    session.child.stdin.end(input);
+  } else {
+    session.child.stdin.write(input);
+  }
+  
+  return { session_id: sessionId, chars_written: input.length };
+}
+
+/**
+ * Waits for a promise, giving up after a number of seconds.
+ * 
+ * @returns True if the promise resolved in time
+ */
+async function resolvesWithin(promise: Promise<void>, seconds: number): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), seconds * 1000);
+  });
+  
+  try {
+    return await Promise.race([promise.then(() => true), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Stops a session, escalating to SIGKILL if it ignores SIGTERM.
+ * 
+ * A process that does not exit even after SIGKILL (uninterruptible sleep,
+ * or an exit that is never reported) is not waited for: the session is
+ * marked as ended with exit_unknown after KILL_WAIT_SECONDS.
+ * 
+ * @param sessionId - Session to stop
+ * @param force - Send SIGKILL immediately (default: false)
+ * @param graceSeconds - Time to wait after SIGTERM before SIGKILL (default: 5)
+ * @returns Final session summary
+ */
+export async function stopSession(
+  sessionId: string,
+  force: boolean = false,
+  graceSeconds: number = 5
+): Promise<SessionInfo> {
+  const session = getSession(sessionId);
+  
+  if (session.endedAt === null) {
+    const exited = new Promise<void>((resolve) => session.child.once("close", () => resolve()));
+    
+    signalSession(session, force ? "SIGKILL" : "SIGTERM");
+    let stopped = await resolvesWithin(exited, force ? KILL_WAIT_SECONDS : graceSeconds);
+    
+    if (!stopped && !force) {
+      signalSession(session, "SIGKILL");
+      stopped = await resolvesWithin(exited, KILL_WAIT_SECONDS);
+    }
+    if (!stopped) {
+      session.signal = "SIGKILL";
+      session.endedAt = new Date().toISOString();
+      session.exitUnknown = true;
+    }
+  }
+  
+  return toInfo(session);
+}
+
+/**
+ * Lists all known sessions, newest first.
+ */
+export function listSessions(): SessionInfo[] {
+  return [...sessions.values()]
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+    .map(toInfo);
+}
+
+/**
+ * Kills every running session immediately. Called on server shutdown;
+ * synchronous so it can run inside a process "exit" handler.
+ */
+export function stopAllSessions(): void {
+  for (const session of sessions.values()) {
+    signalSession(session, "SIGKILL");
+  }
+}
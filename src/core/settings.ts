@@ -0,0 +1,244 @@
+/**
+ * Layered configuration loading.
+ * 
+ * Settings are merged from four layers, later layers winning:
+ *   1. built-in defaults
+ *   2. the user config file (~/.config/aashna-dev-mcp/config.{json,yaml,yml})
+ *   3. a project config file (.aashna-dev-mcp.{json,yaml,yml} in the server's
+ *      working directory or one of its parents)
+ *   4. environment variables
+ * 
+ * Every value is validated against its definition's schema. Problems are
+ * collected rather than thrown so that the server can report all of them
+ * at once on startup.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { expandHome } from "./glob.js";
+import { validateValue } from "./validate.js";
+import type {
+  SettingDefinition,
+  SettingReport,
+  LoadedSettings,
+  ValidationIssue,
+} from "./types.js";
+
+const CONFIG_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+/**
+ * Definitions for every setting, keyed by setting name
+ */
+export type SettingDefinitions<T> = { [K in keyof T]: SettingDefinition<T[K]> };
+
+/**
+ * Returns the first existing file among `base` + each config extension.
+ */
+function findConfigFile(base: string): string | null {
+  for (const ext of CONFIG_EXTENSIONS) {
+    if (fs.existsSync(base + ext)) return base + ext;
+  }
+  return null;
+}
+
+/**
+ * Locates the user config file.
+ * 
+ * MCP_CONFIG_FILE names it explicitly; otherwise it is config.{json,yaml,yml}
+ * in $XDG_CONFIG_HOME/aashna-dev-mcp (default ~/.config/aashna-dev-mcp).
+ */
+function findUserConfig(): string | null {
+  if (process.env.MCP_CONFIG_FILE) {
+    return path.resolve(expandHome(process.env.MCP_CONFIG_FILE));
+  }
+  
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+  return findConfigFile(path.join(configHome, "aashna-dev-mcp", "config"));
+}
+
+/**
+ * Locates the nearest project config file, searching from the working
+ * directory upwards. The search stops at the home directory.
+ */
+function findProjectConfig(): string | null {
+  const home = os.homedir();
+  let dir = process.cwd();
+  
+  while (true) {
+    const file = findConfigFile(path.join(dir, ".aashna-dev-mcp"));
+    if (file) return file;
+    
+    const parent = path.dirname(dir);
+    if (dir === home || parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Reads and parses a JSON or YAML config file.
+ * 
+ * @throws Error if the file cannot be read or parsed, or is not an object
+ */
+function readConfigFile(file: string): Record<string, unknown> {
+  const text = fs.readFileSync(file, "utf-8");
+  const data = file.endsWith(".json") ? JSON.parse(text) : parseYaml(text);
+  
+  if (data === null || data === undefined) return {};
+  if (typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("must contain an object of settings");
+  }
+  return data as Record<string, unknown>;
+}
+
+/**
+ * Default conversion of an environment variable, by the setting's type.
+ */
+function parseEnvValue(definition: SettingDefinition<unknown>, raw: string): unknown {
+  switch (definition.schema.type) {
+    case "number":
+    case "integer": {
+      // Leave non-numeric text as is so validation reports it as a string
+      const number = Number(raw);
+      return Number.isNaN(number) ? raw.trim() : number;
+    }
+    case "boolean": {
+      // Anything else (a typo such as "ture") is left for validation to reject
+      const word = raw.trim().toLowerCase();
+      if (["1", "true", "yes", "on"].includes(word)) return true;
+      if (["0", "false", "no", "off"].includes(word)) return false;
+      return raw.trim();
+    }
+    case "array":
+      return raw.split(",").map((item) => item.trim()).filter(Boolean);
+    default:
+      return raw.trim();
+  }
+}
+
+/**
+ * Expands ~ and resolves relative paths in a path setting.
+ */
+function resolvePaths(value: unknown, baseDir: string): unknown {
+  if (typeof value === "string") {
+    return path.resolve(baseDir, expandHome(value));
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolvePaths(item, baseDir));
+  }
+  return value;
+}
+
+/**
+ * Loads the layered configuration.
+ * 
+ * @param definitions - Every known setting
+ * @returns Effective values, where each came from, and any problems found
+ */
+export function loadSettings<T>(definitions: SettingDefinitions<T>): LoadedSettings<T> {
+  const defs = definitions as Record<string, SettingDefinition<unknown>>;
+  const values: Record<string, unknown> = {};
+  const settings: Record<string, SettingReport> = {};
+  const errors: string[] = [];
+  
+  /**
+   * Validates and applies one value from a layer.
+   */
+  const apply = (
+    key: string,
+    value: unknown,
+    source: string,
+    baseDir: string,
+    raw?: string
+  ) => {
+    const definition = defs[key];
+    const issues: ValidationIssue[] = [];
+    validateValue(definition.schema, value, key, issues);
+    
+    if (issues.length > 0) {
+      const context = raw !== undefined ? ` (value: ${JSON.stringify(raw)})` : "";
+      for (const issue of issues) {
+        errors.push(`${source}: ${issue.field} ${issue.message}${context}`);
+      }
+      return;
+    }
+    
+    const resolved = definition.path ? resolvePaths(value, baseDir) : value;
+    const previous = values[key];
+    
+    // Maps (e.g. confirm_tools) merge key by key with the layers below
+    values[key] = definition.schema.additionalProperties && previous
+      ? { ...(previous as object), ...(resolved as object) }
+      : resolved;
+    settings[key] = { value: values[key], source };
+  };
+  
+  // 1. Defaults (derived defaults are filled in at the end)
+  for (const [key, definition] of Object.entries(defs)) {
+    if (typeof definition.default !== "function") {
+      values[key] = definition.default;
+      settings[key] = { value: definition.default, source: "default" };
+    }
+  }
+  
+  // 2 and 3. Config files
+  const userFile = findUserConfig();
+  const projectFile = findProjectConfig();
+  const layers: [string | null, string, boolean][] = [
+    [userFile, "user config", false],
+    [projectFile, "project config", true],
+  ];
+  
+  for (const [file, label, isProject] of layers) {
+    if (!file || (isProject && file === userFile)) continue;
+    
+    const source = `${label} (${file})`;
+    let data: Record<string, unknown>;
+    try {
+      data = readConfigFile(file);
+    } catch (error: any) {
+      // YAML errors include a multi-line code excerpt; the first line is enough
+      errors.push(`${source}: ${String(error.message).split("\n")[0]}`);
+      continue;
+    }
+    
+    for (const [key, value] of Object.entries(data)) {
+      if (!defs[key]) {
+        errors.push(`${source}: ${key} is not a known setting`);
+      } else if (isProject && defs[key].userOnly) {
+        errors.push(`${source}: ${key} can only be set in the user config or environment`);
+      } else {
+        apply(key, value, source, path.dirname(file));
+      }
+    }
+  }
+  
+  // 4. Environment variables
+  for (const [key, definition] of Object.entries(defs)) {
+    const raw = definition.env ? process.env[definition.env] : undefined;
+    if (raw === undefined || raw.trim() === "") continue;
+    
+    const value = definition.parseEnv
+      ? definition.parseEnv(raw)
+      : parseEnvValue(definition, raw);
+    apply(key, value, `env ${definition.env}`, process.cwd(), raw);
+  }
+  
+  // Derived defaults, now that everything they depend on is known
+  for (const [key, definition] of Object.entries(defs)) {
+    if (typeof definition.default === "function" && !(key in values)) {
+      const derive = definition.default as (values: Record<string, unknown>) => unknown;
+      values[key] = derive(values);
+      settings[key] = { value: values[key], source: "default" };
+    }
+  }
+  
+  return {
+    values: values as T,
+    settings,
+    user_file: userFile,
+    project_file: projectFile,
+    errors,
+  };
+}
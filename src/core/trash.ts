@@ -0,0 +1,182 @@
+/**
+ * Server-managed trash.
+ * 
+ * Files and directories deleted by fs_delete, or replaced by fs_move and
+ * fs_copy, are moved here instead of being removed, so that they can be
+ * restored. Each entry has its own directory under TRASH_DIR holding the
+ * entry itself and an entry.json with its TrashEntry metadata. Entries older
+ * than TRASH_RETENTION_DAYS are purged whenever something new is trashed.
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { randomBytes } from "crypto";
+import type { TrashEntry } from "./types.js";
+import { TRASH_DIR, TRASH_RETENTION_DAYS } from "../config.js";
+
+/**
+ * Metadata file inside each entry's directory
+ */
+const METADATA_FILE = "entry.json";
+
+/**
+ * Trash ids: a timestamp (so ids sort by age) and a random suffix
+ */
+const TRASH_ID = /^\d{8}T\d{9}Z-[0-9a-f]{8}$/;
+
+/**
+ * Counts the files in a file or directory and adds up their sizes.
+ * Symlinks count as files of their own (link) size and are not followed.
+ * 
+ * @param target - Absolute path
+ * @returns Whether it is a directory, the number of files and their total size
+ */
+export async function measurePath(
+  target: string
+): Promise<{ is_dir: boolean; files: number; size: number }> {
+  const stats = await fs.lstat(target);
+  if (!stats.isDirectory()) {
+    return { is_dir: false, files: 1, size: stats.size };
+  }
+  
+  let files = 0;
+  let size = 0;
+  for (const entry of await fs.readdir(target, { withFileTypes: true })) {
+    const child = await measurePath(path.join(target, entry.name));
+    files += child.files;
+    size += child.size;
+  }
+  
+  return { is_dir: true, files, size };
+}
+
+/**
+ * Renames a file or directory, copying and removing it when the destination
+ * is on another filesystem (where rename fails with EXDEV).
+ * 
+ * @param source - Existing absolute path
+ * @param destination - New absolute path; its parent must exist
+ */
+export async function renamePath(source: string, destination: string): Promise<void> {
+  try {
+    await fs.rename(source, destination);
+  } catch (error: any) {
+    if (error.code !== "EXDEV") throw error;
+    
+    await fs.cp(source, destination, {
+      recursive: true,
+      errorOnExist: true,
+      force: false,
+      preserveTimestamps: true,
+      verbatimSymlinks: true,
+    });
+    await fs.rm(source, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Looks up a trash entry without restoring it.
+ * 
+ * @param id - Trash id
+ * @returns The entry, or null if there is no such (readable) entry
+ */
+export async function findTrashEntry(id: string): Promise<TrashEntry | null> {
+  if (!TRASH_ID.test(id)) return null;
+  
+  try {
+    const data = await fs.readFile(path.join(TRASH_DIR, id, METADATA_FILE), "utf-8");
+    return JSON.parse(data) as TrashEntry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Lists the entries in the trash, newest first.
+ */
+export async function listTrash(): Promise<TrashEntry[]> {
+  let ids: string[];
+  try {
+    ids = await fs.readdir(TRASH_DIR);
+  } catch {
+    return [];
+  }
+  
+  const entries: TrashEntry[] = [];
+  for (const id of ids.sort().reverse()) {
+    const entry = await findTrashEntry(id);
+    if (entry) entries.push(entry);
+  }
+  return entries;
+}
+
+/**
+ * Removes entries older than TRASH_RETENTION_DAYS.
+ */
+async function purgeExpired(): Promise<void> {
+  if (TRASH_RETENTION_DAYS <= 0) return;
+  
+  const cutoff = Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  for (const entry of await listTrash()) {
+    if (Date.parse(entry.trashed_at) < cutoff) {
+      await fs.rm(path.join(TRASH_DIR, entry.id), { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Moves a file or directory into the trash.
+ * 
+ * @param target - Absolute path of an existing entry (already validated)
+ * @returns The new trash entry
+ */
+export async function trashPath(target: string): Promise<TrashEntry> {
+  await purgeExpired();
+  
+  const now = new Date();
+  const id = `${now.toISOString().replace(/[-:.]/g, "")}-${randomBytes(4).toString("hex")}`;
+  const entryDir = path.join(TRASH_DIR, id);
+  const measured = await measurePath(target);
+  const entry: TrashEntry = {
+    id,
+    original_path: target,
+    ...measured,
+    trashed_at: now.toISOString(),
+  };
+  
+  await fs.mkdir(entryDir, { recursive: true });
+  await fs.writeFile(path.join(entryDir, METADATA_FILE), JSON.stringify(entry, null, 2));
+  try {
+    await renamePath(target, path.join(entryDir, path.basename(target)));
+  } catch (error) {
+    // Drop the half-made entry, unless the original is already gone and the
+    // trash holds the only copy
+    const originalRemains = await fs.lstat(target).then(() => true, () => false);
+    if (originalRemains) await fs.rm(entryDir, { recursive: true, force: true });
+    throw error;
+  }
+  
+  return entry;
+}
+
+/**
+ * Moves an entry out of the trash.
+ * 
+ * @param id - Trash id
+ * @param destination - Absolute path to restore to (already validated); its
+ *   parent must exist and the path itself must not
+ * @returns The restored entry
+ * @throws Error if there is no entry with this id
+ */
+export async function takeFromTrash(id: string, destination: string): Promise<TrashEntry> {
+  const entry = await findTrashEntry(id);
+  if (!entry) {
+    throw new Error(`No trash entry with id ${id}. Use fs_list_trash to see the trash.`);
+  }
+  
+  const entryDir = path.join(TRASH_DIR, id);
+  await renamePath(path.join(entryDir, path.basename(entry.original_path)), destination);
+  await fs.rm(entryDir, { recursive: true, force: true });
+  
+  return entry;
+}
@@ -12,20 +12,148 @@ export interface CommandResult {
   timed_out: boolean;
   cwd: string;
   truncated: boolean;
-  warning?: string;
+  warning?: CommandWarning;
 }
 
 /**
- * Options for executing a shell command
+ * Outcome of evaluating a command against the command policy
+ */
+export type PolicyDecision = "allowed" | "blocked" | "needs_confirmation";
+
+/**
+ * Structured warning attached to a command result. Commands that were not
+ * run (blocked, awaiting confirmation, dry run) always carry one.
+ */
+export interface CommandWarning {
+  verdict: PolicyDecision;
+  rule_id?: string;
+  message: string;
+}
+
+/**
+ * A single command policy rule.
+ * 
+ * A rule matches a simple command (one pipeline stage) when every condition
+ * it specifies holds. Glob fields accept a single glob or a list of globs.
+ */
+export interface PolicyRule {
+  id: string;
+  action: "allow" | "deny" | "ask";
+  description?: string;
+  /** Executable basename globs, e.g. "rm" or "mkfs*" */
+  executable?: string | string[];
+  /** Flags that must all be present; "r|R|recursive" accepts any alternative */
+  flags?: string[];
+  /** At least one non-flag argument must match one of these globs */
+  args?: string | string[];
+  /** Regex tested against the space-joined arguments */
+  args_regex?: string;
+  /** Working directory globs the rule is limited to */
+  cwd?: string | string[];
+  /** Stdin piped from, or a substitution running, one of these executables */
+  input_from?: string | string[];
+  /** A redirection target matches one of these globs */
+  redirect_to?: string | string[];
+  /** Regex tested against the raw command line, for constructs that do not tokenize */
+  pattern?: string;
+}
+
+/**
+ * Contents of the user's command policy file
+ */
+export interface CommandPolicy {
+  /** Decision when no rule matches (default: "allow") */
+  default_action?: "allow" | "deny" | "ask";
+  /** Drop the built-in rules instead of appending them after the user's */
+  replace_defaults?: boolean;
+  rules?: PolicyRule[];
+}
+
+/**
+ * Options for executing a shell command.
+ * 
+ * Exactly one of `command` (run through the shell) or `argv` (run directly,
+ * no shell) should be given.
  */
 export interface CommandOptions {
-  command: string;
+  command?: string;
+  argv?: string[];
+  input?: string;
   cwd?: string;
   timeout_seconds?: number;
   max_output_chars?: number;
   dry_run?: boolean;
 }
 
+/**
+ * Summary of a background command session
+ */
+export interface SessionInfo {
+  session_id: string;
+  command: string;
+  cwd: string;
+  pid?: number;
+  running: boolean;
+  exit_code: number | null;
+  signal: string | null;
+  started_at: string;
+  ended_at: string | null;
+  /** True if the session was sent SIGKILL but never reported its exit */
+  exit_unknown?: boolean;
+}
+
+/**
+ * Incremental output read from a background session
+ */
+export interface SessionReadResult extends SessionInfo {
+  stdout: string;
+  stderr: string;
+  next_cursor: number;
+  output_dropped: boolean;
+  has_more: boolean;
+}
+
+/**
+ * Per-tool confirmation settings
+ */
+export interface ConfirmationSetting {
+  enabled: boolean;
+  ttl_seconds: number;
+}
+
+/**
+ * Returned instead of running a destructive tool, until it is called again
+ * with the confirmation token
+ */
+export interface ConfirmationRequest {
+  confirmation_required: true;
+  tool: string;
+  confirmation_token: string;
+  expires_at: string;
+  preview: unknown;
+  message: string;
+}
+
+/**
+ * One line of the audit log
+ */
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  args: Record<string, unknown>;
+  cwd: string;
+  duration_ms: number;
+  success: boolean;
+  exit_code?: number;
+  truncated?: boolean;
+  error?: string;
+}
+
+/**
+ * Whether a path is about to be read or modified
+ */
+export type PathAccess = "read" | "write";
+
 /**
  * Directory entry returned by filesystem tools
  */
@@ -37,21 +165,332 @@ export interface DirectoryEntry {
   modified?: string | null;
 }
 
+/**
+ * Which part of a file to read, and how to decode it.
+ * 
+ * Line mode (start_line / line_count), tail mode (tail_lines) and byte mode
+ * (byte_offset) are mutually exclusive. Without any of them the file is read
+ * from the start. Every mode returns at most max_bytes.
+ */
+export interface FileReadOptions {
+  max_bytes?: number;
+  /** First line to return (1-based) */
+  start_line?: number;
+  /** Number of lines to return from start_line */
+  line_count?: number;
+  /** Return the last N lines */
+  tail_lines?: number;
+  /** Byte offset to start reading at; moved forward to a character boundary */
+  byte_offset?: number;
+  /** Prefix each line with its line number */
+  line_numbers?: boolean;
+  /** Text encoding to decode with, or "auto" (default) to detect it */
+  encoding?: string;
+  /** How binary files are returned (default: base64) */
+  binary_format?: "base64" | "hex";
+}
+
 /**
  * Result of reading a file
  */
 export interface FileReadResult {
   content: string;
-  encoding: "utf-8";
+  /** Encoding the text was decoded from, or "base64" / "hex" for binary content */
+  encoding: string;
+  /** True if the file looks binary (NUL bytes or mostly control characters) */
+  binary: boolean;
+  /** "text/plain" for text, otherwise sniffed from the file's magic number */
+  mime_type: string;
+  /** True if the requested range did not fit in max_bytes */
   truncated: boolean;
+  size: number;
+  modified: string;
+  /** Text only: number of lines in the file */
+  total_lines?: number;
+  /** Text only: SHA-256 of the whole file, for fs_edit_file's expected_sha256 */
+  sha256?: string;
+  /** Text only: lines returned (1-based, inclusive); end_line < start_line if none were */
+  start_line?: number;
+  end_line?: number;
+  /** Bytes returned: [start_byte, end_byte) */
+  start_byte: number;
+  end_byte: number;
+  /** Where to continue reading, if the file continues past end_byte */
+  next_start_line?: number;
+  next_byte_offset?: number;
 }
 
+/**
+ * How content passed to the write tools is encoded
+ */
+export type ContentEncoding = "utf-8" | "base64";
+
 /**
  * Result of writing a file
  */
 export interface FileWriteResult {
   success: boolean;
   bytes_written: number;
+  /** Id of the backup of the previous version, for fs_undo */
+  backup_id?: string | null;
+}
+
+/**
+ * Filters for fs_find
+ */
+export interface FindOptions {
+  /** Glob matched against the name, or the relative path if it contains "/" */
+  pattern?: string;
+  type?: "file" | "dir" | "any";
+  max_depth?: number;
+  min_size?: number;
+  max_size?: number;
+  modified_after?: string;
+  modified_before?: string;
+  /** Gitignore-style patterns to skip */
+  exclude?: string[];
+  /** Also search files ignored by .gitignore */
+  include_ignored?: boolean;
+  max_results?: number;
+}
+
+/**
+ * A file or directory found by fs_find
+ */
+export interface FoundEntry {
+  path: string;
+  relative_path: string;
+  is_dir: boolean;
+  size: number | null;
+  modified: string;
+}
+
+/**
+ * Options for fs_grep
+ */
+export interface GrepOptions {
+  /** Regular expression (or literal text with fixed_strings) */
+  pattern: string;
+  case_insensitive?: boolean;
+  fixed_strings?: boolean;
+  /** Lines of context before and after each match */
+  context_lines?: number;
+  /** Globs a file name (or relative path, if the glob contains "/") must match */
+  include?: string[];
+  /** File types such as "ts", "py" or "md", or plain extensions */
+  file_types?: string[];
+  /** Gitignore-style patterns to skip */
+  exclude?: string[];
+  max_depth?: number;
+  /** Also search files ignored by .gitignore */
+  include_ignored?: boolean;
+  max_matches?: number;
+}
+
+/**
+ * A line matched by fs_grep. Line and column are 1-based.
+ */
+export interface GrepMatch {
+  path: string;
+  line: number;
+  column: number;
+  /** The matched text */
+  match: string;
+  /** The whole line, shortened if very long */
+  text: string;
+  before?: string[];
+  after?: string[];
+}
+
+/**
+ * Options for fs_tree
+ */
+export interface TreeOptions {
+  /** Levels to show; deeper contents are only counted */
+  max_depth?: number;
+  /** Entries shown per directory before the rest are collapsed into one line */
+  max_entries_per_dir?: number;
+  /** Gitignore-style patterns to leave out, on top of tree_ignore_globs */
+  exclude?: string[];
+  /** Also show entries ignored by .gitignore or tree_ignore_globs */
+  include_ignored?: boolean;
+  /** Show directories only (files are still counted) */
+  dirs_only?: boolean;
+}
+
+/**
+ * Directory overview returned by fs_tree
+ */
+export interface TreeResult {
+  root: string;
+  /** The rendered tree, one entry per line */
+  tree: string;
+  files: number;
+  directories: number;
+  total_size: number;
+  /** The walk or the rendering hit its limit; counts are lower bounds */
+  truncated: boolean;
+}
+
+/**
+ * A file or directory in the server's trash
+ */
+export interface TrashEntry {
+  /** Id to restore the entry with */
+  id: string;
+  original_path: string;
+  is_dir: boolean;
+  /** Number of files (1 for a file) */
+  files: number;
+  /** Total size of the files, in bytes */
+  size: number;
+  trashed_at: string;
+}
+
+/**
+ * An earlier version of a file, saved before the server changed it
+ */
+export interface BackupVersion {
+  /** Id to restore the version with */
+  id: string;
+  path: string;
+  saved_at: string;
+  /** Tool whose change replaced this version */
+  tool: string;
+  /** Size of the version in bytes, or null if the file did not exist */
+  size: number | null;
+  sha256: string | null;
+}
+
+/**
+ * Options for fs_watch
+ */
+export interface WatchOptions {
+  /** Also watch subdirectories (default: true) */
+  recursive?: boolean;
+  /** Gitignore-style patterns to leave out, on top of tree_ignore_globs */
+  exclude?: string[];
+  /** Also report changes to entries ignored by .gitignore or tree_ignore_globs */
+  include_ignored?: boolean;
+  /** Quiet period before changes are reported, in milliseconds */
+  debounce_ms?: number;
+  /** Send MCP resource update notifications when changes arrive */
+  notify?: boolean;
+}
+
+/**
+ * A coalesced change reported by a watch
+ */
+export interface WatchEvent {
+  type: "create" | "modify" | "delete";
+  path: string;
+  /** Path relative to the watched directory, with "/" separators */
+  relative_path: string;
+  is_dir: boolean;
+  time: string;
+}
+
+/**
+ * Summary of a file watch
+ */
+export interface WatchInfo {
+  watch_id: string;
+  path: string;
+  /** MCP resource that is updated when changes arrive */
+  resource_uri: string;
+  recursive: boolean;
+  notify: boolean;
+  active: boolean;
+  /** Why the watch stopped, if it failed */
+  error: string | null;
+  directories_watched: number;
+  pending_events: number;
+  started_at: string;
+}
+
+/**
+ * Changes taken from a watch by fs_watch_poll
+ */
+export interface WatchPollResult extends WatchInfo {
+  events: WatchEvent[];
+  /** Changes lost because too many were pending */
+  events_dropped: number;
+  has_more: boolean;
+}
+
+/**
+ * An exact search/replace edit
+ */
+export interface TextEdit {
+  old_text: string;
+  new_text: string;
+  /** Replace every occurrence instead of requiring exactly one */
+  replace_all?: boolean;
+}
+
+/**
+ * Changes to apply with fs_edit_file: search/replace edits or a unified diff
+ */
+export interface FileEditOptions {
+  edits?: TextEdit[];
+  patch?: string;
+  /** Refuse to edit unless the file's current SHA-256 matches */
+  expected_sha256?: string;
+  /** Compute the result and diff without writing */
+  dry_run?: boolean;
+}
+
+/**
+ * Result of editing a file
+ */
+export interface FileEditResult {
+  success: boolean;
+  path: string;
+  dry_run: boolean;
+  /** Number of edits or hunks applied */
+  changes_applied: number;
+  previous_sha256: string;
+  sha256: string;
+  bytes_written: number;
+  /** Unified diff of the change */
+  diff: string;
+  /** Id of the backup of the previous version, for fs_undo */
+  backup_id: string | null;
+}
+
+/**
+ * One line of a diff hunk. Line numbers refer to the old and new text.
+ */
+export interface DiffLine {
+  type: "context" | "add" | "delete";
+  text: string;
+  old_line?: number;
+  new_line?: number;
+  /** The line has no trailing newline (last line of the file) */
+  no_newline?: boolean;
+}
+
+/**
+ * A hunk of a unified diff
+ */
+export interface DiffHunk {
+  old_start: number;
+  old_lines: number;
+  new_start: number;
+  new_lines: number;
+  /** Text after the @@ range header, usually the enclosing function */
+  header?: string;
+  lines: DiffLine[];
+}
+
+/**
+ * The hunks of a unified diff for one file. Paths are null for /dev/null
+ * (created or deleted files) or when the diff has no file headers.
+ */
+export interface FilePatch {
+  old_path: string | null;
+  new_path: string | null;
+  hunks: DiffHunk[];
 }
 
 /**
@@ -64,6 +503,225 @@ export interface GitCommit {
   message: string;
 }
 
+/**
+ * Options for git_log
+ */
+export interface GitLogOptions {
+  /** Most commits to return (default: 10) */
+  max_commits?: number;
+  /** Revision or range to list, e.g. main or main..feature (default: HEAD) */
+  revision?: string;
+  /** Only commits touching these paths */
+  paths?: string[];
+  /** Only commits whose author name or email matches this regular expression */
+  author?: string;
+  /** Only commits after / before this date, e.g. 2024-05-01 or "2 weeks ago" */
+  since?: string;
+  until?: string;
+  /** Only commits whose message matches this regular expression */
+  grep?: string;
+  /** Whether merge commits are included, the only ones listed or left out (default: include) */
+  merges?: "include" | "only" | "exclude";
+  /** Include lines added and deleted per file (default: true) */
+  include_files?: boolean;
+}
+
+/**
+ * Lines changed in one file by a commit
+ */
+export interface GitCommitFileStat {
+  path: string;
+  /** Original path of a renamed file */
+  from?: string;
+  binary: boolean;
+  /** Lines added and deleted (null for binary files) */
+  additions: number | null;
+  deletions: number | null;
+}
+
+/**
+ * A commit listed by git_log
+ */
+export interface GitLogEntry extends GitCommit {
+  /** Full commit message */
+  message: string;
+  /** First line of the message */
+  subject: string;
+  author_email: string;
+  /** Parent hashes: none for a root commit, two or more for a merge */
+  parents: string[];
+  /** Branches pointing at the commit (and HEAD) */
+  refs: string[];
+  tags: string[];
+  /** Changed files, compared with the first parent for merges (with include_files) */
+  files?: GitCommitFileStat[];
+  additions?: number;
+  deletions?: number;
+}
+
+/**
+ * A staged or unstaged change to a file
+ */
+export interface GitFileChange {
+  path: string;
+  kind: "modified" | "added" | "deleted" | "renamed" | "copied" | "type_changed";
+  /** Original path of a renamed or copied file */
+  from?: string;
+  /** Similarity of a renamed or copied file to its original, in percent */
+  similarity?: number;
+  /** Set if the path is a submodule */
+  submodule?: boolean;
+}
+
+/**
+ * A file with merge conflicts
+ */
+export interface GitConflict {
+  path: string;
+  kind:
+    | "both_modified"
+    | "both_added"
+    | "both_deleted"
+    | "added_by_us"
+    | "added_by_them"
+    | "deleted_by_us"
+    | "deleted_by_them";
+}
+
+/**
+ * Parsed git status of a repository
+ */
+export interface GitStatus {
+  resolved_path: string;
+  /** Current branch, or null if HEAD is detached */
+  branch: string | null;
+  /** Commit HEAD points to, or null before the first commit */
+  head: string | null;
+  upstream: string | null;
+  /** Commits ahead of and behind the upstream (null without an upstream) */
+  ahead: number | null;
+  behind: number | null;
+  staged: GitFileChange[];
+  unstaged: GitFileChange[];
+  untracked: string[];
+  conflicted: GitConflict[];
+  stash_count: number;
+  /** Multi-step operation waiting to be continued or aborted */
+  operation: "merge" | "rebase" | "cherry-pick" | "revert" | null;
+  /** No staged, unstaged, untracked or conflicted files */
+  clean: boolean;
+}
+
+/**
+ * A local or remote-tracking branch
+ */
+export interface GitBranch {
+  name: string;
+  /** Remote-tracking branch, e.g. origin/main */
+  remote: boolean;
+  /** Checked out in this working tree */
+  current: boolean;
+  upstream: string | null;
+  /** Commits ahead of and behind the upstream (null without an upstream) */
+  ahead: number | null;
+  behind: number | null;
+  /** The upstream is configured but no longer exists on the remote */
+  upstream_gone: boolean;
+  /** Fully merged into the comparison target (HEAD by default) */
+  merged: boolean;
+  /** Commit the branch points to; message holds the subject line */
+  last_commit: GitCommit;
+}
+
+/**
+ * Options for git_commit
+ */
+export interface GitCommitOptions {
+  /** Commit message; may be left out when amending to keep the old one */
+  message?: string;
+  /** Stage all changes first (default: true); ignored when paths are given */
+  add_all?: boolean;
+  /** Commit only these paths, staging their current contents */
+  paths?: string[];
+  /** Replace the last commit instead of adding a new one */
+  amend?: boolean;
+  /** Add a Signed-off-by trailer */
+  signoff?: boolean;
+  /** Author as "Name <email>", instead of the configured user */
+  author?: string;
+}
+
+/**
+ * Hunks of one file to stage or unstage, by position in the file's git_diff
+ * output (with the default context)
+ */
+export interface GitHunkSelection {
+  path: string;
+  hunks: number[];
+}
+
+/**
+ * Options for git_diff
+ */
+export interface GitDiffOptions {
+  /** Compare the index instead of the working tree (default: false) */
+  staged?: boolean;
+  /** Revision to compare from (default: the index, or HEAD when staged) */
+  from?: string;
+  /** Revision to compare to (default: the working tree, or the index when staged) */
+  to?: string;
+  /** Limit the diff to these paths or pathspecs */
+  paths?: string[];
+  /** Lines of context around each change (default: 3) */
+  context_lines?: number;
+  /** Only list the changed files and their line counts (default: false) */
+  stat_only?: boolean;
+  /** Most hunk lines returned per file (default: 300) */
+  max_lines_per_file?: number;
+}
+
+/**
+ * One file in a git diff
+ */
+export interface GitDiffFile {
+  path: string;
+  kind: GitFileChange["kind"] | "unmerged";
+  /** Original path of a renamed or copied file */
+  from?: string;
+  /** Similarity of a renamed or copied file to its original, in percent */
+  similarity?: number;
+  /** File modes, set when the mode changed */
+  old_mode?: string;
+  new_mode?: string;
+  binary: boolean;
+  /** Lines added and deleted (null for binary files) */
+  additions: number | null;
+  deletions: number | null;
+  /** Hunks with line numbers; left out for stat_only, binary, unmerged and denied files */
+  hunks?: DiffHunk[];
+  /** Set if the path is on the deny list, so its contents are not shown */
+  denied?: boolean;
+  /** Set if hunk lines were left out to stay within the line limits */
+  truncated?: boolean;
+  omitted_lines?: number;
+}
+
+/**
+ * Result of git_diff
+ */
+export interface GitDiffResult {
+  resolved_path: string;
+  /** What was compared, e.g. "index" to "working tree" or "HEAD~2" to "HEAD" */
+  from: string;
+  to: string;
+  files: GitDiffFile[];
+  files_changed: number;
+  additions: number;
+  deletions: number;
+  /** Some files' hunks were cut short */
+  truncated: boolean;
+}
+
 /**
  * Detected technology stack information
  */
@@ -93,11 +751,163 @@ export interface RepoInfo {
   name: string;
 }
 
+/**
+ * Subset of JSON Schema used to describe tool arguments
+ */
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  /** Regex the whole string must match */
+  pattern?: string;
+  format?: "date-time" | "date" | "uri";
+  minItems?: number;
+  maxItems?: number;
+  /** Schema for object properties not listed in `properties`; without it they are rejected */
+  additionalProperties?: JsonSchema;
+}
+
+/**
+ * Effective server configuration (see config.ts for what each setting does)
+ */
+export interface ServerSettings {
+  allowed_roots: string[];
+  read_only_roots: string[];
+  symlink_roots: string[];
+  deny_globs: string[];
+  command_timeout_seconds: number;
+  max_output_chars: number;
+  session_buffer_chars: number;
+  max_sessions: number;
+  max_file_bytes: number;
+  tree_ignore_globs: string[];
+  data_dir: string;
+  trash_retention_days: number;
+  backup_writes: boolean;
+  backup_max_versions: number;
+  audit_max_bytes: number;
+  audit_max_files: number;
+  redact_secrets: boolean;
+  confirm_tools: Record<string, number>;
+  policy_file: string;
+  profile: string;
+  enable_tools: string[];
+  disable_tools: string[];
+}
+
+/**
+ * Definition of one configuration setting
+ */
+export interface SettingDefinition<T> {
+  description: string;
+  schema: JsonSchema;
+  /** Default value, or a function deriving it from the other effective settings */
+  default: T | ((values: Record<string, unknown>) => T);
+  /** Environment variable that overrides every file */
+  env?: string;
+  /** Converts the environment variable's text to a value (default: by schema type) */
+  parseEnv?: (raw: string) => unknown;
+  /** Expand ~ and resolve relative paths (relative to the file that sets them) */
+  path?: boolean;
+  /** Security-sensitive settings cannot be set by a project file */
+  userOnly?: boolean;
+}
+
+/**
+ * Effective value of a setting and the layer it came from
+ */
+export interface SettingReport {
+  value: unknown;
+  /** "default", "user config (path)", "project config (path)" or "env VAR" */
+  source: string;
+}
+
+/**
+ * Result of loading the layered configuration
+ */
+export interface LoadedSettings<T> {
+  values: T;
+  settings: Record<string, SettingReport>;
+  user_file: string | null;
+  project_file: string | null;
+  /** Problems found while loading; invalid values fall back to the layer below */
+  errors: string[];
+}
+
+/**
+ * Groups of related tools that profiles enable or disable together
+ */
+export type ToolGroup =
+  | "terminal"
+  | "fs"
+  | "git"
+  | "project"
+  | "notes"
+  | "audit"
+  | "server"
+  | "macos_notes"
+  | "macos_reminders"
+  | "macos_clipboard"
+  | "macos_system"
+  | "macos_network"
+  | "macos_calendar"
+  | "browser";
+
+/**
+ * A named selection of tool groups
+ */
+export interface ToolProfile {
+  description: string;
+  groups: ToolGroup[];
+  /** Only enable tools marked readOnly */
+  read_only?: boolean;
+}
+
+/**
+ * A tool exposed over MCP.
+ * 
+ * Each module in src/tools/ exports its definitions and index.ts registers
+ * them. Arguments are validated against `inputSchema` before `handler` runs,
+ * so handlers can rely on the declared types.
+ * 
+ * `handler` and `preview` are method signatures so that one tools array
+ * (`ToolDefinition[]`) can hold tools with different argument types; each
+ * handler annotates its own arguments, and an unannotated one gets `unknown`.
+ */
+export interface ToolDefinition<A = unknown> {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  /** True if the tool only reads state; read-only profiles enable only these */
+  readOnly?: boolean;
+  handler(args: A): Promise<unknown>;
+  /** For destructive tools: describes what the call would do, or null if it is harmless */
+  preview?(args: A): Promise<unknown | null>;
+}
+
+/**
+ * A single argument that failed validation
+ */
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
 /**
  * Generic error response structure
  */
 export interface ErrorResponse {
   error: string;
   details?: string;
+  /** Argument that caused the error, when the error is about one argument */
+  field?: string;
+  validation_errors?: ValidationIssue[];
 }
 
@@ -0,0 +1,258 @@
+/**
+ * Tool argument validation.
+ * 
+ * Checks arguments against a tool's input schema before the tool runs, so
+ * that a wrong type, an out-of-range number or a missing argument is
+ * reported up front, naming the argument, instead of failing somewhere
+ * inside the handler.
+ */
+
+import type { JsonSchema, ValidationIssue, ErrorResponse } from "./types.js";
+
+/**
+ * ISO 8601 date, optionally with a time and offset (e.g. "2024-12-25",
+ * "2024-12-25T10:00", "2024-12-25T10:00:00.000Z", "2024-12-25T10:00+01:00")
+ */
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * ISO 8601 calendar date (e.g. "2024-12-25")
+ */
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Describes the JSON type of a value for error messages.
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Checks a value against the schema's declared type.
+ */
+function hasType(value: unknown, type: NonNullable<JsonSchema["type"]>): boolean {
+  switch (type) {
+    case "object":
+      return typeOf(value) === "object";
+    case "array":
+      return Array.isArray(value);
+    case "string":
+      return typeof value === "string";
+    case "boolean":
+      return typeof value === "boolean";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+  }
+}
+
+/**
+ * Checks a string against a named format.
+ */
+function hasFormat(value: string, format: NonNullable<JsonSchema["format"]>): boolean {
+  switch (format) {
+    case "date-time":
+      return ISO_DATE_TIME.test(value) && !Number.isNaN(Date.parse(value));
+    case "date":
+      return ISO_DATE.test(value) && !Number.isNaN(Date.parse(value));
+    case "uri":
+      try {
+        new URL(value);
+        return true;
+      } catch {
+        return false;
+      }
+  }
+}
+
+/**
+ * Human-readable description of a format, for error messages
+ */
+const FORMAT_NAMES: Record<NonNullable<JsonSchema["format"]>, string> = {
+  "date-time": "an ISO 8601 date or date-time (e.g. 2024-12-25T10:00:00Z)",
+  date: "an ISO 8601 date (e.g. 2024-12-25)",
+  uri: "an absolute URL",
+};
+
+/**
+ * Checks string constraints: length, pattern and format.
+ */
+function validateString(
+  schema: JsonSchema,
+  value: string,
+  field: string,
+  issues: ValidationIssue[]
+): void {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    issues.push({
+      field,
+      message: schema.minLength === 1
+        ? "must not be empty"
+        : `must be at least ${schema.minLength} characters`,
+    });
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    issues.push({
+      field,
+      message: `must be at most ${schema.maxLength} characters (got ${value.length})`,
+    });
+  }
+  if (schema.pattern !== undefined && !new RegExp(`^(?:${schema.pattern})$`).test(value)) {
+    issues.push({ field, message: `must match ${schema.pattern}` });
+  }
+  if (schema.format !== undefined && !hasFormat(value, schema.format)) {
+    issues.push({ field, message: `must be ${FORMAT_NAMES[schema.format]}` });
+  }
+}
+
+/**
+ * Checks numeric range constraints.
+ */
+function validateNumber(
+  schema: JsonSchema,
+  value: number,
+  field: string,
+  issues: ValidationIssue[]
+): void {
+  const { minimum, maximum } = schema;
+  const outOfRange =
+    (minimum !== undefined && value < minimum) ||
+    (maximum !== undefined && value > maximum);
+  if (!outOfRange) return;
+  
+  let message: string;
+  if (minimum !== undefined && maximum !== undefined) {
+    message = `must be between ${minimum} and ${maximum} (got ${value})`;
+  } else if (minimum !== undefined) {
+    message = `must be at least ${minimum} (got ${value})`;
+  } else {
+    message = `must be at most ${maximum} (got ${value})`;
+  }
+  issues.push({ field, message });
+}
+
+/**
+ * Validates a value, appending any problems to `issues`.
+ * 
+ * @param schema - Schema the value must satisfy
+ * @param value - The value to check
+ * @param field - Name of the value in error messages
+ * @param issues - Problems found so far; new ones are appended
+ */
+export function validateValue(
+  schema: JsonSchema,
+  value: unknown,
+  field: string,
+  issues: ValidationIssue[]
+): void {
+  if (schema.type && !hasType(value, schema.type)) {
+    const message = schema.type === "integer" && typeof value === "number"
+      ? `must be an integer (got ${value})`
+      : `must be ${schema.type === "integer" ? "an integer" : `a ${schema.type}`}, got ${typeOf(value)}`;
+    issues.push({ field, message });
+    return;
+  }
+  
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    issues.push({
+      field,
+      message: `must be one of: ${schema.enum.join(", ")}`,
+    });
+  }
+  
+  if (typeof value === "string") {
+    validateString(schema, value, field, issues);
+  } else if (typeof value === "number") {
+    validateNumber(schema, value, field, issues);
+  }
+  
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ field, message: `must have at least ${schema.minItems} item(s)` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ field, message: `must have at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) =>
+        validateValue(schema.items!, item, `${field}[${index}]`, issues)
+      );
+    }
+  }
+  
+  if (schema.type === "object") {
+    validateObject(schema, value as Record<string, unknown>, field, issues);
+  }
+}
+
+/**
+ * Validates the properties of an object: required properties are present,
+ * declared properties have the right shape, and nothing undeclared is passed.
+ */
+function validateObject(
+  schema: JsonSchema,
+  value: Record<string, unknown>,
+  prefix: string,
+  issues: ValidationIssue[]
+): void {
+  const properties = schema.properties || {};
+  const fieldName = (key: string) => (prefix ? `${prefix}.${key}` : key);
+  
+  for (const key of schema.required || []) {
+    if (value[key] === undefined) {
+      issues.push({ field: fieldName(key), message: "is required" });
+    }
+  }
+  
+  for (const [key, item] of Object.entries(value)) {
+    if (item === undefined) continue;
+    
+    const propertySchema = properties[key] ?? schema.additionalProperties;
+    if (!propertySchema) {
+      issues.push({ field: fieldName(key), message: "is not a known argument" });
+      continue;
+    }
+    validateValue(propertySchema, item, fieldName(key), issues);
+  }
+}
+
+/**
+ * Validates tool arguments against the tool's input schema.
+ * 
+ * @param schema - The tool's input schema (an object schema)
+ * @param args - Arguments received from the client
+ * @returns Validation problems, empty if the arguments are valid
+ */
+export function validateArgs(
+  schema: JsonSchema,
+  args: Record<string, unknown>
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  validateObject(schema, args, "", issues);
+  return issues;
+}
+
+/**
+ * Builds the error response for arguments that failed validation.
+ * 
+ * `field` names the first offending argument; every problem is listed in
+ * `validation_errors`.
+ * 
+ * @param tool - Tool name
+ * @param issues - Problems returned by validateArgs (at least one)
+ * @returns The error response to send to the client
+ */
+export function validationErrorResponse(
+  tool: string,
+  issues: ValidationIssue[]
+): ErrorResponse {
+  const summary = issues.map((issue) => `${issue.field} ${issue.message}`).join("; ");
+  return {
+    error: `Invalid arguments for ${tool}: ${summary}`,
+    field: issues[0].field,
+    validation_errors: issues,
+  };
+}
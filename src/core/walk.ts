@@ -0,0 +1,289 @@
+/**
+ * Recursive directory walking with ignore rules.
+ * 
+ * Walks honour .gitignore files the way git does: rules from the repository
+ * root down to each directory apply, later and deeper rules win, and `!`
+ * re-includes. Extra exclude patterns use the same syntax. The .git
+ * directory and paths on the deny list are always skipped, and symlinked
+ * directories are never followed.
+ */
+
+import * as fs from "fs/promises";
+import * as fsSync from "fs";
+import * as path from "path";
+import type { Stats } from "fs";
+import { globToRegExp } from "./glob.js";
+import { findDeniedPattern, resolveSafePath } from "./paths.js";
+
+/**
+ * One compiled ignore pattern
+ */
+interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  /** Pattern ended with "/": matches directories only */
+  dirOnly: boolean;
+  /** Directory the pattern is relative to */
+  base: string;
+}
+
+/**
+ * Options for walkDirectory
+ */
+export interface WalkOptions {
+  /** Deepest level to descend to; entries directly inside the root are depth 1 */
+  maxDepth?: number;
+  /** Extra gitignore-style patterns, relative to the root */
+  exclude?: string[];
+  /** Honour .gitignore files (default: true) */
+  gitignore?: boolean;
+  /** Custom test used instead of exclude and gitignore, e.g. from createIgnoreMatcher */
+  ignore?: (fullPath: string, isDir: boolean) => boolean;
+}
+
+/**
+ * A file or directory found by walkDirectory
+ */
+export interface WalkEntry {
+  path: string;
+  /** Path relative to the walk root, with "/" separators */
+  relative_path: string;
+  name: string;
+  depth: number;
+  is_dir: boolean;
+  /** Stats of the entry (of the target, for symlinks) */
+  stats: Stats;
+}
+
+/**
+ * Compiles gitignore-style patterns.
+ * 
+ * @param lines - Lines of a .gitignore file, or exclude patterns
+ * @param base - Directory the patterns are relative to
+ */
+export function parseIgnorePatterns(lines: string[], base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  
+  for (const raw of lines) {
+    let line = raw.replace(/\r$/, "");
+    if (line.trim() === "" || line.startsWith("#")) continue;
+    
+    // Trailing spaces are ignored unless escaped
+    line = line.replace(/(?<!\\)\s+$/, "");
+    
+    let negate = false;
+    if (line.startsWith("!")) {
+      negate = true;
+      line = line.slice(1);
+    } else if (line.startsWith("\\!") || line.startsWith("\\#")) {
+      line = line.slice(1);
+    }
+    
+    let dirOnly = false;
+    if (line.endsWith("/")) {
+      dirOnly = true;
+      line = line.slice(0, -1);
+    }
+    if (line === "") continue;
+    
+    // A slash anywhere but the end anchors the pattern to its directory;
+    // otherwise it matches a name at any depth
+    const anchored = line.includes("/");
+    if (line.startsWith("/")) line = line.slice(1);
+    
+    rules.push({
+      regex: globToRegExp(anchored ? line : `**/${line}`),
+      negate,
+      dirOnly,
+      base,
+    });
+  }
+  
+  return rules;
+}
+
+/**
+ * Reads the .gitignore file in a directory, if there is one.
+ */
+function readGitignore(dir: string): IgnoreRule[] {
+  try {
+    const text = fsSync.readFileSync(path.join(dir, ".gitignore"), "utf-8");
+    return parseIgnorePatterns(text.split("\n"), dir);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Collects the .gitignore rules that apply above a directory: those from the
+ * enclosing repository's root down to the directory's parent.
+ */
+function ancestorGitignores(dir: string): IgnoreRule[] {
+  const ancestors: string[] = [];
+  let current = path.dirname(dir);
+  
+  while (current !== dir) {
+    ancestors.unshift(current);
+    if (fsSync.existsSync(path.join(current, ".git"))) {
+      return ancestors.flatMap(readGitignore);
+    }
+    dir = current;
+    current = path.dirname(current);
+  }
+  
+  // Not inside a repository: only .gitignore files within the walk apply
+  return [];
+}
+
+/**
+ * Checks a path against ignore rules; the last matching rule wins.
+ * 
+ * @param rules - Rules in order of precedence, lowest first
+ * @param fullPath - Absolute path to test
+ * @param isDir - Whether the path is a directory
+ */
+export function isIgnored(rules: IgnoreRule[], fullPath: string, isDir: boolean): boolean {
+  let ignored = false;
+  
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue;
+    
+    const relative = path.relative(rule.base, fullPath).split(path.sep).join("/");
+    if (relative === "" || relative.startsWith("..")) continue;
+    
+    if (rule.regex.test(relative)) {
+      ignored = !rule.negate;
+    }
+  }
+  
+  return ignored;
+}
+
+/**
+ * Creates a test for whether a path under a root would be skipped by
+ * walkDirectory with the same options: because it, or a directory above it,
+ * is .git, denied, excluded or ignored by a .gitignore file. Rules are read
+ * once per directory; call forget() after a .gitignore file changes.
+ * 
+ * @param root - Directory the walk starts at (already validated)
+ * @param options - Exclude patterns and whether to honour .gitignore
+ */
+export function createIgnoreMatcher(
+  root: string,
+  options: Pick<WalkOptions, "exclude" | "gitignore"> = {}
+): { isIgnored: (fullPath: string, isDir: boolean) => boolean; forget: () => void } {
+  const { exclude = [], gitignore = true } = options;
+  const excludeRules = parseIgnorePatterns(exclude, root);
+  const cache = new Map<string, IgnoreRule[]>();
+  
+  // Rules that apply to the entries of a directory
+  const rulesFor = (dir: string): IgnoreRule[] => {
+    let rules = cache.get(dir);
+    if (!rules) {
+      const inherited = dir === root ? ancestorGitignores(root) : rulesFor(path.dirname(dir));
+      rules = [...inherited, ...readGitignore(dir)];
+      cache.set(dir, rules);
+    }
+    return rules;
+  };
+  
+  const skipped = (fullPath: string, isDir: boolean): boolean =>
+    path.basename(fullPath) === ".git" ||
+    findDeniedPattern(fullPath) !== undefined ||
+    isIgnored(excludeRules, fullPath, isDir) ||
+    (gitignore && isIgnored(rulesFor(path.dirname(fullPath)), fullPath, isDir));
+  
+  return {
+    isIgnored: (fullPath, isDir) => {
+      const relative = path.relative(root, fullPath);
+      if (relative === "" || relative.startsWith("..") || path.isAbsolute(relative)) return false;
+      
+      // Directories above the path first: nothing inside a skipped one is walked
+      let current = root;
+      const segments = relative.split(path.sep);
+      for (const segment of segments.slice(0, -1)) {
+        current = path.join(current, segment);
+        if (skipped(current, true)) return true;
+      }
+      return skipped(fullPath, isDir);
+    },
+    forget: () => cache.clear(),
+  };
+}
+
+/**
+ * Walks a directory tree depth-first, in name order.
+ * 
+ * Directories are yielded before their contents. Entries that are ignored,
+ * denied or unreadable are skipped, as are symlinks leading outside the
+ * allowed roots.
+ * 
+ * @param root - Directory to walk (already validated with resolveSafePath)
+ * @param options - Depth limit, exclude patterns and whether to honour .gitignore
+ */
+export async function* walkDirectory(
+  root: string,
+  options: WalkOptions = {}
+): AsyncGenerator<WalkEntry> {
+  const { maxDepth = Infinity, exclude = [], gitignore = true, ignore } = options;
+  const excludeRules = parseIgnorePatterns(exclude, root);
+  
+  async function* visit(
+    dir: string,
+    depth: number,
+    inherited: IgnoreRule[]
+  ): AsyncGenerator<WalkEntry> {
+    const gitRules = gitignore && !ignore ? [...inherited, ...readGitignore(dir)] : [];
+    
+    let entries: fsSync.Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return; // Unreadable directory
+    }
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    
+    for (const entry of entries) {
+      if (entry.name === ".git") continue;
+      
+      const fullPath = path.join(dir, entry.name);
+      if (findDeniedPattern(fullPath)) continue;
+      
+      let stats: Stats;
+      try {
+        stats = await fs.stat(fullPath);
+      } catch {
+        continue; // Dangling symlink or vanished entry
+      }
+      
+      const isDir = stats.isDirectory();
+      const skipped = ignore
+        ? ignore(fullPath, isDir)
+        : isIgnored(excludeRules, fullPath, isDir) || isIgnored(gitRules, fullPath, isDir);
+      if (skipped) continue;
+      
+      if (entry.isSymbolicLink()) {
+        try {
+          resolveSafePath(fullPath);
+        } catch {
+          continue;
+        }
+      }
+      
+      yield {
+        path: fullPath,
+        relative_path: path.relative(root, fullPath).split(path.sep).join("/"),
+        name: entry.name,
+        depth,
+        is_dir: isDir,
+        stats,
+      };
+      
+      if (isDir && !entry.isSymbolicLink() && depth < maxDepth) {
+        yield* visit(fullPath, depth + 1, gitRules);
+      }
+    }
+  }
+  
+  yield* visit(root, 1, gitignore && !ignore ? ancestorGitignores(root) : []);
+}
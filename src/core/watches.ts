@@ -0,0 +1,501 @@
+/**
+ * File watches.
+ * 
+ * A watch follows changes under a directory (or to a single file) with one
+ * non-recursive fs.watch per directory, skipping .git, denied paths and
+ * ignored directories such as node_modules. Raw events are debounced and
+ * coalesced into create/modify/delete changes per path, which clients poll
+ * by watch id. A watch can also announce new changes as an MCP resource
+ * update. All watches live in memory and end with the server.
+ */
+
+import * as fs from "fs";
+import * as fsp from "fs/promises";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { walkDirectory, createIgnoreMatcher } from "./walk.js";
+import { resolveSafePath } from "./paths.js";
+import type {
+  WatchOptions,
+  WatchEvent,
+  WatchInfo,
+  WatchPollResult,
+} from "./types.js";
+import { TREE_IGNORE_GLOBS } from "../config.js";
+
+/**
+ * Watches that may exist at once
+ */
+const MAX_WATCHES = 20;
+
+/**
+ * Directories one watch may follow
+ */
+const MAX_WATCHED_DIRECTORIES = 2000;
+
+/**
+ * Paths with unpolled changes kept per watch; further changes are dropped
+ */
+const MAX_PENDING_EVENTS = 10_000;
+
+/**
+ * Entries recorded when a watch starts, to tell creations from modifications
+ */
+const MAX_KNOWN_PATHS = 100_000;
+
+/**
+ * Longest a steady stream of events can postpone reporting, in multiples
+ * of the debounce interval
+ */
+const MAX_DEBOUNCE_FACTOR = 10;
+
+/**
+ * URI scheme of the MCP resources that represent watches
+ */
+const RESOURCE_SCHEME = "watch://";
+
+/**
+ * In-memory state of a single watch
+ */
+interface Watch {
+  id: string;
+  /** The watched path */
+  path: string;
+  /** Directory events are reported relative to */
+  base: string;
+  /** Set when a single file is watched */
+  file: string | null;
+  recursive: boolean;
+  notify: boolean;
+  debounceMs: number;
+  isIgnored: (fullPath: string, isDir: boolean) => boolean;
+  forgetIgnoreRules: () => void;
+  watchers: Map<string, fs.FSWatcher>;
+  /** Entries known to exist, and whether they are directories */
+  known: Map<string, boolean>;
+  /** False if the starting snapshot was cut short */
+  knownComplete: boolean;
+  /** Paths with raw events since the last flush, and whether any was a rename */
+  raw: Map<string, boolean>;
+  firstRawAt: number;
+  timer: NodeJS.Timeout | null;
+  flushing: Promise<void>;
+  pending: Map<string, WatchEvent>;
+  dropped: number;
+  error: string | null;
+  startedAt: string;
+}
+
+const watches = new Map<string, Watch>();
+
+/**
+ * Called with a watch's resource URI when it has new changes
+ */
+let notifier: ((uri: string) => void) | null = null;
+
+/**
+ * Sets the function that sends MCP resource update notifications.
+ */
+export function setWatchNotifier(notify: (uri: string) => void): void {
+  notifier = notify;
+}
+
+/**
+ * Looks up a watch by id.
+ * 
+ * @throws Error if the watch does not exist
+ */
+function getWatch(watchId: string): Watch {
+  const watch = watches.get(watchId);
+  if (!watch) {
+    throw new Error(`Unknown watch: ${watchId}`);
+  }
+  return watch;
+}
+
+/**
+ * Builds the public summary of a watch.
+ */
+function toInfo(watch: Watch): WatchInfo {
+  return {
+    watch_id: watch.id,
+    path: watch.path,
+    resource_uri: `${RESOURCE_SCHEME}${watch.id}`,
+    recursive: watch.recursive,
+    notify: watch.notify,
+    active: watch.error === null,
+    error: watch.error,
+    directories_watched: watch.watchers.size,
+    pending_events: watch.pending.size,
+    started_at: watch.startedAt,
+  };
+}
+
+/**
+ * Combines two changes to the same path, or returns null if they cancel out
+ * (a file created and deleted again before anyone looked).
+ */
+function coalesce(
+  earlier: WatchEvent["type"],
+  later: WatchEvent["type"]
+): WatchEvent["type"] | null {
+  if (earlier === "create") return later === "delete" ? null : "create";
+  return later === "delete" ? "delete" : "modify";
+}
+
+/**
+ * Adds a change to the pending events, merging it with an unpolled change
+ * to the same path.
+ */
+function record(watch: Watch, event: WatchEvent): void {
+  const previous = watch.pending.get(event.path);
+  
+  if (previous) {
+    watch.pending.delete(event.path);
+    const type = coalesce(previous.type, event.type);
+    if (type !== null) watch.pending.set(event.path, { ...event, type });
+  } else if (watch.pending.size >= MAX_PENDING_EVENTS) {
+    watch.dropped++;
+  } else {
+    watch.pending.set(event.path, event);
+  }
+}
+
+/**
+ * Stops following a directory and everything below it.
+ */
+function unwatchTree(watch: Watch, dir: string): void {
+  for (const [watched, watcher] of watch.watchers) {
+    if (watched === dir || watched.startsWith(dir + path.sep)) {
+      watcher.close();
+      watch.watchers.delete(watched);
+    }
+  }
+  for (const known of watch.known.keys()) {
+    if (known.startsWith(dir + path.sep)) watch.known.delete(known);
+  }
+}
+
+/**
+ * Ends a watch after an error, keeping its pending events for a last poll.
+ */
+function fail(watch: Watch, message: string): void {
+  watch.error = message;
+  for (const watcher of watch.watchers.values()) watcher.close();
+  watch.watchers.clear();
+  if (watch.timer) clearTimeout(watch.timer);
+  watch.timer = null;
+}
+
+/**
+ * Notes a raw event and (re)starts the debounce timer. A steady stream of
+ * events is still reported every MAX_DEBOUNCE_FACTOR intervals.
+ */
+function onRawEvent(watch: Watch, fullPath: string, isRename: boolean): void {
+  if (watch.file && fullPath !== watch.file) return;
+  
+  const now = Date.now();
+  if (watch.raw.size === 0) watch.firstRawAt = now;
+  watch.raw.set(fullPath, isRename || (watch.raw.get(fullPath) ?? false));
+  
+  if (watch.timer) clearTimeout(watch.timer);
+  const delay = Math.min(
+    watch.debounceMs,
+    Math.max(0, watch.firstRawAt + watch.debounceMs * MAX_DEBOUNCE_FACTOR - now)
+  );
+  watch.timer = setTimeout(() => {
+    watch.timer = null;
+    watch.flushing = watch.flushing
+      .then(() => flush(watch))
+      .catch((err) => fail(watch, err.message));
+  }, delay);
+}
+
+/**
+ * Starts following one directory (not its subdirectories).
+ */
+function watchDirectory(watch: Watch, dir: string): void {
+  if (watch.watchers.has(dir) || watch.error !== null) return;
+  if (watch.watchers.size >= MAX_WATCHED_DIRECTORIES) {
+    fail(
+      watch,
+      `More than ${MAX_WATCHED_DIRECTORIES} directories to watch; watch a smaller directory or add exclude patterns`
+    );
+    return;
+  }
+  
+  const watcher = fs.watch(dir, { persistent: false }, (kind, filename) => {
+    if (filename) onRawEvent(watch, path.join(dir, filename.toString()), kind === "rename");
+  });
+  watcher.on("error", (err) => {
+    if (dir === watch.base) {
+      fail(watch, `Watched directory is no longer available: ${err.message}`);
+    } else {
+      unwatchTree(watch, dir);
+    }
+  });
+  watch.watchers.set(dir, watcher);
+}
+
+/**
+ * Follows a directory and, for recursive watches, every directory below it
+ * that is not ignored. Entries found are recorded as known.
+ * 
+ * @param onEntry - Called for each entry below the directory
+ */
+async function watchTree(
+  watch: Watch,
+  dir: string,
+  onEntry?: (fullPath: string, isDir: boolean) => void
+): Promise<void> {
+  watchDirectory(watch, dir);
+  if (!watch.recursive && dir !== watch.base) return;
+  
+  const walk = walkDirectory(dir, {
+    maxDepth: watch.recursive ? Infinity : 1,
+    ignore: watch.isIgnored,
+  });
+  for await (const entry of walk) {
+    if (watch.known.size < MAX_KNOWN_PATHS) {
+      watch.known.set(entry.path, entry.is_dir);
+    } else {
+      watch.knownComplete = false;
+    }
+    onEntry?.(entry.path, entry.is_dir);
+    
+    if (entry.is_dir && watch.recursive && !entry.stats.isSymbolicLink()) {
+      watchDirectory(watch, entry.path);
+    }
+    if (watch.error !== null) return;
+  }
+}
+
+/**
+ * Turns the raw events since the last flush into changes.
+ * 
+ * Each path is checked once: it exists and was known (modify), exists and
+ * was not (create), or is gone (delete). Entries created and removed within
+ * the debounce interval are not reported. Paths are handled parents first,
+ * so deleting a directory reports only the directory.
+ */
+async function flush(watch: Watch): Promise<void> {
+  const raw = [...watch.raw].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  watch.raw = new Map();
+  const before = watch.pending.size + watch.dropped;
+  const event = (type: WatchEvent["type"], fullPath: string, isDir: boolean): WatchEvent => ({
+    type,
+    path: fullPath,
+    relative_path: path.relative(watch.base, fullPath).split(path.sep).join("/"),
+    is_dir: isDir,
+    time: new Date().toISOString(),
+  });
+  
+  for (const [fullPath, isRename] of raw) {
+    if (path.basename(fullPath) === ".gitignore") watch.forgetIgnoreRules();
+    
+    let stats: fs.Stats | null = null;
+    try {
+      stats = await fsp.lstat(fullPath);
+    } catch {
+      // Deleted
+    }
+    const wasKnown = watch.known.has(fullPath);
+    
+    if (stats === null) {
+      if (!wasKnown && (watch.knownComplete || !isRename)) continue;
+      
+      const isDir = watch.known.get(fullPath) ?? false;
+      watch.known.delete(fullPath);
+      if (isDir) unwatchTree(watch, fullPath);
+      if (!watch.isIgnored(fullPath, isDir)) record(watch, event("delete", fullPath, isDir));
+      continue;
+    }
+    
+    const isDir = stats.isDirectory();
+    if (watch.isIgnored(fullPath, isDir)) continue;
+    if (stats.isSymbolicLink()) {
+      try {
+        resolveSafePath(fullPath);
+      } catch {
+        continue; // Leads outside the allowed roots
+      }
+    }
+    
+    const created = !wasKnown && (watch.knownComplete || isRename);
+    if (watch.known.size < MAX_KNOWN_PATHS || wasKnown) {
+      watch.known.set(fullPath, isDir);
+    }
+    
+    if (created) {
+      record(watch, event("create", fullPath, isDir));
+      // A directory may arrive with contents (moved in, or filled before
+      // its watcher started)
+      if (isDir && watch.recursive && !stats.isSymbolicLink()) {
+        await watchTree(watch, fullPath, (child, childIsDir) =>
+          record(watch, event("create", child, childIsDir))
+        );
+      }
+    } else if (!isDir) {
+      // A directory's own modifications are just its entries changing
+      record(watch, event("modify", fullPath, isDir));
+    }
+  }
+  
+  if (watch.notify && notifier && watch.pending.size + watch.dropped !== before) {
+    notifier(`${RESOURCE_SCHEME}${watch.id}`);
+  }
+}
+
+/**
+ * Starts watching a file or directory for changes.
+ * 
+ * Changes are reported once the path has been quiet for debounce_ms.
+ * Entries ignored by .gitignore or TREE_IGNORE_GLOBS are not reported
+ * unless include_ignored is set, and ignored directories are not watched.
+ * 
+ * @param target - Absolute path of the file or directory (already validated)
+ * @param options - Recursion, exclude patterns, debounce interval and notifications
+ * @returns Summary of the new watch
+ * @throws Error if MAX_WATCHES watches exist or the path does not exist
+ */
+export async function startWatch(target: string, options: WatchOptions = {}): Promise<WatchInfo> {
+  const {
+    recursive = true,
+    exclude = [],
+    include_ignored: includeIgnored = false,
+    debounce_ms: debounceMs = 200,
+    notify = false,
+  } = options;
+  
+  if (watches.size >= MAX_WATCHES) {
+    throw new Error(`Too many watches (${MAX_WATCHES}). Stop one before starting another.`);
+  }
+  
+  const stats = await fsp.stat(target).catch(() => {
+    throw new Error(`Path does not exist: ${target}`);
+  });
+  const isDir = stats.isDirectory();
+  const base = isDir ? target : path.dirname(target);
+  const matcher = createIgnoreMatcher(base, {
+    exclude: includeIgnored ? exclude : [...TREE_IGNORE_GLOBS, ...exclude],
+    gitignore: !includeIgnored,
+  });
+  
+  const watch: Watch = {
+    id: randomUUID(),
+    path: target,
+    base,
+    file: isDir ? null : target,
+    recursive: isDir && recursive,
+    notify,
+    debounceMs,
+    isIgnored: matcher.isIgnored,
+    forgetIgnoreRules: matcher.forget,
+    watchers: new Map(),
+    known: new Map(),
+    knownComplete: true,
+    raw: new Map(),
+    firstRawAt: 0,
+    timer: null,
+    flushing: Promise.resolve(),
+    pending: new Map(),
+    dropped: 0,
+    error: null,
+    startedAt: new Date().toISOString(),
+  };
+  
+  if (isDir) {
+    await watchTree(watch, base);
+  } else {
+    watch.known.set(target, false);
+    watchDirectory(watch, base);
+  }
+  
+  if (watch.error !== null) {
+    const message = watch.error;
+    fail(watch, message);
+    throw new Error(message);
+  }
+  
+  watches.set(watch.id, watch);
+  return toInfo(watch);
+}
+
+/**
+ * Takes the changes that arrived since the last poll, oldest first.
+ * 
+ * @param watchId - Watch to poll
+ * @param maxEvents - Most changes to return; the rest stay pending (default: 500)
+ * @returns The changes, how many were dropped since the last poll, and the watch's state
+ */
+export function pollWatch(watchId: string, maxEvents: number = 500): WatchPollResult {
+  const watch = getWatch(watchId);
+  
+  const events: WatchEvent[] = [];
+  for (const [key, event] of watch.pending) {
+    if (events.length >= maxEvents) break;
+    events.push(event);
+    watch.pending.delete(key);
+  }
+  const dropped = watch.dropped;
+  watch.dropped = 0;
+  
+  return {
+    ...toInfo(watch),
+    events,
+    events_dropped: dropped,
+    has_more: watch.pending.size > 0,
+  };
+}
+
+/**
+ * Returns a watch's pending changes without taking them, for reading the
+ * watch as an MCP resource.
+ * 
+ * @param uri - Resource URI of the watch
+ * @throws Error if the URI does not name a watch
+ */
+export function peekWatchResource(uri: string): WatchInfo & { events: WatchEvent[] } {
+  const watch = getWatch(uri.startsWith(RESOURCE_SCHEME) ? uri.slice(RESOURCE_SCHEME.length) : uri);
+  return { ...toInfo(watch), events: [...watch.pending.values()] };
+}
+
+/**
+ * Turns resource update notifications for a watch on or off, for MCP
+ * resource subscriptions.
+ * 
+ * @param uri - Resource URI of the watch
+ * @param notify - Whether to send notifications
+ */
+export function setWatchNotify(uri: string, notify: boolean): void {
+  if (!uri.startsWith(RESOURCE_SCHEME)) return;
+  
+  const watch = watches.get(uri.slice(RESOURCE_SCHEME.length));
+  if (watch) watch.notify = notify;
+}
+
+/**
+ * Stops a watch and discards its pending changes.
+ * 
+ * @param watchId - Watch to stop
+ * @returns Final summary of the watch, with the number of unpolled changes discarded
+ */
+export function stopWatch(watchId: string): WatchInfo {
+  const watch = getWatch(watchId);
+  
+  for (const watcher of watch.watchers.values()) watcher.close();
+  watch.watchers.clear();
+  if (watch.timer) clearTimeout(watch.timer);
+  watches.delete(watchId);
+  
+  return { ...toInfo(watch), active: false };
+}
+
+/**
+ * Lists all watches, newest first.
+ */
+export function listWatches(): WatchInfo[] {
+  return [...watches.values()]
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+    .map(toInfo);
+}
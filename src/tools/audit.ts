@@ -0,0 +1,94 @@
+/**
+ * Audit log tools.
+ * 
+ * These tools let you (or the assistant) review what tools were run on
+ * this machine, with what arguments, and whether they succeeded.
+ */
+
+import { readAuditEntries } from "../core/audit.js";
+import type { AuditEntry, ToolDefinition } from "../core/types.js";
+
+/**
+ * Queries the audit log of tool invocations.
+ * 
+ * **When to use this tool:**
+ * - "What did you change in my repo during this session?"
+ * - "Which commands failed in the last hour?"
+ * - "Show every git_push from today"
+ * 
+ * Entries are stored in ~/.aashna_dev_mcp/audit.jsonl (plus rotated files).
+ * 
+ * @param tool - Only entries for this tool name
+ * @param since - Only entries at or after this ISO 8601 time
+ * @param until - Only entries at or before this ISO 8601 time
+ * @param failedOnly - Only failed invocations (default: false)
+ * @param limit - Maximum entries to return (default: 50)
+ * @returns Matching entries, newest first
+ */
+export async function queryAuditLog(
+  tool?: string,
+  since?: string,
+  until?: string,
+  failedOnly: boolean = false,
+  limit: number = 50
+): Promise<{
+  entries: AuditEntry[];
+}> {
+  const entries = await readAuditEntries({
+    tool,
+    since,
+    until,
+    failed_only: failedOnly,
+    limit,
+  });
+  
+  return { entries };
+}
+
+/**
+ * Audit tools exposed by the server
+ */
+export const auditTools: ToolDefinition[] = [
+  {
+    name: "audit_query",
+    description:
+      "Queries the audit log of tool invocations (tool, sanitized arguments, cwd, duration, exit code, success). Filter by tool name, time range, or failures only. Returns newest first.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        tool: {
+          type: "string",
+          description: "Only entries for this tool name (optional)",
+        },
+        since: {
+          type: "string",
+          format: "date-time",
+          description: "Only entries at or after this ISO 8601 time (optional)",
+        },
+        until: {
+          type: "string",
+          format: "date-time",
+          description: "Only entries at or before this ISO 8601 time (optional)",
+        },
+        failed_only: {
+          type: "boolean",
+          description: "Only failed invocations (default: false)",
+        },
+        limit: {
+          type: "integer",
+          minimum: 1,
+          maximum: 1000,
+          description: "Maximum number of entries to return (default: 50)",
+        },
+      },
+    },
+    handler: (args: {
+      tool?: string;
+      since?: string;
+      until?: string;
+      failed_only?: boolean;
+      limit?: number;
+    }) => queryAuditLog(args.tool, args.since, args.until, args.failed_only, args.limit),
+  },
+];
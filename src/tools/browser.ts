@@ -6,9 +6,11 @@
  */
 
 import { execCommand } from "../core/exec.js";
+import { escapeAppleScriptString } from "../core/applescript.js";
 import * as os from "os";
 import * as path from "path";
 import * as fs from "fs";
+import type { ToolDefinition } from "../core/types.js";
 
 /**
  * Chrome history entry
@@ -103,7 +105,7 @@ export async function searchRecentHistory(
     const WEBKIT_TO_UNIX_OFFSET = 11644473600;
     const chromeTimestamp = (daysAgoMs / 1000 + WEBKIT_TO_UNIX_OFFSET) * 1000000;
     
-    // Escape the query for SQL LIKE and shell
+    // Escape the query for SQL LIKE (no shell is involved)
     const escapedQuery = `%${query.replace(/'/g, "''")}%`;
     
     // Build SQL query
@@ -119,9 +121,8 @@ export async function searchRecentHistory(
     
     // Create a temporary copy of the history file (Chrome might have it locked)
     const tempHistoryPath = `/tmp/chrome_history_copy_${Date.now()}.db`;
-    const copyCommand = `cp "${historyPath}" "${tempHistoryPath}"`;
     const copyResult = await execCommand({
-      command: copyCommand,
+      argv: ["cp", historyPath, tempHistoryPath],
       timeout_seconds: 5,
     });
     
@@ -131,9 +132,8 @@ export async function searchRecentHistory(
     
     try {
       // Query the database
-      const queryCommand = `sqlite3 "${tempHistoryPath}" "${sqlQuery}" -separator '|'`;
       const result = await execCommand({
-        command: queryCommand,
+        argv: ["sqlite3", "-separator", "|", tempHistoryPath, sqlQuery],
         timeout_seconds: 10,
         max_output_chars: 100000,
       });
@@ -199,14 +199,14 @@ export async function openUrl(url: string): Promise<OpenUrlResult> {
       };
     }
     
-    // Escape single quotes in the URL for AppleScript
-    const escapedUrl = url.replace(/'/g, "'\\''");
+    // Escape the URL for the AppleScript string literal
+    const escapedUrl = escapeAppleScriptString(url);
     
     // Use osascript to tell Chrome to open the URL
-    const command = `osascript -e 'tell application "Google Chrome" to open location "${escapedUrl}"'`;
+    const script = `tell application "Google Chrome" to open location "${escapedUrl}"`;
     
     const result = await execCommand({
-      command,
+      argv: ["osascript", "-e", script],
       timeout_seconds: 10,
     });
     
@@ -229,3 +229,57 @@ export async function openUrl(url: string): Promise<OpenUrlResult> {
   }
 }
 
+/**
+ * Browser tools exposed by the server
+ */
+export const browserTools: ToolDefinition[] = [
+  {
+    name: "browser_recent_history",
+    description:
+      "Search recent Chrome browsing history by text and time window. Searches both page titles and URLs. Useful for finding pages you recently visited.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          maxLength: 500,
+          description: "Search text to match in title OR URL",
+        },
+        days: {
+          type: "integer",
+          minimum: 1,
+          maximum: 365,
+          description: "Number of days to look back (default: 3)",
+        },
+        limit: {
+          type: "integer",
+          minimum: 1,
+          maximum: 500,
+          description: "Maximum number of results to return (default: 10)",
+        },
+      },
+      required: ["query"],
+    },
+    handler: (args: { query: string; days?: number; limit?: number }) =>
+      searchRecentHistory(args.query, args.days, args.limit),
+  },
+  {
+    name: "browser_open_url",
+    description:
+      "Open a given URL in Google Chrome on macOS. The URL must start with http:// or https://.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: {
+          type: "string",
+          format: "uri",
+          pattern: "https?://.+",
+          description: "URL to open (must start with http:// or https://)",
+        },
+      },
+      required: ["url"],
+    },
+    handler: (args: { url: string }) => openUrl(args.url),
+  },
+];
@@ -7,13 +7,64 @@
 
 import * as fs from "fs/promises";
 import * as path from "path";
-import { resolveSafePath, isDirectory, isFile } from "../core/paths.js";
+import { createHash, randomBytes } from "crypto";
+import {
+  resolveSafePath,
+  realpathAllowMissing,
+  findDeniedPattern,
+  assertNotRoot,
+  isWithinRoot,
+  isDirectory,
+  isFile,
+} from "../core/paths.js";
+import { CONFIRMATION_TOKEN_SCHEMA } from "../core/confirm.js";
+import {
+  completeUtf8Length,
+  leadingContinuationBytes,
+  detectTextEncoding,
+  sniffMimeType,
+  normalizeEncoding,
+  isUtf16,
+  decodeText,
+  hexDump,
+} from "../core/encoding.js";
+import { computeHunks, formatUnifiedDiff, parseUnifiedDiff, applyHunks } from "../core/diff.js";
+import { walkDirectory, type WalkEntry } from "../core/walk.js";
+import {
+  measurePath,
+  renamePath,
+  trashPath,
+  findTrashEntry,
+  takeFromTrash,
+  listTrash,
+} from "../core/trash.js";
+import { startWatch, pollWatch, stopWatch, listWatches } from "../core/watches.js";
+import { backupFile, listVersions, listBackedUpFiles, readVersion } from "../core/backups.js";
+import { globToRegExp } from "../core/glob.js";
+import { createRegexMatcher } from "../core/regex.js";
 import type {
   DirectoryEntry,
+  FileReadOptions,
   FileReadResult,
   FileWriteResult,
+  ContentEncoding,
+  FileEditOptions,
+  FileEditResult,
+  FindOptions,
+  FoundEntry,
+  GrepOptions,
+  GrepMatch,
+  TreeOptions,
+  TreeResult,
+  TrashEntry,
+  PathAccess,
+  BackupVersion,
+  WatchOptions,
+  WatchInfo,
+  WatchPollResult,
+  ToolDefinition,
 } from "../core/types.js";
-import { DEFAULT_MAX_FILE_BYTES } from "../config.js";
+import { DEFAULT_MAX_FILE_BYTES, TREE_IGNORE_GLOBS } from "../config.js";
 
 /**
  * Lists entries in a directory.
@@ -65,23 +116,175 @@ export async function listDirectory(dirPath: string): Promise<{
 }
 
 /**
- * Reads the contents of a file.
+ * Size of the chunks files are scanned in
+ */
+const READ_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * How much of the start of a file is checked for binary content
+ */
+const BINARY_SNIFF_BYTES = 8000;
+
+/**
+ * Default number of bytes shown in a hex dump of a binary file
+ */
+const HEX_PREVIEW_BYTES = 1024;
+
+const NEWLINE = 0x0a;
+
+/**
+ * Line structure of a file, found in one streaming pass
+ */
+interface LineScan {
+  total_lines: number;
+  sha256: string;
+  /** Byte offset where each requested line starts (the file size if past the end) */
+  starts: number[];
+  /** Line containing the requested byte offset */
+  line_at_offset: number;
+}
+
+/**
+ * Counts and hashes the lines of a file, and locates the given lines and byte offset.
+ * A trailing newline does not start another line.
+ * 
+ * @param handle - Open file
+ * @param size - File size
+ * @param lines - 1-based line numbers to find the start of
+ * @param offset - Byte offset to find the line of
+ */
+async function scanLines(
+  handle: fs.FileHandle,
+  size: number,
+  lines: number[] = [],
+  offset: number = 0
+): Promise<LineScan> {
+  const starts = lines.map((line) => (line <= 1 ? 0 : size));
+  const buffer = Buffer.alloc(READ_CHUNK_BYTES);
+  const hash = createHash("sha256");
+  let newlines = 0;
+  let lineAtOffset = 1;
+  let lastByte = NEWLINE;
+  let position = 0;
+  
+  while (position < size) {
+    const { bytesRead } = await handle.read(buffer, 0, READ_CHUNK_BYTES, position);
+    if (bytesRead === 0) break;
+    hash.update(buffer.subarray(0, bytesRead));
+    
+    let index = buffer.indexOf(NEWLINE);
+    while (index !== -1 && index < bytesRead) {
+      newlines++;
+      if (position + index < offset) lineAtOffset++;
+      
+      const nextStart = position + index + 1;
+      if (nextStart < size) {
+        lines.forEach((line, i) => {
+          if (line === newlines + 1) starts[i] = nextStart;
+        });
+      }
+      index = buffer.indexOf(NEWLINE, index + 1);
+    }
+    
+    lastByte = buffer[bytesRead - 1];
+    position += bytesRead;
+  }
+  
+  return {
+    total_lines: size === 0 ? 0 : newlines + (lastByte === NEWLINE ? 0 : 1),
+    sha256: hash.digest("hex"),
+    starts,
+    line_at_offset: lineAtOffset,
+  };
+}
+
+/**
+ * Prefixes each line with its line number, right-aligned like `cat -n`.
+ */
+function numberLines(content: string, firstLine: number): string {
+  const lines = content.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  
+  const width = String(firstLine + lines.length - 1).length;
+  const numbered = lines.map(
+    (line, i) => `${String(firstLine + i).padStart(width)}\t${line}`
+  );
+  return numbered.join("\n") + (content.endsWith("\n") ? "\n" : "");
+}
+
+/**
+ * Reads a byte range of a binary file as base64 or a hex dump.
+ */
+async function readBinaryRange(
+  handle: fs.FileHandle,
+  size: number,
+  offset: number,
+  maxBytes: number,
+  format: "base64" | "hex"
+): Promise<{ content: string; start_byte: number; end_byte: number }> {
+  const startByte = Math.min(offset, size);
+  const length = Math.min(size - startByte, maxBytes);
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, startByte);
+  const bytes = buffer.subarray(0, bytesRead);
+  
+  return {
+    content: format === "hex" ? hexDump(bytes, startByte) : bytes.toString("base64"),
+    start_byte: startByte,
+    end_byte: startByte + bytesRead,
+  };
+}
+
+/**
+ * Reads a file, or part of one.
  * 
  * **When to use this tool:**
  * - Reading configuration files
  * - Inspecting source code
- * - Analyzing log files
+ * - Analyzing log files (use tail_lines for the most recent entries)
+ * - Paging through large files with start_line/line_count or byte_offset
+ * - Inspecting images, databases and other binary files
  * - Checking file contents before modifying
  * 
+ * Text is decoded from the detected encoding (UTF-8, UTF-16 with a byte
+ * order mark, otherwise Windows-1252) unless an encoding is given. Cuts never
+ * split a UTF-8 character. Line and tail reads that exceed max_bytes stop at
+ * the last complete line that fits. The result reports where to continue
+ * reading (next_start_line / next_byte_offset).
+ * 
+ * Binary files are returned as base64, or as a hex dump preview of the first
+ * 1 KB by default, with a MIME type sniffed from their magic number.
+ * 
  * @param filePath - Path to the file to read
- * @param maxBytes - Maximum bytes to read (default: 100,000)
- * @returns File contents with metadata
- * @throws Error if path is outside allowed roots or not a file
+ * @param options - Range to read, byte limit (default: 100,000), encoding and formatting
+ * @returns File contents with metadata (size, total lines, modified time, range returned)
+ * @throws Error if path is outside allowed roots or not a file, read modes are combined,
+ *   or a line read is requested for a binary or UTF-16 file
  */
 export async function readFile(
   filePath: string,
-  maxBytes: number = DEFAULT_MAX_FILE_BYTES
+  options: FileReadOptions = {}
 ): Promise<FileReadResult> {
+  const {
+    start_line: startLine,
+    line_count: lineCount,
+    tail_lines: tailLines,
+    byte_offset: byteOffset,
+    line_numbers: lineNumbers = false,
+    binary_format: binaryFormat = "base64",
+  } = options;
+  
+  const lineMode = startLine !== undefined || lineCount !== undefined;
+  const byteMode = !lineMode && tailLines === undefined;
+  const modes = [lineMode, tailLines !== undefined, byteOffset !== undefined];
+  if (modes.filter(Boolean).length > 1) {
+    throw new Error("start_line/line_count, tail_lines and byte_offset cannot be combined");
+  }
+  
+  const forcedEncoding = options.encoding && options.encoding !== "auto"
+    ? normalizeEncoding(options.encoding)
+    : null;
+  
   const safePath = resolveSafePath(filePath);
   
   if (!isFile(safePath)) {
@@ -89,35 +292,166 @@ export async function readFile(
   }
   
   const stats = await fs.stat(safePath);
-  const fileSize = stats.size;
-  
-  if (fileSize <= maxBytes) {
-    // Read entire file
-    const content = await fs.readFile(safePath, "utf-8");
-    return {
-      content,
-      encoding: "utf-8",
-      truncated: false,
-    };
-  } else {
-    // Read truncated
-    const buffer = Buffer.alloc(maxBytes);
-    const fd = await fs.open(safePath, "r");
-    await fd.read(buffer, 0, maxBytes, 0);
-    await fd.close();
-    
-    const content =
-      buffer.toString("utf-8") +
-      `\n\n... [File truncated: showing ${maxBytes} of ${fileSize} bytes] ...`;
-    
-    return {
-      content,
-      encoding: "utf-8",
-      truncated: true,
+  const size = stats.size;
+  const handle = await fs.open(safePath, "r");
+  
+  try {
+    const sample = Buffer.alloc(Math.min(BINARY_SNIFF_BYTES, size));
+    await handle.read(sample, 0, sample.length, 0);
+    const detected = detectTextEncoding(sample, size > sample.length);
+    const encoding = forcedEncoding ?? detected;
+    
+    if (encoding === null) {
+      const mimeType = sniffMimeType(sample);
+      if (!byteMode) {
+        throw new Error(
+          `${filePath} is a binary file (${mimeType}); read it with byte_offset instead of start_line, line_count or tail_lines`
+        );
+      }
+      
+      const limit = options.max_bytes
+        ?? (binaryFormat === "hex" ? HEX_PREVIEW_BYTES : DEFAULT_MAX_FILE_BYTES);
+      const range = await readBinaryRange(handle, size, byteOffset ?? 0, limit, binaryFormat);
+      const result: FileReadResult = {
+        content: range.content,
+        encoding: binaryFormat,
+        binary: true,
+        mime_type: mimeType,
+        truncated: range.end_byte < size,
+        size,
+        modified: stats.mtime.toISOString(),
+        start_byte: range.start_byte,
+        end_byte: range.end_byte,
+      };
+      if (range.end_byte < size) {
+        result.next_byte_offset = range.end_byte;
+      }
+      return result;
+    }
+    
+    if (isUtf16(encoding) && !byteMode) {
+      throw new Error(
+        `Line and tail reads are not supported for ${encoding} files; use byte_offset`
+      );
+    }
+    
+    const maxBytes = options.max_bytes ?? DEFAULT_MAX_FILE_BYTES;
+    let startByte: number;
+    let requestedEnd: number;
+    let firstLine: number;
+    let totalLines: number;
+    let sha256: string;
+    
+    if (byteMode) {
+      startByte = Math.min(byteOffset ?? 0, size);
+      if (isUtf16(encoding)) startByte += startByte % 2;
+      requestedEnd = size;
+      const scan = await scanLines(handle, size, [], startByte);
+      firstLine = scan.line_at_offset;
+      totalLines = scan.total_lines;
+      sha256 = scan.sha256;
+    } else {
+      firstLine = startLine ?? 1;
+      if (tailLines !== undefined) {
+        const { total_lines } = await scanLines(handle, size);
+        firstLine = Math.max(1, total_lines - tailLines + 1);
+      }
+      
+      const targets = lineCount !== undefined
+        ? [firstLine, firstLine + lineCount]
+        : [firstLine];
+      const scan = await scanLines(handle, size, targets);
+      startByte = scan.starts[0];
+      requestedEnd = lineCount !== undefined ? scan.starts[1] : size;
+      totalLines = scan.total_lines;
+      sha256 = scan.sha256;
+    }
+    
+    const length = Math.max(0, Math.min(requestedEnd - startByte, maxBytes));
+    let buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, startByte);
+    buffer = buffer.subarray(0, bytesRead);
+    
+    // A byte offset may land inside a character
+    if (byteMode && encoding === "utf-8") {
+      const skip = leadingContinuationBytes(buffer);
+      startByte += skip;
+      buffer = buffer.subarray(skip);
+    }
+    
+    if (startByte + buffer.length < requestedEnd) {
+      // Prefer ending on a line boundary for line reads, and never split a character
+      const lastNewline = buffer.lastIndexOf(NEWLINE);
+      let keep = buffer.length;
+      if (!byteMode && lastNewline !== -1) {
+        keep = lastNewline + 1;
+      } else if (encoding === "utf-8") {
+        keep = completeUtf8Length(buffer);
+      } else if (isUtf16(encoding)) {
+        keep = buffer.length - (buffer.length % 2);
+      }
+      buffer = buffer.subarray(0, keep);
+    }
+    
+    const endByte = startByte + buffer.length;
+    const text = decodeText(buffer, encoding);
+    const newlines = text.split("\n").length - 1;
+    const endLine = text === ""
+      ? firstLine - 1
+      : firstLine + newlines - (text.endsWith("\n") ? 1 : 0);
+    
+    const result: FileReadResult = {
+      content: lineNumbers ? numberLines(text, firstLine) : text,
+      encoding,
+      binary: detected === null,
+      mime_type: detected === null ? sniffMimeType(sample) : "text/plain",
+      truncated: endByte < requestedEnd,
+      size,
+      total_lines: totalLines,
+      sha256,
+      modified: stats.mtime.toISOString(),
+      start_line: firstLine,
+      end_line: endLine,
+      start_byte: startByte,
+      end_byte: endByte,
     };
+    
+    if (endByte < size) {
+      result.next_start_line = text === "" || text.endsWith("\n") ? endLine + 1 : endLine;
+      result.next_byte_offset = endByte;
+    }
+    
+    // Line numbers come from counting newline bytes, which UTF-16 does not have
+    if (isUtf16(encoding)) {
+      delete result.total_lines;
+      delete result.start_line;
+      delete result.end_line;
+      delete result.next_start_line;
+    }
+    
+    return result;
+  } finally {
+    await handle.close();
   }
 }
 
+/**
+ * Converts tool content to bytes.
+ * 
+ * @throws Error if base64 content contains characters outside the base64 alphabet
+ */
+function decodeContent(content: string, encoding: ContentEncoding): Buffer {
+  if (encoding === "utf-8") {
+    return Buffer.from(content, "utf-8");
+  }
+  
+  const compact = content.replace(/\s+/g, "");
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(compact) || compact.length % 4 === 1) {
+    throw new Error("content is not valid base64");
+  }
+  return Buffer.from(compact, "base64");
+}
+
 /**
  * Writes content to a file.
  * 
@@ -126,19 +460,27 @@ export async function readFile(
  * - Updating configuration
  * - Saving generated code or data
  * - Creating scripts or documentation
+ * - Writing binary files (images, archives) from base64
+ * 
+ * The file is replaced atomically, and its previous version is kept in the
+ * backup store so that fs_undo can restore it.
  * 
  * @param filePath - Path to the file to write
  * @param content - Content to write
  * @param overwrite - Whether to overwrite if file exists (default: true)
+ * @param encoding - "utf-8" for text or "base64" for binary data (default: "utf-8")
  * @returns Write result with success status and bytes written
- * @throws Error if path is outside allowed roots or overwrite is false and file exists
+ * @throws Error if path is outside allowed roots, overwrite is false and file exists,
+ *   or base64 content is malformed
  */
 export async function writeFile(
   filePath: string,
   content: string,
-  overwrite: boolean = true
+  overwrite: boolean = true,
+  encoding: ContentEncoding = "utf-8"
 ): Promise<FileWriteResult> {
-  const safePath = resolveSafePath(filePath);
+  const safePath = resolveSafePath(filePath, "write");
+  const data = decodeContent(content, encoding);
   
   // Check if file exists and overwrite is false
   if (!overwrite && isFile(safePath)) {
@@ -151,13 +493,55 @@ export async function writeFile(
   const parentDir = path.dirname(safePath);
   await fs.mkdir(parentDir, { recursive: true });
   
-  // Write the file
-  await fs.writeFile(safePath, content, "utf-8");
-  const bytesWritten = Buffer.byteLength(content, "utf-8");
+  // Keep the previous version, then replace the file in one step so that
+  // a crash mid-write never leaves it half written
+  const backup = await backupFile(safePath, "fs_write_file");
+  await writeFileAtomic(safePath, data);
   
   return {
     success: true,
-    bytes_written: bytesWritten,
+    bytes_written: data.length,
+    backup_id: backup?.id ?? null,
+  };
+}
+
+/**
+ * Describes what writeFile would replace, for the confirmation preview.
+ * 
+ * Only overwriting an existing file is destructive, so this returns null
+ * (no confirmation needed) when the file does not exist yet or when
+ * overwrite is false.
+ * 
+ * @param filePath - Path to the file to write
+ * @param content - Content to write
+ * @param overwrite - Whether to overwrite if file exists (default: true)
+ * @param encoding - "utf-8" for text or "base64" for binary data (default: "utf-8")
+ * @returns Sizes of the existing and new content, or null
+ */
+export async function previewWriteFile(
+  filePath: string,
+  content: string,
+  overwrite: boolean = true,
+  encoding: ContentEncoding = "utf-8"
+): Promise<{
+  path: string;
+  existing_bytes: number;
+  existing_modified: string;
+  new_bytes: number;
+} | null> {
+  const safePath = resolveSafePath(filePath, "write");
+  
+  if (!overwrite || !isFile(safePath)) {
+    return null;
+  }
+  
+  const stats = await fs.stat(safePath);
+  
+  return {
+    path: safePath,
+    existing_bytes: stats.size,
+    existing_modified: stats.mtime.toISOString(),
+    new_bytes: decodeContent(content, encoding).length,
   };
 }
 
@@ -178,7 +562,7 @@ export async function appendFile(
   filePath: string,
   content: string
 ): Promise<FileWriteResult> {
-  const safePath = resolveSafePath(filePath);
+  const safePath = resolveSafePath(filePath, "write");
   
   // Ensure parent directory exists
   const parentDir = path.dirname(safePath);
@@ -194,3 +578,1821 @@ export async function appendFile(
   };
 }
 
+/**
+ * Writes a file atomically: the data goes to a temporary file in the same
+ * directory, which then replaces the target, so the file is never seen half
+ * written. A symlinked target is replaced where the link points, and the
+ * existing file's permissions are kept.
+ */
+async function writeFileAtomic(target: string, data: Buffer): Promise<void> {
+  const destination = realpathAllowMissing(target);
+  const temp = path.join(
+    path.dirname(destination),
+    `.${path.basename(destination)}.${randomBytes(6).toString("hex")}.tmp`
+  );
+  
+  let mode: number | undefined;
+  try {
+    mode = (await fs.stat(destination)).mode & 0o7777;
+  } catch {
+    // New file: default permissions
+  }
+  
+  try {
+    await fs.writeFile(temp, data, { mode });
+    await fs.rename(temp, destination);
+  } catch (error) {
+    await fs.rm(temp, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Counts the non-overlapping occurrences of `search` in `text`.
+ */
+function countOccurrences(text: string, search: string): number {
+  let count = 0;
+  for (let at = text.indexOf(search); at !== -1; at = text.indexOf(search, at + search.length)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Computes an edit without writing it.
+ * 
+ * @returns The resolved path, the new file bytes, hashes and the diff
+ * @throws Error if the file is not UTF-8 text, the hash precondition fails,
+ *   or an edit or hunk does not match
+ */
+async function planEdit(filePath: string, options: FileEditOptions): Promise<{
+  safePath: string;
+  data: Buffer;
+  changes: number;
+  previousSha256: string;
+  diff: string;
+}> {
+  const { edits, patch, expected_sha256: expectedSha256 } = options;
+  
+  if ((edits === undefined) === (patch === undefined)) {
+    throw new Error("Provide exactly one of edits or patch");
+  }
+  
+  const safePath = resolveSafePath(filePath, "write");
+  
+  if (!isFile(safePath)) {
+    throw new Error(`Path is not a file: ${filePath}`);
+  }
+  
+  const original = await fs.readFile(safePath);
+  const previousSha256 = createHash("sha256").update(original).digest("hex");
+  
+  if (expectedSha256 && expectedSha256.toLowerCase() !== previousSha256) {
+    throw new Error(
+      `File has changed: expected sha256 ${expectedSha256}, found ${previousSha256}. Read it again before editing.`
+    );
+  }
+  
+  const encoding = detectTextEncoding(original, false);
+  if (encoding !== "utf-8") {
+    throw new Error(
+      `fs_edit_file only edits UTF-8 text files; ${filePath} is ${encoding ?? "binary"}`
+    );
+  }
+  
+  // Edit with \n line endings and restore CRLF afterwards, so that edits
+  // and patches written with \n match
+  const hasBom = original[0] === 0xef && original[1] === 0xbb && original[2] === 0xbf;
+  const text = decodeText(original, "utf-8");
+  const crlf = text.includes("\r\n") && !/(^|[^\r])\n/.test(text);
+  const toLf = (value: string) => (crlf ? value.replace(/\r\n/g, "\n") : value);
+  const before = toLf(text);
+  let after = before;
+  let changes = 0;
+  
+  if (edits !== undefined) {
+    edits.forEach((edit, i) => {
+      const search = toLf(edit.old_text);
+      const occurrences = countOccurrences(after, search);
+      
+      if (occurrences === 0) {
+        throw new Error(`edits[${i}].old_text was not found in ${filePath}`);
+      }
+      if (occurrences > 1 && !edit.replace_all) {
+        throw new Error(
+          `edits[${i}].old_text matches ${occurrences} times in ${filePath}; include more surrounding text or set replace_all`
+        );
+      }
+      
+      after = after.split(search).join(toLf(edit.new_text));
+      changes++;
+    });
+  } else {
+    const filePatches = parseUnifiedDiff(toLf(patch!));
+    if (filePatches.length !== 1 || filePatches[0].hunks.length === 0) {
+      throw new Error(
+        `patch must contain hunks for exactly one file (found ${filePatches.length} files)`
+      );
+    }
+    
+    after = applyHunks(before, filePatches[0].hunks);
+    changes = filePatches[0].hunks.length;
+  }
+  
+  const name = path.basename(safePath);
+  const diff = formatUnifiedDiff(computeHunks(before, after), `a/${name}`, `b/${name}`);
+  const newText = crlf ? after.replace(/\n/g, "\r\n") : after;
+  const data = Buffer.concat([
+    Buffer.from(hasBom ? [0xef, 0xbb, 0xbf] : []),
+    Buffer.from(newText, "utf-8"),
+  ]);
+  
+  return { safePath, data, changes, previousSha256, diff };
+}
+
+/**
+ * Edits a file in place with search/replace edits or a unified diff.
+ * 
+ * **When to use this tool:**
+ * - Changing a few lines without resending the whole file
+ * - Applying a patch produced by diff -u or git diff
+ * - Editing safely when the file may have changed since it was read
+ *   (pass the sha256 from fs_read_file as expected_sha256)
+ * 
+ * Each edit's old_text must match exactly once, unless replace_all is set;
+ * edits apply in order. Patch hunks must match exactly but may have moved,
+ * as with patch(1). If any edit or hunk fails, nothing is written. The new
+ * content replaces the file atomically.
+ * 
+ * @param filePath - Path to the file to edit
+ * @param options - Edits or patch, optional hash precondition and dry run
+ * @returns Hashes before and after, bytes written and the unified diff
+ * @throws Error if path is outside allowed roots, the file is not UTF-8 text,
+ *   the hash does not match, or an edit or hunk does not apply
+ */
+export async function editFile(
+  filePath: string,
+  options: FileEditOptions
+): Promise<FileEditResult> {
+  const { safePath, data, changes, previousSha256, diff } = await planEdit(filePath, options);
+  const dryRun = options.dry_run ?? false;
+  
+  let backup: BackupVersion | null = null;
+  if (!dryRun && diff !== "") {
+    backup = await backupFile(safePath, "fs_edit_file");
+    await writeFileAtomic(safePath, data);
+  }
+  
+  return {
+    success: true,
+    path: safePath,
+    dry_run: dryRun,
+    changes_applied: changes,
+    previous_sha256: previousSha256,
+    sha256: createHash("sha256").update(data).digest("hex"),
+    bytes_written: dryRun || diff === "" ? 0 : data.length,
+    diff,
+    backup_id: backup?.id ?? null,
+  };
+}
+
+/**
+ * Describes what editFile would change, for the confirmation preview.
+ * 
+ * @param filePath - Path to the file to edit
+ * @param options - Edits or patch, optional hash precondition and dry run
+ * @returns The diff, or null for dry runs and edits that change nothing
+ */
+export async function previewEditFile(
+  filePath: string,
+  options: FileEditOptions
+): Promise<{ path: string; diff: string } | null> {
+  if (options.dry_run) {
+    return null;
+  }
+  
+  const { safePath, diff } = await planEdit(filePath, options);
+  return diff === "" ? null : { path: safePath, diff };
+}
+
+/**
+ * Checks whether anything (including a dangling symlink) exists at a path.
+ */
+async function pathExists(target: string): Promise<boolean> {
+  try {
+    await fs.lstat(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates the source and destination of a move or copy and makes room
+ * at the destination: an existing entry there is moved to the trash if
+ * overwrite is set, and missing parent directories are created.
+ * 
+ * @returns The resolved paths and the trash entry of anything replaced
+ */
+async function prepareTransfer(
+  source: string,
+  destination: string,
+  overwrite: boolean,
+  sourceAccess: PathAccess
+): Promise<{ safeSource: string; safeDestination: string; replaced: TrashEntry | null }> {
+  const safeSource = resolveSafePath(source, sourceAccess);
+  const safeDestination = resolveSafePath(destination, "write");
+  if (sourceAccess === "write") assertNotRoot(safeSource);
+  assertNotRoot(safeDestination);
+  
+  if (!(await pathExists(safeSource))) {
+    throw new Error(`Path does not exist: ${source}`);
+  }
+  if (safeSource === safeDestination) {
+    throw new Error(`Source and destination are the same: ${source}`);
+  }
+  if (isWithinRoot(safeDestination, safeSource)) {
+    throw new Error(`Cannot move or copy a directory into itself: ${destination}`);
+  }
+  
+  let replaced: TrashEntry | null = null;
+  if (await pathExists(safeDestination)) {
+    if (!overwrite) {
+      throw new Error(`Destination already exists and overwrite=false: ${destination}`);
+    }
+    replaced = await trashPath(safeDestination);
+  }
+  
+  await fs.mkdir(path.dirname(safeDestination), { recursive: true });
+  
+  return { safeSource, safeDestination, replaced };
+}
+
+/**
+ * Runs a move or copy prepared by prepareTransfer. If it fails after the
+ * old destination went to the trash, the partial result is removed and the
+ * old destination is put back, so a failed transfer replaces nothing.
+ * 
+ * A move that failed after its source was already removed (a copy across
+ * filesystems whose cleanup failed) leaves the destination as it is; the
+ * error then names the trash entry holding the old destination.
+ * 
+ * @param safeSource - Resolved source
+ * @param safeDestination - Resolved destination
+ * @param replaced - Trash entry of the old destination, if there was one
+ * @param transfer - Performs the move or copy
+ * @throws Error from the transfer, noting the trash entry if it could not be restored
+ */
+async function runTransfer(
+  safeSource: string,
+  safeDestination: string,
+  replaced: TrashEntry | null,
+  transfer: () => Promise<void>
+): Promise<void> {
+  try {
+    await transfer();
+  } catch (error: any) {
+    if (!replaced) throw error;
+    
+    try {
+      if (!(await pathExists(safeSource))) {
+        throw new Error("the source is no longer in place");
+      }
+      await fs.rm(safeDestination, { recursive: true, force: true });
+      await takeFromTrash(replaced.id, safeDestination);
+    } catch (restoreError: any) {
+      throw new Error(
+        `${error.message}. The previous ${safeDestination} is in the trash as ${replaced.id} ` +
+        `and was not restored (${restoreError.message}); use fs_restore to get it back.`
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Moves or renames a file or directory.
+ * 
+ * **When to use this tool:**
+ * - Renaming files or directories
+ * - Reorganising a project's layout
+ * - Moving files between allowed roots
+ * 
+ * The destination is the new path itself, not a directory to move into.
+ * Symlinks are moved as links. With overwrite, whatever is at the
+ * destination goes to the trash first, so it can be restored; it is put
+ * back if the move fails.
+ * 
+ * @param source - Path to move
+ * @param destination - New path
+ * @param overwrite - Whether to replace an existing destination (default: false)
+ * @returns The resolved paths and the trash entry of anything replaced
+ * @throws Error if either path is outside writable roots or is an allowed
+ *   root, the source is missing, or the destination exists without overwrite
+ */
+export async function movePath(
+  source: string,
+  destination: string,
+  overwrite: boolean = false
+): Promise<{
+  success: boolean;
+  source: string;
+  destination: string;
+  replaced: TrashEntry | null;
+}> {
+  const { safeSource, safeDestination, replaced } = await prepareTransfer(
+    source,
+    destination,
+    overwrite,
+    "write"
+  );
+  
+  await runTransfer(safeSource, safeDestination, replaced, () =>
+    renamePath(safeSource, safeDestination)
+  );
+  
+  return { success: true, source: safeSource, destination: safeDestination, replaced };
+}
+
+/**
+ * Copies a file or directory, recursively.
+ * 
+ * **When to use this tool:**
+ * - Duplicating a file before changing it
+ * - Creating a new module or project from an existing one
+ * - Copying files out of a read-only root
+ * 
+ * Timestamps are preserved and symlinks are copied as links. Files on the
+ * sensitive-file deny list inside a copied directory are skipped. With
+ * overwrite, whatever is at the destination goes to the trash first, and is
+ * put back if the copy fails.
+ * 
+ * @param source - Path to copy (may be in a read-only root)
+ * @param destination - Path of the copy
+ * @param overwrite - Whether to replace an existing destination (default: false)
+ * @returns The resolved paths, what was copied and skipped, and the trash
+ *   entry of anything replaced
+ * @throws Error if the paths are outside allowed roots, the destination is
+ *   an allowed root, the source is missing, or the destination exists
+ *   without overwrite
+ */
+export async function copyPath(
+  source: string,
+  destination: string,
+  overwrite: boolean = false
+): Promise<{
+  success: boolean;
+  source: string;
+  destination: string;
+  files: number;
+  bytes: number;
+  skipped_denied: string[];
+  replaced: TrashEntry | null;
+}> {
+  const { safeSource, safeDestination, replaced } = await prepareTransfer(
+    source,
+    destination,
+    overwrite,
+    "read"
+  );
+  
+  const skipped: string[] = [];
+  await runTransfer(safeSource, safeDestination, replaced, () =>
+    fs.cp(safeSource, safeDestination, {
+      recursive: true,
+      errorOnExist: true,
+      force: false,
+      preserveTimestamps: true,
+      verbatimSymlinks: true,
+      filter: (entry) => {
+        if (!findDeniedPattern(entry)) return true;
+        skipped.push(entry);
+        return false;
+      },
+    })
+  );
+  const copied = await measurePath(safeDestination);
+  
+  return {
+    success: true,
+    source: safeSource,
+    destination: safeDestination,
+    files: copied.files,
+    bytes: copied.size,
+    skipped_denied: skipped,
+    replaced,
+  };
+}
+
+/**
+ * Describes what a move or copy would replace, for the confirmation preview.
+ * 
+ * Only replacing an existing destination is destructive, so this returns
+ * null when the destination does not exist or overwrite is false.
+ * 
+ * @param source - Path to move or copy
+ * @param destination - New path
+ * @param overwrite - Whether to replace an existing destination (default: false)
+ * @returns What is at the destination now, or null
+ */
+export async function previewTransfer(
+  source: string,
+  destination: string,
+  overwrite: boolean = false
+): Promise<{
+  source: string;
+  destination: string;
+  replaces: { is_dir: boolean; files: number; size: number };
+} | null> {
+  const safeDestination = resolveSafePath(destination, "write");
+  
+  if (!overwrite || !(await pathExists(safeDestination))) {
+    return null;
+  }
+  
+  return {
+    source: resolveSafePath(source),
+    destination: safeDestination,
+    replaces: await measurePath(safeDestination),
+  };
+}
+
+/**
+ * Deletes a file or directory by moving it to the server's trash.
+ * 
+ * **When to use this tool:**
+ * - Removing files or directories that are no longer needed
+ * - Cleaning up generated or temporary files
+ * 
+ * Use this instead of `rm`: the entry can be restored with fs_restore until
+ * the trash purges it (after trash_retention_days). Symlinks are deleted as
+ * links.
+ * 
+ * @param filePath - Path to delete
+ * @param recursive - Allow deleting a non-empty directory (default: false)
+ * @returns The trash entry, whose id restores it
+ * @throws Error if path is outside writable roots, is an allowed root,
+ *   does not exist, or is a non-empty directory without recursive
+ */
+export async function deletePath(
+  filePath: string,
+  recursive: boolean = false
+): Promise<{ success: boolean; trash: TrashEntry }> {
+  const safePath = resolveSafePath(filePath, "write");
+  assertNotRoot(safePath);
+  
+  let stats;
+  try {
+    stats = await fs.lstat(safePath);
+  } catch {
+    throw new Error(`Path does not exist: ${filePath}`);
+  }
+  
+  if (stats.isDirectory() && !recursive && (await fs.readdir(safePath)).length > 0) {
+    throw new Error(`Directory is not empty (set recursive: true to delete it): ${filePath}`);
+  }
+  
+  return { success: true, trash: await trashPath(safePath) };
+}
+
+/**
+ * Describes what deletePath would remove, for the confirmation preview.
+ * 
+ * @param filePath - Path to delete
+ * @returns The path, whether it is a directory, and its file count and size
+ */
+export async function previewDeletePath(filePath: string): Promise<{
+  path: string;
+  is_dir: boolean;
+  files: number;
+  size: number;
+}> {
+  const safePath = resolveSafePath(filePath, "write");
+  return { path: safePath, ...(await measurePath(safePath)) };
+}
+
+/**
+ * Creates a directory, including missing parent directories.
+ * 
+ * **When to use this tool:**
+ * - Setting up a project's directory layout
+ * - Creating an output directory before writing files
+ * 
+ * @param dirPath - Path of the directory to create
+ * @returns The resolved path and whether it was created (false if it already existed)
+ * @throws Error if path is outside writable roots or exists but is not a directory
+ */
+export async function makeDirectory(dirPath: string): Promise<{
+  success: boolean;
+  path: string;
+  created: boolean;
+}> {
+  const safePath = resolveSafePath(dirPath, "write");
+  
+  if (isDirectory(safePath)) {
+    return { success: true, path: safePath, created: false };
+  }
+  if (await pathExists(safePath)) {
+    throw new Error(`Path exists and is not a directory: ${dirPath}`);
+  }
+  
+  await fs.mkdir(safePath, { recursive: true });
+  
+  return { success: true, path: safePath, created: true };
+}
+
+/**
+ * Lists the server's trash.
+ * 
+ * **When to use this tool:**
+ * - Finding the id of a deleted file to restore
+ * - Checking what was deleted or replaced recently
+ * 
+ * @returns Trash entries, newest first
+ */
+export async function listTrashEntries(): Promise<{ entries: TrashEntry[] }> {
+  return { entries: await listTrash() };
+}
+
+/**
+ * Restores a file or directory from the server's trash.
+ * 
+ * **When to use this tool:**
+ * - Undoing an fs_delete
+ * - Recovering a file replaced by fs_move or fs_copy with overwrite
+ * 
+ * @param id - Trash id, from fs_delete or fs_list_trash
+ * @param destination - Where to restore to (default: the original path)
+ * @param overwrite - Whether to replace an existing entry there, which is
+ *   itself moved to the trash (default: false)
+ * @returns The restored path and the trash entry of anything replaced
+ * @throws Error if the id is unknown, the destination is outside writable
+ *   roots, or it exists without overwrite
+ */
+export async function restoreFromTrash(
+  id: string,
+  destination?: string,
+  overwrite: boolean = false
+): Promise<{
+  success: boolean;
+  path: string;
+  restored: TrashEntry;
+  replaced: TrashEntry | null;
+}> {
+  const entry = await findTrashEntry(id);
+  if (!entry) {
+    throw new Error(`No trash entry with id ${id}. Use fs_list_trash to see the trash.`);
+  }
+  
+  const safePath = resolveSafePath(destination ?? entry.original_path, "write");
+  assertNotRoot(safePath);
+  
+  let replaced: TrashEntry | null = null;
+  if (await pathExists(safePath)) {
+    if (!overwrite) {
+      throw new Error(`Destination already exists and overwrite=false: ${safePath}`);
+    }
+    replaced = await trashPath(safePath);
+  }
+  
+  await fs.mkdir(path.dirname(safePath), { recursive: true });
+  const restored = await takeFromTrash(id, safePath);
+  
+  return { success: true, path: safePath, restored, replaced };
+}
+
+/**
+ * Lists the earlier versions of a file kept in the backup store, or the
+ * files under a directory that have any.
+ * 
+ * **When to use this tool:**
+ * - Seeing what the server changed in a file, and when
+ * - Finding the version to pass to fs_undo
+ * - Listing the files changed under a project
+ * 
+ * @param targetPath - A file, or a directory to list changed files under
+ * @returns The file's versions (newest first), or the directory's changed
+ *   files (most recently changed first)
+ * @throws Error if path is outside allowed roots
+ */
+export async function fileHistory(targetPath: string): Promise<{
+  path: string;
+  versions?: BackupVersion[];
+  files?: { path: string; versions: number; last_saved_at: string }[];
+}> {
+  const safePath = resolveSafePath(targetPath);
+  
+  if (isDirectory(safePath)) {
+    return { path: safePath, files: await listBackedUpFiles(safePath) };
+  }
+  
+  return { path: safePath, versions: await listVersions(safePath) };
+}
+
+/**
+ * Restores an earlier version of a file from the backup store.
+ * 
+ * **When to use this tool:**
+ * - Reverting a bad write or edit
+ * - Going back to an earlier version listed by fs_history
+ * 
+ * The current content is backed up first, so an undo can itself be undone.
+ * If the chosen version records that the file did not exist, the file is
+ * moved to the trash.
+ * 
+ * @param filePath - Path to the file
+ * @param versionId - Version to restore (default: the newest, i.e. the file
+ *   as it was before the last change)
+ * @returns The restored version, bytes written, the backup of the content
+ *   that was replaced, and the trash entry if the file was removed
+ * @throws Error if path is outside writable roots or the file has no such version
+ */
+export async function undoFile(
+  filePath: string,
+  versionId?: string
+): Promise<{
+  success: boolean;
+  path: string;
+  restored: BackupVersion;
+  bytes_written: number;
+  backup_id: string | null;
+  trash: TrashEntry | null;
+}> {
+  const safePath = resolveSafePath(filePath, "write");
+  
+  const id = versionId ?? (await listVersions(safePath))[0]?.id;
+  if (!id) {
+    throw new Error(`No earlier versions of ${filePath} are in the backup store`);
+  }
+  const { version, data } = await readVersion(safePath, id);
+  
+  const backup = await backupFile(safePath, "fs_undo");
+  let trash: TrashEntry | null = null;
+  
+  if (data === null) {
+    if (await pathExists(safePath)) trash = await trashPath(safePath);
+  } else {
+    await fs.mkdir(path.dirname(safePath), { recursive: true });
+    await writeFileAtomic(safePath, data);
+  }
+  
+  return {
+    success: true,
+    path: safePath,
+    restored: version,
+    bytes_written: data?.length ?? 0,
+    backup_id: backup?.id ?? null,
+    trash,
+  };
+}
+
+/**
+ * Longest line (or match) fs_grep returns; longer ones are shortened
+ */
+const MAX_GREP_LINE_CHARS = 500;
+
+/**
+ * Files larger than this are not searched by fs_grep
+ */
+const GREP_MAX_FILE_BYTES = 10_000_000;
+
+/**
+ * Longest fs_grep may spend matching one file before the search is stopped
+ */
+const GREP_FILE_TIMEOUT_SECONDS = 10;
+
+/**
+ * File types accepted by fs_grep's file_types, mapped to extensions.
+ * Other values are taken as extensions themselves.
+ */
+const FILE_TYPES: Record<string, string[]> = {
+  ts: ["ts", "tsx", "mts", "cts"],
+  js: ["js", "jsx", "mjs", "cjs"],
+  py: ["py", "pyi"],
+  rust: ["rs"],
+  go: ["go"],
+  java: ["java"],
+  kotlin: ["kt", "kts"],
+  swift: ["swift"],
+  c: ["c", "h"],
+  cpp: ["cpp", "cc", "cxx", "hpp", "hh", "hxx", "h"],
+  ruby: ["rb"],
+  php: ["php"],
+  sh: ["sh", "bash", "zsh"],
+  md: ["md", "markdown"],
+  json: ["json"],
+  yaml: ["yml", "yaml"],
+  toml: ["toml"],
+  html: ["html", "htm"],
+  css: ["css", "scss", "sass", "less"],
+  sql: ["sql"],
+};
+
+/**
+ * Matches a name filter: against the relative path if the glob contains
+ * "/", otherwise against the entry's name.
+ */
+function matchesNameGlob(entry: WalkEntry, glob: string): boolean {
+  return globToRegExp(glob).test(glob.includes("/") ? entry.relative_path : entry.name);
+}
+
+/**
+ * Finds files and directories by name, size and modification time.
+ * 
+ * **When to use this tool:**
+ * - Locating files by name or extension across a project
+ * - Finding large or recently modified files
+ * - Listing a project's files without build output and dependencies
+ * 
+ * Files ignored by .gitignore are skipped unless include_ignored is set.
+ * 
+ * @param dirPath - Directory to search
+ * @param options - Name glob, type, depth, size and date filters, and result limit
+ * @returns Matching entries, in directory order, and whether the limit was hit
+ * @throws Error if path is outside allowed roots or not a directory
+ */
+export async function findFiles(
+  dirPath: string,
+  options: FindOptions = {}
+): Promise<{ root: string; entries: FoundEntry[]; truncated: boolean }> {
+  const {
+    pattern,
+    type = "any",
+    max_depth: maxDepth,
+    min_size: minSize,
+    max_size: maxSize,
+    modified_after: modifiedAfter,
+    modified_before: modifiedBefore,
+    exclude,
+    include_ignored: includeIgnored = false,
+    max_results: maxResults = 200,
+  } = options;
+  
+  const safePath = resolveSafePath(dirPath);
+  
+  if (!isDirectory(safePath)) {
+    throw new Error(`Path is not a directory: ${dirPath}`);
+  }
+  
+  const after = modifiedAfter ? Date.parse(modifiedAfter) : -Infinity;
+  const before = modifiedBefore ? Date.parse(modifiedBefore) : Infinity;
+  const sizeFilter = minSize !== undefined || maxSize !== undefined;
+  const entries: FoundEntry[] = [];
+  
+  const walk = walkDirectory(safePath, { maxDepth, exclude, gitignore: !includeIgnored });
+  for await (const entry of walk) {
+    if (type === "file" && entry.is_dir) continue;
+    if (type === "dir" && !entry.is_dir) continue;
+    if (pattern && !matchesNameGlob(entry, pattern)) continue;
+    
+    // Size filters only apply to files
+    if (sizeFilter) {
+      if (entry.is_dir) continue;
+      if (minSize !== undefined && entry.stats.size < minSize) continue;
+      if (maxSize !== undefined && entry.stats.size > maxSize) continue;
+    }
+    
+    const mtime = entry.stats.mtimeMs;
+    if (mtime < after || mtime > before) continue;
+    
+    if (entries.length >= maxResults) {
+      return { root: safePath, entries, truncated: true };
+    }
+    
+    entries.push({
+      path: entry.path,
+      relative_path: entry.relative_path,
+      is_dir: entry.is_dir,
+      size: entry.is_dir ? null : entry.stats.size,
+      modified: entry.stats.mtime.toISOString(),
+    });
+  }
+  
+  return { root: safePath, entries, truncated: false };
+}
+
+/**
+ * Searches file contents for a regular expression.
+ * 
+ * **When to use this tool:**
+ * - Finding where a function, variable or string is used
+ * - Locating TODOs, error messages or configuration keys
+ * - Narrowing down which files to read
+ * 
+ * Searches one file, or every text file under a directory (skipping binary
+ * files, files over 10 MB, and files ignored by .gitignore unless
+ * include_ignored is set). Each matching line is reported once, with the
+ * column of its first match.
+ * 
+ * The pattern runs in a worker thread (see core/regex.ts), so a pattern
+ * that backtracks catastrophically is stopped after 10 seconds on a file
+ * instead of freezing the server.
+ * 
+ * @param searchPath - File or directory to search
+ * @param options - Pattern, matching options, file filters, context and match limit
+ * @returns Matches with path, line, column and context, and search statistics
+ * @throws Error if path is outside allowed roots, the pattern is not a valid
+ *   regex, or matching a file takes too long
+ */
+export async function grepFiles(
+  searchPath: string,
+  options: GrepOptions
+): Promise<{
+  root: string;
+  matches: GrepMatch[];
+  files_searched: number;
+  files_matched: number;
+  files_skipped: number;
+  truncated: boolean;
+}> {
+  const {
+    pattern,
+    case_insensitive: caseInsensitive = false,
+    fixed_strings: fixedStrings = false,
+    context_lines: contextLines = 0,
+    include = [],
+    file_types: fileTypes = [],
+    exclude,
+    max_depth: maxDepth,
+    include_ignored: includeIgnored = false,
+    max_matches: maxMatches = 100,
+  } = options;
+  
+  const source = fixedStrings ? pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&") : pattern;
+  const flags = caseInsensitive ? "i" : "";
+  try {
+    new RegExp(source, flags);
+  } catch (error: any) {
+    throw new Error(`Invalid pattern: ${error.message}`);
+  }
+  
+  const safePath = resolveSafePath(searchPath);
+  const extensions = new Set(
+    fileTypes.flatMap((type) => FILE_TYPES[type] ?? [type.replace(/^\./, "")])
+  );
+  
+  let files: { path: string; size: number }[];
+  if (isFile(safePath)) {
+    files = [{ path: safePath, size: (await fs.stat(safePath)).size }];
+  } else if (isDirectory(safePath)) {
+    files = [];
+    const walk = walkDirectory(safePath, { maxDepth, exclude, gitignore: !includeIgnored });
+    for await (const entry of walk) {
+      if (entry.is_dir) continue;
+      if (include.length > 0 && !include.some((glob) => matchesNameGlob(entry, glob))) continue;
+      if (extensions.size > 0 && !extensions.has(path.extname(entry.name).slice(1))) continue;
+      files.push({ path: entry.path, size: entry.stats.size });
+    }
+  } else {
+    throw new Error(`Path does not exist: ${searchPath}`);
+  }
+  
+  const matches: GrepMatch[] = [];
+  const matchedFiles = new Set<string>();
+  let searched = 0;
+  let skipped = 0;
+  const clip = (line: string) =>
+    line.length > MAX_GREP_LINE_CHARS ? `${line.slice(0, MAX_GREP_LINE_CHARS)}...` : line;
+  
+  const matcher = createRegexMatcher(source, flags, GREP_FILE_TIMEOUT_SECONDS);
+  try {
+    for (const file of files) {
+      if (matches.length >= maxMatches) {
+        return {
+          root: safePath,
+          matches,
+          files_searched: searched,
+          files_matched: matchedFiles.size,
+          files_skipped: skipped,
+          truncated: true,
+        };
+      }
+      
+      let data: Buffer;
+      try {
+        if (file.size > GREP_MAX_FILE_BYTES) throw new Error("too large");
+        data = await fs.readFile(file.path);
+      } catch {
+        skipped++;
+        continue;
+      }
+      
+      const encoding = detectTextEncoding(
+        data.subarray(0, BINARY_SNIFF_BYTES),
+        data.length > BINARY_SNIFF_BYTES
+      );
+      if (encoding === null) {
+        skipped++;
+        continue;
+      }
+      
+      searched++;
+      const lines = decodeText(data, encoding).split("\n").map((line) => line.replace(/\r$/, ""));
+      
+      for (const found of await matcher.matchLines(lines, maxMatches - matches.length)) {
+        const i = found.line;
+        const match: GrepMatch = {
+          path: file.path,
+          line: i + 1,
+          column: found.index + 1,
+          match: clip(found.text),
+          text: clip(lines[i]),
+        };
+        if (contextLines > 0) {
+          match.before = lines.slice(Math.max(0, i - contextLines), i).map(clip);
+          match.after = lines.slice(i + 1, i + 1 + contextLines).map(clip);
+        }
+        matches.push(match);
+        matchedFiles.add(file.path);
+      }
+    }
+  } finally {
+    await matcher.close();
+  }
+  
+  return {
+    root: safePath,
+    matches,
+    files_searched: searched,
+    files_matched: matchedFiles.size,
+    files_skipped: skipped,
+    truncated: false,
+  };
+}
+
+/**
+ * A directory or file in an fs_tree overview
+ */
+interface TreeNode {
+  name: string;
+  is_dir: boolean;
+  /** File size, or for directories the total size of the files within */
+  size: number;
+  /** Files within a directory, at any depth */
+  files: number;
+  /** Directories within a directory, at any depth */
+  directories: number;
+  children: TreeNode[];
+}
+
+/**
+ * Entries fs_tree counts before giving up on a huge directory tree
+ */
+const TREE_MAX_SCANNED_ENTRIES = 100_000;
+
+/**
+ * Longest tree fs_tree renders (in lines)
+ */
+const TREE_MAX_LINES = 2000;
+
+/**
+ * Formats a byte count for people, e.g. "12.3 KB".
+ */
+function formatSize(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Summarises a number of files, directories and bytes, e.g.
+ * "12 files, 2 directories, 40.1 KB".
+ */
+function describeCounts(files: number, directories: number, size: number): string {
+  const parts = [`${files} ${files === 1 ? "file" : "files"}`];
+  if (directories > 0) {
+    parts.push(`${directories} ${directories === 1 ? "directory" : "directories"}`);
+  }
+  if (files > 0) parts.push(formatSize(size));
+  return parts.join(", ");
+}
+
+/**
+ * Renders a recursive directory tree with file counts and sizes.
+ * 
+ * **When to use this tool:**
+ * - Getting an overview of an unfamiliar project
+ * - Seeing where the bulk of a project's files and bytes are
+ * - Finding the right directory before listing or searching it
+ * 
+ * Each directory shows the number and total size of the files within it at
+ * any depth, including levels below max_depth. Directories with more than
+ * max_entries_per_dir entries show the first ones (directories first) and
+ * summarise the rest on one line. Entries ignored by .gitignore or
+ * tree_ignore_globs (node_modules, build output, caches) are left out unless
+ * include_ignored is set.
+ * 
+ * @param dirPath - Directory to render
+ * @param options - Depth, collapsing, exclude patterns and whether to show files
+ * @returns The rendered tree and totals for the whole directory
+ * @throws Error if path is outside allowed roots or not a directory
+ */
+export async function directoryTree(
+  dirPath: string,
+  options: TreeOptions = {}
+): Promise<TreeResult> {
+  const {
+    max_depth: maxDepth = 3,
+    max_entries_per_dir: maxEntries = 20,
+    exclude = [],
+    include_ignored: includeIgnored = false,
+    dirs_only: dirsOnly = false,
+  } = options;
+  
+  const safePath = resolveSafePath(dirPath);
+  
+  if (!isDirectory(safePath)) {
+    throw new Error(`Path is not a directory: ${dirPath}`);
+  }
+  
+  const root: TreeNode = {
+    name: path.basename(safePath) || safePath,
+    is_dir: true,
+    size: 0,
+    files: 0,
+    directories: 0,
+    children: [],
+  };
+  let truncated = false;
+  
+  // The walk is depth-first, so the entry's ancestors are the first `depth`
+  // directories on this stack. Entries below max_depth are counted but not kept.
+  const ancestors: TreeNode[] = [root];
+  let scanned = 0;
+  const walk = walkDirectory(safePath, {
+    exclude: includeIgnored ? exclude : [...TREE_IGNORE_GLOBS, ...exclude],
+    gitignore: !includeIgnored,
+  });
+  for await (const entry of walk) {
+    if (++scanned > TREE_MAX_SCANNED_ENTRIES) {
+      truncated = true;
+      break;
+    }
+    
+    ancestors.length = entry.depth;
+    for (const ancestor of ancestors) {
+      if (entry.is_dir) {
+        ancestor.directories++;
+      } else {
+        ancestor.files++;
+        ancestor.size += entry.stats.size;
+      }
+    }
+    
+    const node: TreeNode = {
+      name: entry.name,
+      is_dir: entry.is_dir,
+      size: entry.is_dir ? 0 : entry.stats.size,
+      files: 0,
+      directories: 0,
+      children: [],
+    };
+    if (entry.depth <= maxDepth) ancestors[entry.depth - 1].children.push(node);
+    if (entry.is_dir) ancestors.push(node);
+  }
+  
+  const label = (node: TreeNode) =>
+    node.is_dir
+      ? `${node.name}/  (${describeCounts(node.files, 0, node.size)})`
+      : `${node.name}  ${formatSize(node.size)}`;
+  const lines = [label(root)];
+  
+  const render = (dir: TreeNode, prefix: string): void => {
+    const children = dir.children
+      .filter((child) => child.is_dir || !dirsOnly)
+      .sort((a, b) => Number(b.is_dir) - Number(a.is_dir));
+    const shown = children.slice(0, maxEntries);
+    const hidden = children.slice(shown.length);
+    
+    for (let i = 0; i < shown.length; i++) {
+      if (lines.length >= TREE_MAX_LINES) {
+        truncated = true;
+        return;
+      }
+      
+      const last = i === shown.length - 1 && hidden.length === 0;
+      lines.push(`${prefix}${last ? "└── " : "├── "}${label(shown[i])}`);
+      if (shown[i].is_dir) render(shown[i], prefix + (last ? "    " : "│   "));
+    }
+    
+    if (hidden.length > 0 && lines.length < TREE_MAX_LINES) {
+      const files = hidden.filter((child) => !child.is_dir);
+      const directories = hidden.length - files.length;
+      const size = files.reduce((total, file) => total + file.size, 0);
+      lines.push(
+        `${prefix}└── … ${hidden.length} more (${describeCounts(files.length, directories, size)})`
+      );
+    }
+  };
+  render(root, "");
+  
+  return {
+    root: safePath,
+    tree: lines.join("\n"),
+    files: root.files,
+    directories: root.directories,
+    total_size: root.size,
+    truncated,
+  };
+}
+
+/**
+ * Starts watching a file or directory for changes.
+ * 
+ * **When to use this tool:**
+ * - Noticing when a build or code generator has written its output
+ * - Following edits made outside the conversation (an editor, a teammate, git)
+ * - Waiting for a log or data file to appear
+ * 
+ * Changes are debounced and coalesced per path, then collected until
+ * fs_watch_poll takes them. .git, deny-listed files and entries ignored by
+ * .gitignore or tree_ignore_globs are left out unless include_ignored is set.
+ * 
+ * @param watchPath - File or directory to watch
+ * @param options - Recursion, exclude patterns, debounce interval and notifications
+ * @returns The new watch, with its id and resource URI
+ * @throws Error if path is outside allowed roots or does not exist, or too
+ *   many watches or directories would be watched
+ */
+export async function startFileWatch(
+  watchPath: string,
+  options: WatchOptions = {}
+): Promise<WatchInfo> {
+  return startWatch(resolveSafePath(watchPath), options);
+}
+
+/**
+ * Takes the changes a watch has collected since the last poll.
+ * 
+ * **When to use this tool:**
+ * - Checking what changed after starting a build or asking the user to edit
+ * - Deciding which files to re-read
+ * 
+ * @param watchId - Watch id returned by startFileWatch
+ * @param maxEvents - Most changes to return; the rest stay pending (default: 500)
+ * @returns Create, modify and delete changes, oldest first, and the watch's state
+ */
+export async function pollFileWatch(
+  watchId: string,
+  maxEvents?: number
+): Promise<WatchPollResult> {
+  return pollWatch(watchId, maxEvents);
+}
+
+/**
+ * Stops a watch.
+ * 
+ * @param watchId - Watch id returned by startFileWatch
+ * @returns Final state of the watch
+ */
+export async function stopFileWatch(watchId: string): Promise<WatchInfo> {
+  return stopWatch(watchId);
+}
+
+/**
+ * Lists active watches.
+ * 
+ * @returns All watches, newest first
+ */
+export async function listFileWatches(): Promise<{ watches: WatchInfo[] }> {
+  return { watches: listWatches() };
+}
+
+/**
+ * Filesystem tools exposed by the server
+ */
+export const filesystemTools: ToolDefinition[] = [
+  {
+    name: "fs_list_dir",
+    description:
+      "Lists entries in a directory with metadata (size, modified date). Only works within allowed root directories.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Path to the directory to list",
+        },
+      },
+      required: ["path"],
+    },
+    handler: (args: { path: string }) => listDirectory(args.path),
+  },
+  {
+    name: "fs_read_file",
+    description:
+      "Reads a file, whole or in part: by line range (start_line, line_count), the last lines (tail_lines) or from a byte offset. Text encoding is detected (UTF-8, UTF-16, legacy 8-bit) or can be given; binary files are returned as base64 or a hex dump with a sniffed MIME type. Output is capped at max_bytes and never splits a character; the result includes total lines, size, modified time and next_start_line/next_byte_offset for paging. Only works within allowed root directories.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Path to the file to read",
+        },
+        max_bytes: {
+          type: "integer",
+          minimum: 1,
+          description: "Maximum bytes to return (default: 100000)",
+        },
+        start_line: {
+          type: "integer",
+          minimum: 1,
+          description: "First line to return (1-based)",
+        },
+        line_count: {
+          type: "integer",
+          minimum: 1,
+          description: "Number of lines to return from start_line (default: as many as fit in max_bytes)",
+        },
+        tail_lines: {
+          type: "integer",
+          minimum: 1,
+          description: "Return the last N lines, e.g. of a log file. Cannot be combined with start_line or byte_offset",
+        },
+        byte_offset: {
+          type: "integer",
+          minimum: 0,
+          description: "Byte offset to start reading at. Cannot be combined with start_line or tail_lines",
+        },
+        line_numbers: {
+          type: "boolean",
+          description: "Prefix each line with its line number (default: false)",
+        },
+        encoding: {
+          type: "string",
+          minLength: 1,
+          description: "Text encoding, e.g. utf-8, utf-16le, latin1, windows-1252, shift_jis, gbk (default: auto, detected from the content)",
+        },
+        binary_format: {
+          type: "string",
+          enum: ["base64", "hex"],
+          description: "How binary files are returned: base64, or a hex dump preview of the first 1024 bytes unless max_bytes is given (default: base64)",
+        },
+      },
+      required: ["path"],
+    },
+    handler: (args: { path: string } & FileReadOptions) =>
+      readFile(args.path, args),
+  },
+  {
+    name: "fs_write_file",
+    description:
+      "Writes content to a file, creating parent directories if needed. The file is replaced atomically and its previous version is kept for fs_undo. Binary data can be passed as base64 with encoding=base64. Can optionally prevent overwriting existing files. Overwriting an existing file requires confirmation: the first call returns a preview and a confirmation_token; repeat the call with that token to execute.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Path to the file to write",
+        },
+        content: {
+          type: "string",
+          description: "Content to write",
+        },
+        overwrite: {
+          type: "boolean",
+          description: "Allow overwriting existing file (default: true)",
+        },
+        encoding: {
+          type: "string",
+          enum: ["utf-8", "base64"],
+          description: "Encoding of content: utf-8 text, or base64 for binary data (default: utf-8)",
+        },
+        confirmation_token: CONFIRMATION_TOKEN_SCHEMA,
+      },
+      required: ["path", "content"],
+    },
+    handler: (args: {
+      path: string;
+      content: string;
+      overwrite?: boolean;
+      encoding?: ContentEncoding;
+    }) => writeFile(args.path, args.content, args.overwrite, args.encoding),
+    preview: (args: {
+      path: string;
+      content: string;
+      overwrite?: boolean;
+      encoding?: ContentEncoding;
+    }) => previewWriteFile(args.path, args.content, args.overwrite, args.encoding),
+  },
+  {
+    name: "fs_append_file",
+    description:
+      "Appends content to a file without overwriting existing content. Creates the file if it doesn't exist.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Path to the file to append to",
+        },
+        content: {
+          type: "string",
+          description: "Content to append",
+        },
+      },
+      required: ["path", "content"],
+    },
+    handler: (args: { path: string; content: string }) =>
+      appendFile(args.path, args.content),
+  },
+  {
+    name: "fs_edit_file",
+    description:
+      "Edits a UTF-8 text file in place with exact search/replace edits or a unified diff, and returns the resulting diff. Each edit's old_text must match exactly once unless replace_all is set. If any edit or hunk does not match, nothing is written. Pass expected_sha256 (from fs_read_file) to refuse the edit if the file changed since it was read.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Path to the file to edit",
+        },
+        edits: {
+          type: "array",
+          minItems: 1,
+          description: "Search/replace edits, applied in order. Cannot be combined with patch",
+          items: {
+            type: "object",
+            properties: {
+              old_text: {
+                type: "string",
+                minLength: 1,
+                description: "Exact text to replace, including enough context to be unique",
+              },
+              new_text: {
+                type: "string",
+                description: "Replacement text",
+              },
+              replace_all: {
+                type: "boolean",
+                description: "Replace every occurrence (default: false)",
+              },
+            },
+            required: ["old_text", "new_text"],
+          },
+        },
+        patch: {
+          type: "string",
+          minLength: 1,
+          description: "Unified diff for this file (diff -u or git diff format). Cannot be combined with edits",
+        },
+        expected_sha256: {
+          type: "string",
+          pattern: "[0-9a-fA-F]{64}",
+          description: "Only edit if the file's current SHA-256 matches (from fs_read_file)",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Return the diff without writing (default: false)",
+        },
+        confirmation_token: CONFIRMATION_TOKEN_SCHEMA,
+      },
+      required: ["path"],
+    },
+    handler: (args: { path: string } & FileEditOptions) => editFile(args.path, args),
+    preview: (args: { path: string } & FileEditOptions) => previewEditFile(args.path, args),
+  },
+  {
+    name: "fs_move",
+    description:
+      "Moves or renames a file or directory. The destination is the new path (not a directory to move into); missing parent directories are created. With overwrite, an existing destination is moved to the trash first. Allowed roots themselves cannot be moved. Only works within writable allowed root directories.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        source: {
+          type: "string",
+          description: "Path to move",
+        },
+        destination: {
+          type: "string",
+          description: "New path",
+        },
+        overwrite: {
+          type: "boolean",
+          description: "Replace an existing destination, moving it to the trash (default: false)",
+        },
+        confirmation_token: CONFIRMATION_TOKEN_SCHEMA,
+      },
+      required: ["source", "destination"],
+    },
+    handler: (args: { source: string; destination: string; overwrite?: boolean }) =>
+      movePath(args.source, args.destination, args.overwrite),
+    preview: (args: { source: string; destination: string; overwrite?: boolean }) =>
+      previewTransfer(args.source, args.destination, args.overwrite),
+  },
+  {
+    name: "fs_copy",
+    description:
+      "Copies a file or directory recursively, preserving timestamps and copying symlinks as links. Deny-listed files (keys, .env, ...) inside a copied directory are skipped. The source may be in a read-only root. With overwrite, an existing destination is moved to the trash first. Only works within allowed root directories.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        source: {
+          type: "string",
+          description: "Path to copy",
+        },
+        destination: {
+          type: "string",
+          description: "Path of the copy",
+        },
+        overwrite: {
+          type: "boolean",
+          description: "Replace an existing destination, moving it to the trash (default: false)",
+        },
+        confirmation_token: CONFIRMATION_TOKEN_SCHEMA,
+      },
+      required: ["source", "destination"],
+    },
+    handler: (args: { source: string; destination: string; overwrite?: boolean }) =>
+      copyPath(args.source, args.destination, args.overwrite),
+    preview: (args: { source: string; destination: string; overwrite?: boolean }) =>
+      previewTransfer(args.source, args.destination, args.overwrite),
+  },
+  {
+    name: "fs_delete",
+    description:
+      "Deletes a file or directory by moving it to the server's trash, from where fs_restore can bring it back. Non-empty directories need recursive: true. Allowed roots themselves cannot be deleted. Use this instead of rm. Only works within writable allowed root directories.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Path to delete",
+        },
+        recursive: {
+          type: "boolean",
+          description: "Allow deleting a non-empty directory (default: false)",
+        },
+        confirmation_token: CONFIRMATION_TOKEN_SCHEMA,
+      },
+      required: ["path"],
+    },
+    handler: (args: { path: string; recursive?: boolean }) =>
+      deletePath(args.path, args.recursive),
+    preview: (args: { path: string }) => previewDeletePath(args.path),
+  },
+  {
+    name: "fs_mkdir",
+    description:
+      "Creates a directory, including missing parent directories. Succeeds with created: false if it already exists. Only works within writable allowed root directories.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Path of the directory to create",
+        },
+      },
+      required: ["path"],
+    },
+    handler: (args: { path: string }) => makeDirectory(args.path),
+  },
+  {
+    name: "fs_list_trash",
+    description:
+      "Lists files and directories in the server's trash (deleted with fs_delete or replaced by fs_move / fs_copy), newest first, with their trash ids and original paths.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    handler: () => listTrashEntries(),
+  },
+  {
+    name: "fs_restore",
+    description:
+      "Restores a file or directory from the server's trash to its original path, or to another path. Only works within writable allowed root directories.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Trash id, from fs_delete or fs_list_trash",
+        },
+        destination: {
+          type: "string",
+          description: "Where to restore to (default: the original path)",
+        },
+        overwrite: {
+          type: "boolean",
+          description: "Replace an existing entry at the destination, moving it to the trash (default: false)",
+        },
+      },
+      required: ["id"],
+    },
+    handler: (args: { id: string; destination?: string; overwrite?: boolean }) =>
+      restoreFromTrash(args.id, args.destination, args.overwrite),
+  },
+  {
+    name: "fs_history",
+    description:
+      "Lists earlier versions of a file saved before fs_write_file, fs_edit_file or fs_undo changed it (newest first), or, for a directory, the files under it with saved versions. Use it to find a version for fs_undo.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "File to list versions of, or directory to list changed files under",
+        },
+      },
+      required: ["path"],
+    },
+    handler: (args: { path: string }) => fileHistory(args.path),
+  },
+  {
+    name: "fs_undo",
+    description:
+      "Restores a file to an earlier version from the backup store: by default to how it was before the last fs_write_file, fs_edit_file or fs_undo. The current content is backed up first, so an undo can be undone. Undoing the creation of a file moves it to the trash. Only works within writable allowed root directories.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Path to the file",
+        },
+        version_id: {
+          type: "string",
+          description: "Version to restore, from fs_history (default: the newest)",
+        },
+      },
+      required: ["path"],
+    },
+    handler: (args: { path: string; version_id?: string }) =>
+      undoFile(args.path, args.version_id),
+  },
+  {
+    name: "fs_find",
+    description:
+      "Finds files and directories recursively by name glob, type, depth, size and modification time. Skips .git and files ignored by .gitignore (unless include_ignored is set). Only works within allowed root directories.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Directory to search",
+        },
+        pattern: {
+          type: "string",
+          minLength: 1,
+          description: "Glob matched against names, e.g. \"*.ts\" or \"*.{yml,yaml}\"; a glob containing / is matched against the path relative to the search directory, e.g. \"src/**/*.test.ts\"",
+        },
+        type: {
+          type: "string",
+          enum: ["file", "dir", "any"],
+          description: "Only files, only directories, or both (default: any)",
+        },
+        max_depth: {
+          type: "integer",
+          minimum: 1,
+          description: "How deep to search; 1 means only the directory's own entries (default: unlimited)",
+        },
+        min_size: {
+          type: "integer",
+          minimum: 0,
+          description: "Minimum file size in bytes (excludes directories)",
+        },
+        max_size: {
+          type: "integer",
+          minimum: 0,
+          description: "Maximum file size in bytes (excludes directories)",
+        },
+        modified_after: {
+          type: "string",
+          format: "date-time",
+          description: "Only entries modified after this time (ISO 8601)",
+        },
+        modified_before: {
+          type: "string",
+          format: "date-time",
+          description: "Only entries modified before this time (ISO 8601)",
+        },
+        exclude: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          description: "Gitignore-style patterns to skip, e.g. [\"dist\", \"*.min.js\"]",
+        },
+        include_ignored: {
+          type: "boolean",
+          description: "Also return entries ignored by .gitignore (default: false)",
+        },
+        max_results: {
+          type: "integer",
+          minimum: 1,
+          maximum: 5000,
+          description: "Maximum entries to return (default: 200)",
+        },
+      },
+      required: ["path"],
+    },
+    handler: (args: { path: string } & FindOptions) => findFiles(args.path, args),
+  },
+  {
+    name: "fs_grep",
+    description:
+      "Searches file contents for a regular expression, recursively or in one file, and returns each matching line with path, line, column and optional context lines. Skips binary files, .git and files ignored by .gitignore (unless include_ignored is set). Only works within allowed root directories.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "File or directory to search",
+        },
+        pattern: {
+          type: "string",
+          minLength: 1,
+          description: "JavaScript regular expression to search for",
+        },
+        case_insensitive: {
+          type: "boolean",
+          description: "Ignore case (default: false)",
+        },
+        fixed_strings: {
+          type: "boolean",
+          description: "Treat pattern as literal text instead of a regex (default: false)",
+        },
+        context_lines: {
+          type: "integer",
+          minimum: 0,
+          maximum: 20,
+          description: "Lines of context to include before and after each match (default: 0)",
+        },
+        include: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          description: "Only search files whose name matches one of these globs, e.g. [\"*.test.ts\"]",
+        },
+        file_types: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          description: "Only search these file types: ts, js, py, rust, go, java, kotlin, swift, c, cpp, ruby, php, sh, md, json, yaml, toml, html, css, sql, or any file extension",
+        },
+        exclude: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          description: "Gitignore-style patterns to skip",
+        },
+        max_depth: {
+          type: "integer",
+          minimum: 1,
+          description: "How deep to search (default: unlimited)",
+        },
+        include_ignored: {
+          type: "boolean",
+          description: "Also search files ignored by .gitignore (default: false)",
+        },
+        max_matches: {
+          type: "integer",
+          minimum: 1,
+          maximum: 5000,
+          description: "Maximum matching lines to return (default: 100)",
+        },
+      },
+      required: ["path", "pattern"],
+    },
+    handler: (args: { path: string } & GrepOptions) => grepFiles(args.path, args),
+  },
+  {
+    name: "fs_tree",
+    description:
+      "Renders a directory as a tree to a given depth, with the number and total size of files in each directory. Large directories are collapsed to a summary line; .git, files ignored by .gitignore and dependency/build directories (node_modules, dist, ...) are left out. Use it for a compact overview of a project. Only works within allowed root directories.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Directory to render",
+        },
+        max_depth: {
+          type: "integer",
+          minimum: 1,
+          maximum: 20,
+          description: "Levels to show; deeper files are still counted (default: 3)",
+        },
+        max_entries_per_dir: {
+          type: "integer",
+          minimum: 1,
+          maximum: 1000,
+          description: "Entries shown per directory before the rest are summarised on one line (default: 20)",
+        },
+        exclude: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          description: "Additional gitignore-style patterns to leave out, e.g. [\"fixtures\", \"*.snap\"]",
+        },
+        include_ignored: {
+          type: "boolean",
+          description: "Also show entries ignored by .gitignore and the server's tree_ignore_globs (default: false)",
+        },
+        dirs_only: {
+          type: "boolean",
+          description: "Show only directories; files are still counted (default: false)",
+        },
+      },
+      required: ["path"],
+    },
+    handler: (args: { path: string } & TreeOptions) => directoryTree(args.path, args),
+  },
+  {
+    name: "fs_watch",
+    description:
+      "Starts watching a file or directory (recursively by default) for created, modified and deleted entries. Changes are debounced and coalesced per path, and collected until fs_watch_poll takes them. Skips .git and entries ignored by .gitignore or dependency/build directories (node_modules, dist, ...). Returns a watch_id, and a resource_uri that receives MCP resource update notifications when notify is set. Only works within allowed root directories.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "File or directory to watch",
+        },
+        recursive: {
+          type: "boolean",
+          description: "Also watch subdirectories (default: true)",
+        },
+        exclude: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          description: "Additional gitignore-style patterns to leave out, e.g. [\"*.log\", \"tmp\"]",
+        },
+        include_ignored: {
+          type: "boolean",
+          description: "Also report changes to entries ignored by .gitignore and the server's tree_ignore_globs (default: false)",
+        },
+        debounce_ms: {
+          type: "integer",
+          minimum: 0,
+          maximum: 10000,
+          description: "Quiet period before changes are reported, in milliseconds (default: 200)",
+        },
+        notify: {
+          type: "boolean",
+          description: "Send notifications/resources/updated for the watch's resource_uri when changes arrive (default: false)",
+        },
+      },
+      required: ["path"],
+    },
+    handler: (args: { path: string } & WatchOptions) => startFileWatch(args.path, args),
+  },
+  {
+    name: "fs_watch_poll",
+    description:
+      "Takes the changes a watch has collected since the last poll: create, modify and delete events with path, relative path and time, oldest first. Also reports whether the watch is still active.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        watch_id: {
+          type: "string",
+          description: "Watch id returned by fs_watch",
+        },
+        max_events: {
+          type: "integer",
+          minimum: 1,
+          maximum: 10000,
+          description: "Maximum changes to return; the rest stay pending (default: 500)",
+        },
+      },
+      required: ["watch_id"],
+    },
+    handler: (args: { watch_id: string; max_events?: number }) =>
+      pollFileWatch(args.watch_id, args.max_events),
+  },
+  {
+    name: "fs_watch_stop",
+    description: "Stops a watch started with fs_watch and discards its unpolled changes.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        watch_id: {
+          type: "string",
+          description: "Watch id returned by fs_watch",
+        },
+      },
+      required: ["watch_id"],
+    },
+    handler: (args: { watch_id: string }) => stopFileWatch(args.watch_id),
+  },
+  {
+    name: "fs_watch_list",
+    description: "Lists active file watches with their paths and number of pending changes.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    handler: () => listFileWatches(),
+  },
+];
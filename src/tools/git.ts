@@ -2,14 +2,31 @@
  * Git tools for version control operations.
  * 
  * These tools enable AI assistants to interact with git repositories,
- * checking status, viewing history, and making commits.
+ * checking status, viewing history and diffs, making commits and managing branches.
  */
 
 import * as path from "path";
 import * as fs from "fs";
 import { execCommand } from "../core/exec.js";
-import { resolveSafePath } from "../core/paths.js";
-import type { GitCommit } from "../core/types.js";
+import { findDeniedPattern, isWithinRoot, resolveSafePath } from "../core/paths.js";
+import { CONFIRMATION_TOKEN_SCHEMA } from "../core/confirm.js";
+import { parseUnifiedDiff } from "../core/diff.js";
+import type {
+  DiffHunk,
+  GitBranch,
+  GitCommitFileStat,
+  GitLogOptions,
+  GitLogEntry,
+  GitStatus,
+  GitFileChange,
+  GitConflict,
+  GitCommitOptions,
+  GitHunkSelection,
+  GitDiffOptions,
+  GitDiffFile,
+  GitDiffResult,
+  ToolDefinition,
+} from "../core/types.js";
 
 /**
  * Verifies that a directory is a git repository.
@@ -24,6 +41,163 @@ function ensureGitRepo(repoPath: string): void {
   }
 }
 
+/**
+ * Longest git output the structured git tools parse
+ */
+const GIT_MAX_OUTPUT_CHARS = 5_000_000;
+
+/**
+ * Runs git in a repository and returns its standard output.
+ * 
+ * @param repoPath - Path to the repository (already validated)
+ * @param args - Arguments after "git"
+ * @param input - Text to pass on standard input
+ * @returns The command's stdout
+ * @throws Error if git fails or its output is too long to parse
+ */
+async function runGit(repoPath: string, args: string[], input?: string): Promise<string> {
+  const result = await execCommand({
+    argv: ["git", ...args],
+    input,
+    cwd: repoPath,
+    max_output_chars: GIT_MAX_OUTPUT_CHARS,
+  });
+  
+  if (result.exit_code !== 0) {
+    const reason = result.warning?.message ?? (result.stderr.trim() || result.stdout.trim());
+    throw new Error(`Git ${args[0]} failed: ${reason}`);
+  }
+  if (result.truncated) {
+    throw new Error(`Git ${args[0]} output is too long to parse`);
+  }
+  
+  return result.stdout;
+}
+
+/**
+ * Change kinds by porcelain status letter
+ */
+const CHANGE_KINDS: Record<string, GitFileChange["kind"]> = {
+  M: "modified",
+  T: "type_changed",
+  A: "added",
+  D: "deleted",
+  R: "renamed",
+  C: "copied",
+};
+
+/**
+ * Conflict kinds by the two-letter status of an unmerged entry
+ */
+const CONFLICT_KINDS: Record<string, GitConflict["kind"]> = {
+  UU: "both_modified",
+  AA: "both_added",
+  DD: "both_deleted",
+  AU: "added_by_us",
+  UA: "added_by_them",
+  DU: "deleted_by_us",
+  UD: "deleted_by_them",
+};
+
+/**
+ * Parses `git status --porcelain=v2 --branch --show-stash -z` output.
+ * 
+ * Records are NUL-separated; a rename or copy record is followed by one
+ * holding the original path. Paths are never quoted in this format.
+ */
+function parseStatus(
+  output: string
+): Omit<GitStatus, "resolved_path" | "operation" | "clean"> {
+  const status: Omit<GitStatus, "resolved_path" | "operation" | "clean"> = {
+    branch: null,
+    head: null,
+    upstream: null,
+    ahead: null,
+    behind: null,
+    staged: [],
+    unstaged: [],
+    untracked: [],
+    conflicted: [],
+    stash_count: 0,
+  };
+  const records = output.split("\0");
+  
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    if (!record) continue;
+    
+    if (record.startsWith("# ")) {
+      const [key, ...rest] = record.slice(2).split(" ");
+      const value = rest.join(" ");
+      
+      if (key === "branch.oid") {
+        status.head = value === "(initial)" ? null : value;
+      } else if (key === "branch.head") {
+        status.branch = value === "(detached)" ? null : value;
+      } else if (key === "branch.upstream") {
+        status.upstream = value;
+      } else if (key === "branch.ab") {
+        const counts = /^\+(\d+) -(\d+)$/.exec(value);
+        if (counts) {
+          status.ahead = Number(counts[1]);
+          status.behind = Number(counts[2]);
+        }
+      } else if (key === "stash") {
+        status.stash_count = Number(value);
+      }
+      continue;
+    }
+    
+    const fields = record.split(" ");
+    const type = fields[0];
+    
+    if (type === "?") {
+      status.untracked.push(record.slice(2));
+    } else if (type === "u") {
+      status.conflicted.push({
+        path: fields.slice(10).join(" "),
+        kind: CONFLICT_KINDS[fields[1]] ?? "both_modified",
+      });
+    } else if (type === "1" || type === "2") {
+      // 1 XY sub mH mI mW hH hI path
+      // 2 XY sub mH mI mW hH hI Xscore path, then the original path
+      const xy = fields[1];
+      const filePath = fields.slice(type === "1" ? 8 : 9).join(" ");
+      const from = type === "2" ? records[++i] : undefined;
+      const similarity = type === "2" ? Number(fields[8].slice(1)) : undefined;
+      
+      for (const [code, list] of [[xy[0], status.staged], [xy[1], status.unstaged]] as const) {
+        if (code === ".") continue;
+        
+        const change: GitFileChange = { path: filePath, kind: CHANGE_KINDS[code] ?? "modified" };
+        if (from !== undefined && (code === "R" || code === "C")) {
+          change.from = from;
+          change.similarity = similarity;
+        }
+        if (fields[2] !== "N...") change.submodule = true;
+        list.push(change);
+      }
+    }
+  }
+  
+  return status;
+}
+
+/**
+ * Detects a merge, rebase, cherry-pick or revert waiting to be continued
+ * or aborted, from the marker files git keeps in the git directory.
+ */
+async function detectOperation(repoPath: string): Promise<GitStatus["operation"]> {
+  const gitDir = path.resolve(repoPath, (await runGit(repoPath, ["rev-parse", "--git-dir"])).trim());
+  const exists = (name: string) => fs.existsSync(path.join(gitDir, name));
+  
+  if (exists("rebase-merge") || exists("rebase-apply")) return "rebase";
+  if (exists("MERGE_HEAD")) return "merge";
+  if (exists("CHERRY_PICK_HEAD")) return "cherry-pick";
+  if (exists("REVERT_HEAD")) return "revert";
+  return null;
+}
+
 /**
  * Gets the git status of a repository.
  * 
@@ -32,30 +206,546 @@ function ensureGitRepo(repoPath: string): void {
  * - Seeing which files are staged
  * - Checking current branch
  * - Verifying clean working directory
+ * - Checking whether a merge or rebase needs finishing
  * 
  * @param repoPath - Path to the git repository
- * @returns Git status output
+ * @returns Branch, upstream and ahead/behind counts, staged, unstaged,
+ *   untracked and conflicted files, stash count and any operation in progress
  */
-export async function getGitStatus(repoPath: string): Promise<{
-  status: string;
-  resolved_path: string;
-}> {
+export async function getGitStatus(repoPath: string): Promise<GitStatus> {
   const safePath = resolveSafePath(repoPath);
   ensureGitRepo(safePath);
   
-  const result = await execCommand({
-    command: "git status -sb",
-    cwd: safePath,
+  const output = await runGit(safePath, [
+    "status",
+    "--porcelain=v2",
+    "--branch",
+    "--show-stash",
+    "-z",
+  ]);
+  const status = parseStatus(output);
+  
+  return {
+    resolved_path: safePath,
+    ...status,
+    operation: await detectOperation(safePath),
+    clean:
+      status.staged.length === 0 &&
+      status.unstaged.length === 0 &&
+      status.untracked.length === 0 &&
+      status.conflicted.length === 0,
+  };
+}
+
+/**
+ * Most hunk lines git_diff returns across all files
+ */
+const GIT_DIFF_MAX_TOTAL_LINES = 5000;
+
+/**
+ * Escapes git uses in quoted paths
+ */
+const QUOTED_PATH_ESCAPES: Record<string, string> = {
+  a: "\x07",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  v: "\v",
+};
+
+/**
+ * Decodes a path git put in double quotes because it contains special
+ * characters. Inside the quotes, bytes outside printable ASCII may be
+ * written as octal escapes.
+ */
+function unquotePath(text: string): string {
+  if (text.length < 2 || !text.startsWith('"') || !text.endsWith('"')) return text;
+  
+  const bytes: number[] = [];
+  for (let i = 1; i < text.length - 1; i++) {
+    const char = String.fromCodePoint(text.codePointAt(i)!);
+    i += char.length - 1;
+    
+    if (char !== "\\") {
+      bytes.push(...Buffer.from(char, "utf-8"));
+      continue;
+    }
+    
+    const next = text[++i];
+    if (/[0-7]/.test(next)) {
+      bytes.push(parseInt(text.slice(i, i + 3), 8));
+      i += 2;
+    } else {
+      bytes.push((QUOTED_PATH_ESCAPES[next] ?? next).charCodeAt(0));
+    }
+  }
+  
+  return Buffer.from(bytes).toString("utf-8");
+}
+
+/**
+ * Parses `git diff --raw --numstat -z` output: a raw record for each file,
+ * then a numstat record for each file in the same order.
+ * 
+ * An unmerged file gets two raw records, one for the conflict and one for
+ * the working tree change; they are merged into a single entry.
+ */
+function parseDiffSummary(output: string): GitDiffFile[] {
+  const records = output.split("\0");
+  const entries: GitDiffFile[] = [];
+  const counts: string[][] = [];
+  let i = 0;
+  
+  while (i < records.length) {
+    const record = records[i++];
+    if (!record) continue;
+    
+    if (record.startsWith(":")) {
+      // :oldmode newmode oldsha newsha status, then the path (two for R and C)
+      const [oldMode, newMode, , , status] = record.slice(1).split(" ");
+      const code = status[0];
+      const entry: GitDiffFile = {
+        path: "",
+        kind: code === "U" ? "unmerged" : CHANGE_KINDS[code] ?? "modified",
+        binary: false,
+        additions: null,
+        deletions: null,
+      };
+      if (code === "R" || code === "C") {
+        entry.from = records[i++];
+        entry.similarity = Number(status.slice(1));
+      }
+      entry.path = records[i++];
+      if (oldMode !== newMode && oldMode !== "000000" && newMode !== "000000") {
+        entry.old_mode = oldMode;
+        entry.new_mode = newMode;
+      }
+      entries.push(entry);
+    } else {
+      // added<TAB>deleted<TAB>path; the path is empty for renames and the
+      // two paths follow as separate records
+      const fields = record.split("\t");
+      if (fields[2] === "") i += 2;
+      counts.push(fields);
+    }
+  }
+  
+  const files = new Map<string, GitDiffFile>();
+  entries.forEach((entry, index) => {
+    const [added, deleted] = counts[index] ?? [];
+    const file = files.get(entry.path) ?? entry;
+    file.binary = added === "-";
+    file.additions = added === undefined || added === "-" ? null : Number(added);
+    file.deletions = deleted === undefined || deleted === "-" ? null : Number(deleted);
+    files.set(entry.path, file);
   });
   
-  if (result.exit_code !== 0) {
-    throw new Error(`Git status failed: ${result.stderr}`);
+  return [...files.values()];
+}
+
+/**
+ * Splits `git diff` patch output into the text for each file, keyed by the
+ * file's new path. Combined diffs of unmerged files are left out.
+ */
+function splitPatch(output: string): Map<string, string> {
+  const sections = new Map<string, string>();
+  
+  for (const section of output.split(/^(?=diff --(?:git|cc|combined) )/m)) {
+    const [header, ...rest] = section.split("\n");
+    if (!header.startsWith("diff --git ")) continue;
+    
+    let filePath: string | undefined;
+    for (const line of rest) {
+      if (line.startsWith("@@")) break;
+      const target = /^(?:rename|copy) to (.*)$/.exec(line);
+      if (target) filePath = unquotePath(target[1]);
+    }
+    if (filePath === undefined) {
+      // Otherwise both sides name the same file: "a/<path> b/<path>"
+      const names = header.slice("diff --git ".length);
+      filePath = unquotePath(names.slice(0, (names.length - 1) / 2)).slice(2);
+    }
+    
+    sections.set(filePath, section);
+  }
+  
+  return sections;
+}
+
+/**
+ * Parses `git diff` patch output into the hunks of each file, keyed by the
+ * file's new path. Binary and mode-only changes have no hunks.
+ */
+function parsePatch(output: string): Map<string, DiffHunk[]> {
+  const patches = new Map<string, DiffHunk[]>();
+  for (const [filePath, section] of splitPatch(output)) {
+    patches.set(filePath, parseUnifiedDiff(section)[0]?.hunks ?? []);
+  }
+  return patches;
+}
+
+/**
+ * Keeps hunk lines up to a limit, cutting the hunk that reaches it short.
+ * 
+ * @returns The kept hunks and how many lines were left out
+ */
+function truncateHunks(
+  hunks: DiffHunk[],
+  maxLines: number
+): { hunks: DiffHunk[]; omitted: number } {
+  const kept: DiffHunk[] = [];
+  let remaining = maxLines;
+  let omitted = 0;
+  
+  for (const hunk of hunks) {
+    const lines = hunk.lines.slice(0, Math.max(remaining, 0));
+    omitted += hunk.lines.length - lines.length;
+    remaining -= lines.length;
+    if (lines.length === 0) continue;
+    kept.push(lines.length < hunk.lines.length ? { ...hunk, lines } : hunk);
+  }
+  
+  return { hunks: kept, omitted };
+}
+
+/**
+ * Shows the changes in a repository, per file and per hunk.
+ * 
+ * By default the working tree is compared with the index (unstaged
+ * changes); `staged` compares the index with HEAD. With `from` the working
+ * tree (or, with `staged`, the index) is compared with that revision, and
+ * with `from` and `to` two revisions are compared. Untracked files are not
+ * included, and deny-listed files are listed without their hunks.
+ * 
+ * **When to use this tool:**
+ * - Reviewing changes before staging or committing them
+ * - Seeing what a commit or a range of commits changed
+ * - Getting an overview of changed files with stat_only
+ * 
+ * @param repoPath - Path to the git repository
+ * @param options - What to compare, path filters, context lines and limits
+ * @returns Changed files with kind, line counts and numbered hunks, and totals
+ * @throws Error if `to` is given without `from`, or together with `staged`
+ */
+export async function getGitDiff(
+  repoPath: string,
+  options: GitDiffOptions = {}
+): Promise<GitDiffResult> {
+  const {
+    staged = false,
+    from,
+    to,
+    paths = [],
+    context_lines = 3,
+    stat_only = false,
+    max_lines_per_file = 300,
+  } = options;
+  const safePath = resolveSafePath(repoPath);
+  ensureGitRepo(safePath);
+  
+  if (to !== undefined && from === undefined) {
+    throw new Error("to requires from");
+  }
+  if (to !== undefined && staged) {
+    throw new Error("staged cannot be combined with to: both sides are already revisions");
+  }
+  
+  const revisions = [from, to].filter((revision): revision is string => revision !== undefined);
+  const diffArgs = (format: string[]) => [
+    "diff",
+    ...format,
+    "--no-color",
+    "--no-ext-diff",
+    "--find-renames",
+    ...(staged ? ["--cached"] : []),
+    ...revisions,
+    "--",
+    ...paths,
+  ];
+  
+  const files = parseDiffSummary(await runGit(safePath, diffArgs(["--raw", "--numstat", "-z"])));
+  
+  let truncated = false;
+  if (!stat_only && files.some((file) => !file.binary && file.kind !== "unmerged")) {
+    const patches = parsePatch(
+      await runGit(
+        safePath,
+        diffArgs([`--unified=${context_lines}`, "--src-prefix=a/", "--dst-prefix=b/"])
+      )
+    );
+    
+    let budget = GIT_DIFF_MAX_TOTAL_LINES;
+    for (const file of files) {
+      if (file.binary || file.kind === "unmerged") continue;
+      
+      // Contents of deny-listed files are never shown
+      const denied = [file.path, file.from]
+        .filter((name): name is string => name !== undefined)
+        .some((name) => findDeniedPattern(path.join(safePath, name)) !== undefined);
+      if (denied) {
+        file.denied = true;
+        continue;
+      }
+      
+      const limited = truncateHunks(patches.get(file.path) ?? [], Math.min(max_lines_per_file, budget));
+      file.hunks = limited.hunks;
+      budget -= limited.hunks.reduce((sum, hunk) => sum + hunk.lines.length, 0);
+      if (limited.omitted > 0) {
+        file.truncated = true;
+        file.omitted_lines = limited.omitted;
+        truncated = true;
+      }
+    }
+  }
+  
+  return {
+    resolved_path: safePath,
+    from: from ?? (staged ? "HEAD" : "index"),
+    to: to ?? (staged ? "index" : "working tree"),
+    files,
+    files_changed: files.length,
+    additions: files.reduce((sum, file) => sum + (file.additions ?? 0), 0),
+    deletions: files.reduce((sum, file) => sum + (file.deletions ?? 0), 0),
+    truncated,
+  };
+}
+
+/**
+ * Turns paths given to a git tool into paths relative to the repository.
+ * 
+ * @param repoPath - Path to the repository (already validated)
+ * @param paths - Paths relative to the repository, or absolute
+ * @param allowDenied - Accept paths on the deny list (e.g. for unstaging)
+ * @throws Error if a path is outside the repository or, unless allowed, denied
+ */
+function repoRelativePaths(repoPath: string, paths: string[], allowDenied: boolean = false): string[] {
+  return paths.map((input) => {
+    const resolved = path.resolve(repoPath, input);
+    if (!isWithinRoot(resolved, repoPath)) {
+      throw new Error(`Path "${input}" is outside the repository ${repoPath}`);
+    }
+    if (!allowDenied) {
+      const pattern = findDeniedPattern(resolved);
+      if (pattern) {
+        throw new Error(`Path "${input}" matches the deny list pattern "${pattern}"`);
+      }
+    }
+    return path.relative(repoPath, resolved).split(path.sep).join("/") || ".";
+  });
+}
+
+/**
+ * Applies some hunks of the changes to files to the index, or takes them
+ * back out of it.
+ * 
+ * Hunks are numbered as git_diff lists them with the default context:
+ * unstaged changes when staging, staged changes when unstaging.
+ * 
+ * @param repoPath - Path to the repository (already validated)
+ * @param selections - Files and the positions of their hunks
+ * @param unstage - Remove the hunks from the index instead of adding them
+ * @throws Error if a file has no such changes or a hunk does not exist
+ */
+async function applyHunkSelections(
+  repoPath: string,
+  selections: GitHunkSelection[],
+  unstage: boolean
+): Promise<void> {
+  let patch = "";
+  
+  for (const selection of selections) {
+    const [filePath] = repoRelativePaths(repoPath, [selection.path], unstage);
+    const output = await runGit(repoPath, [
+      "diff",
+      "--no-color",
+      "--no-ext-diff",
+      "--src-prefix=a/",
+      "--dst-prefix=b/",
+      ...(unstage ? ["--cached"] : []),
+      "--",
+      filePath,
+    ]);
+    
+    const section = splitPatch(output).get(filePath);
+    if (section === undefined) {
+      throw new Error(`No ${unstage ? "staged" : "unstaged"} changes to ${selection.path}`);
+    }
+    
+    // The file header, then one part per hunk
+    const [header, ...hunks] = section.split(/^(?=@@ )/m);
+    for (const index of selection.hunks) {
+      if (index >= hunks.length) {
+        throw new Error(
+          `${selection.path} has ${hunks.length} ${unstage ? "staged" : "unstaged"} hunk(s); there is no hunk ${index}`
+        );
+      }
+    }
+    
+    const chosen = [...new Set(selection.hunks)].sort((a, b) => a - b);
+    patch += header + chosen.map((index) => hunks[index]).join("");
+  }
+  
+  await runGit(
+    repoPath,
+    ["apply", "--cached", "--whitespace=nowarn", ...(unstage ? ["--reverse"] : []), "-"],
+    patch
+  );
+}
+
+/**
+ * Stages files, or selected hunks of them, for the next commit.
+ * 
+ * **When to use this tool:**
+ * - Preparing a commit from some of the changed files
+ * - Splitting unrelated changes to one file into separate commits
+ * 
+ * @param repoPath - Path to the git repository
+ * @param paths - Files or directories to stage entirely, including deletions
+ *   and untracked files
+ * @param hunks - Hunks of files to stage, numbered as in git_diff's unstaged output
+ * @returns The updated status
+ * @throws Error if neither paths nor hunks are given, a path or a file it
+ *   covers is on the deny list, or a hunk does not exist
+ */
+export async function stageGitChanges(
+  repoPath: string,
+  paths: string[] = [],
+  hunks: GitHunkSelection[] = []
+): Promise<GitStatus> {
+  const safePath = resolveSafePath(repoPath, "write");
+  ensureGitRepo(safePath);
+  
+  if (paths.length === 0 && hunks.length === 0) {
+    throw new Error("Nothing to stage: give paths or hunks");
+  }
+  
+  if (paths.length > 0) {
+    const pathspecs = repoRelativePaths(safePath, paths);
+    
+    // A directory or glob (".", "src", "*") can cover denied files it does not name
+    const status = parseStatus(
+      await runGit(safePath, ["status", "--porcelain=v2", "--untracked-files=all", "-z", "--", ...pathspecs])
+    );
+    const denied = deniedFiles(safePath, [
+      ...status.unstaged.map((change) => change.path),
+      ...status.untracked,
+      ...status.conflicted.map((conflict) => conflict.path),
+    ]);
+    if (denied.length > 0) {
+      throw new Error(
+        `Refusing to stage files on the deny list: ${denied.join(", ")}. ` +
+        `Stage other files by name, or add them to .gitignore.`
+      );
+    }
+    
+    await runGit(safePath, ["add", "--all", "--", ...pathspecs]);
+  }
+  if (hunks.length > 0) {
+    await applyHunkSelections(safePath, hunks, false);
+  }
+  
+  return getGitStatus(safePath);
+}
+
+/**
+ * Removes files, or selected hunks of them, from the index. The working
+ * tree is left as it is.
+ * 
+ * **When to use this tool:**
+ * - Taking files out of the next commit
+ * - Unstaging part of a file's staged changes
+ * 
+ * @param repoPath - Path to the git repository
+ * @param paths - Files or directories to unstage entirely
+ * @param hunks - Hunks of files to unstage, numbered as in git_diff's staged output
+ * @returns The updated status
+ * @throws Error if neither paths nor hunks are given or a hunk does not exist
+ */
+export async function unstageGitChanges(
+  repoPath: string,
+  paths: string[] = [],
+  hunks: GitHunkSelection[] = []
+): Promise<GitStatus> {
+  const safePath = resolveSafePath(repoPath, "write");
+  ensureGitRepo(safePath);
+  
+  if (paths.length === 0 && hunks.length === 0) {
+    throw new Error("Nothing to unstage: give paths or hunks");
+  }
+  
+  if (paths.length > 0) {
+    await runGit(safePath, ["reset", "--quiet", "--", ...repoRelativePaths(safePath, paths, true)]);
+  }
+  if (hunks.length > 0) {
+    await applyHunkSelections(safePath, hunks, true);
+  }
+  
+  return getGitStatus(safePath);
+}
+
+/**
+ * Fields read for each commit by getGitLog, NUL-separated after a record
+ * separator character
+ */
+const LOG_FORMAT = "%x1e" + ["%H", "%P", "%an", "%ae", "%aI", "%D", "%B"].join("%x00");
+
+/**
+ * Parses one commit of `git log -z --numstat` output in LOG_FORMAT: the
+ * fields, then the numstat records (a rename's two paths follow its record).
+ */
+function parseLogEntry(record: string, includeFiles: boolean): GitLogEntry {
+  const [hash, parents, author, email, date, decorations, body, ...stats] = record.split("\0");
+  const message = body.trimEnd();
+  
+  const refs: string[] = [];
+  const tags: string[] = [];
+  for (const decoration of decorations ? decorations.split(", ") : []) {
+    if (decoration.startsWith("tag: ")) {
+      tags.push(decoration.slice("tag: ".length));
+    } else {
+      // "HEAD -> main" when a branch is checked out
+      refs.push(...decoration.split(" -> "));
+    }
   }
   
-  return { 
-    status: result.stdout,
-    resolved_path: safePath
+  const entry: GitLogEntry = {
+    hash,
+    author,
+    author_email: email,
+    date,
+    subject: message.split("\n")[0],
+    message,
+    parents: parents ? parents.split(" ") : [],
+    refs,
+    tags,
   };
+  if (!includeFiles) return entry;
+  
+  const files: GitCommitFileStat[] = [];
+  for (let i = 0; i < stats.length; i++) {
+    const stat = stats[i].replace(/^\n/, "");
+    if (!stat) continue;
+    
+    const [added, deleted, filePath] = stat.split("\t");
+    const file: GitCommitFileStat = {
+      path: filePath,
+      binary: added === "-",
+      additions: added === "-" ? null : Number(added),
+      deletions: deleted === "-" ? null : Number(deleted),
+    };
+    if (filePath === "") {
+      file.from = stats[++i];
+      file.path = stats[++i];
+    }
+    files.push(file);
+  }
+  
+  entry.files = files;
+  entry.additions = files.reduce((sum, file) => sum + (file.additions ?? 0), 0);
+  entry.deletions = files.reduce((sum, file) => sum + (file.deletions ?? 0), 0);
+  return entry;
 }
 
 /**
@@ -66,80 +756,227 @@ export async function getGitStatus(repoPath: string): Promise<{
  * - Finding when a feature was added
  * - Checking who made specific changes
  * - Understanding project history
+ * - Seeing which commits a branch has that another lacks (main..feature)
  * 
  * @param repoPath - Path to the git repository
- * @param maxCommits - Maximum number of commits to retrieve (default: 10)
- * @returns Array of commit information
+ * @param options - Revision or range, path, author, date and message
+ *   filters, merge handling and whether to include file stats
+ * @returns Commits, newest first, with full message, parents, refs and tags
+ *   and the lines changed per file
+ * @throws Error if a revision is unknown or a filter pattern is invalid
  */
 export async function getGitLog(
   repoPath: string,
-  maxCommits: number = 10
+  options: GitLogOptions = {}
 ): Promise<{
-  commits: GitCommit[];
+  commits: GitLogEntry[];
 }> {
+  const {
+    max_commits = 10,
+    revision,
+    paths = [],
+    author,
+    since,
+    until,
+    grep,
+    merges = "include",
+    include_files = true,
+  } = options;
   const safePath = resolveSafePath(repoPath);
   ensureGitRepo(safePath);
   
-  const result = await execCommand({
-    command: `git log -n ${maxCommits} --pretty=format:"%H|%an|%aI|%s"`,
-    cwd: safePath,
-  });
+  const output = await runGit(safePath, [
+    "log",
+    "-z",
+    `--format=${LOG_FORMAT}`,
+    `--max-count=${max_commits}`,
+    ...(include_files ? ["--numstat", "--find-renames", "--diff-merges=first-parent"] : []),
+    ...(author !== undefined ? [`--author=${author}`] : []),
+    ...(since !== undefined ? [`--since=${since}`] : []),
+    ...(until !== undefined ? [`--until=${until}`] : []),
+    ...(grep !== undefined ? [`--grep=${grep}`] : []),
+    ...(merges === "only" ? ["--merges"] : merges === "exclude" ? ["--no-merges"] : []),
+    ...(revision !== undefined ? [revision] : []),
+    "--",
+    ...repoRelativePaths(safePath, paths, true),
+  ]);
   
-  if (result.exit_code !== 0) {
-    throw new Error(`Git log failed: ${result.stderr}`);
+  const commits = output
+    .split("\x1e")
+    .filter((record) => record)
+    .map((record) => parseLogEntry(record, include_files));
+  
+  return { commits };
+}
+
+/**
+ * Lists the files a commit would record: the staged changes, or with
+ * add_all or paths everything changed (under those paths), untracked files
+ * included.
+ * 
+ * @param repoPath - Path to the repository (already validated)
+ * @param addAll - Whether all changes would be staged first
+ * @param paths - Repository-relative paths the commit is limited to
+ */
+async function commitFiles(
+  repoPath: string,
+  addAll: boolean,
+  paths?: string[]
+): Promise<string[]> {
+  const status = parseStatus(
+    await runGit(repoPath, [
+      "status",
+      "--porcelain=v2",
+      "--untracked-files=all",
+      "-z",
+      ...(paths ? ["--", ...paths] : []),
+    ])
+  );
+  
+  const files = status.staged.map((change) => change.path);
+  if (addAll || paths) {
+    files.push(
+      ...status.unstaged.map((change) => change.path),
+      ...status.untracked,
+      ...status.conflicted.map((conflict) => conflict.path)
+    );
   }
   
-  const commits: GitCommit[] = [];
-  const lines = result.stdout.trim().split("\n");
+  return [...new Set(files)];
+}
+
+/**
+ * Returns the repository-relative files that are on the deny list.
+ */
+function deniedFiles(repoPath: string, files: string[]): string[] {
+  return [...new Set(files)].filter(
+    (file) => findDeniedPattern(path.join(repoPath, file)) !== undefined
+  );
+}
+
+/**
+ * Refuses a commit that would record files on the deny list.
+ * 
+ * @throws Error naming the denied files
+ */
+function assertNoDeniedFiles(repoPath: string, files: string[]): void {
+  const denied = deniedFiles(repoPath, files);
   
-  for (const line of lines) {
-    if (!line) continue;
-    
-    const [hash, author, date, ...messageParts] = line.split("|");
-    commits.push({
-      hash: hash || "",
-      author: author || "",
-      date: date || "",
-      message: messageParts.join("|") || "",
-    });
+  if (denied.length > 0) {
+    throw new Error(
+      `Refusing to commit files on the deny list: ${denied.join(", ")}. ` +
+      `Unstage them with git_unstage, commit other files with paths, or add them to .gitignore.`
+    );
+  }
+}
+
+/**
+ * Checks commit options and works out which files the commit would record.
+ * 
+ * @throws Error if the message is missing without amend, or a file to be
+ *   committed is on the deny list
+ */
+async function planGitCommit(
+  repoPath: string,
+  options: GitCommitOptions
+): Promise<{ paths?: string[]; files: string[] }> {
+  const { message, add_all = true, amend = false } = options;
+  
+  if (!message && !amend) {
+    throw new Error("message is required unless amend is set");
   }
   
-  return { commits };
+  const paths = options.paths?.length ? repoRelativePaths(repoPath, options.paths) : undefined;
+  const files = await commitFiles(repoPath, add_all, paths);
+  assertNoDeniedFiles(repoPath, files);
+  
+  return { paths, files };
+}
+
+/**
+ * Describes what createGitCommit would do, for the confirmation preview.
+ * 
+ * @param repoPath - Path to the git repository
+ * @param options - Message, what to stage, amend, sign-off and author
+ * @returns The message, options, the commit being amended and the files
+ *   that would be committed
+ * @throws Error if the commit would be refused (see createGitCommit)
+ */
+export async function previewGitCommit(
+  repoPath: string,
+  options: GitCommitOptions
+): Promise<{
+  repo: string;
+  message: string | null;
+  add_all: boolean;
+  paths: string[] | null;
+  amend: string | null;
+  signoff: boolean;
+  author: string | null;
+  files: string[];
+}> {
+  const safePath = resolveSafePath(repoPath, "write");
+  ensureGitRepo(safePath);
+  
+  const { paths, files } = await planGitCommit(safePath, options);
+  const amend = options.amend
+    ? (await runGit(safePath, ["log", "-1", "--format=%h %s"])).trim()
+    : null;
+  
+  return {
+    repo: safePath,
+    message: options.message ?? null,
+    add_all: options.add_all ?? true,
+    paths: paths ?? null,
+    amend,
+    signoff: options.signoff ?? false,
+    author: options.author ?? null,
+    files,
+  };
 }
 
 /**
  * Creates a git commit.
  * 
+ * With `paths` only those files are committed, as they are in the working
+ * tree; other staged changes stay staged. Otherwise all changes are staged
+ * first (`add_all`, the default) or the index is committed as it is. The
+ * commit is refused if it would record a file on the deny list.
+ * 
  * **When to use this tool:**
  * - Committing code changes
  * - Saving work progress
  * - Creating a checkpoint in development
+ * - Fixing up the last commit with amend
  * 
- * **Note:** This is a write operation. The AI should confirm with the user
- * or be very confident about the commit message before using this.
+ * **Note:** This is a write operation. By default the server requires a
+ * confirmation round-trip (see previewGitCommit and core/confirm.ts).
  * 
  * @param repoPath - Path to the git repository
- * @param message - Commit message
- * @param addAll - Whether to stage all changes first (default: true)
+ * @param options - Message, what to stage, amend, sign-off and author
  * @returns Commit result
+ * @throws Error if the message is missing without amend, a path is outside
+ *   the repository, or a file to be committed is on the deny list
  */
 export async function createGitCommit(
   repoPath: string,
-  message: string,
-  addAll: boolean = true
+  options: GitCommitOptions
 ): Promise<{
   success: boolean;
   output: string;
 }> {
-  const safePath = resolveSafePath(repoPath);
+  const safePath = resolveSafePath(repoPath, "write");
   ensureGitRepo(safePath);
   
+  const { message, add_all = true, amend = false, signoff = false, author } = options;
+  const { paths } = await planGitCommit(safePath, options);
+  
   let output = "";
   
-  // Stage all changes if requested
-  if (addAll) {
+  // Stage the given paths, or all changes if requested
+  if (paths || add_all) {
     const addResult = await execCommand({
-      command: "git add -A",
+      argv: paths ? ["git", "add", "--all", "--", ...paths] : ["git", "add", "-A"],
       cwd: safePath,
     });
     
@@ -150,14 +987,20 @@ export async function createGitCommit(
       };
     }
     
-    output += "Staged all changes.\n";
+    output += paths ? `Staged ${paths.join(", ")}.\n` : "Staged all changes.\n";
   }
   
   // Create commit
-  // Escape single quotes in commit message
-  const escapedMessage = message.replace(/'/g, "'\\''");
   const commitResult = await execCommand({
-    command: `git commit -m '${escapedMessage}'`,
+    argv: [
+      "git",
+      "commit",
+      ...(message ? ["-m", message] : ["--no-edit"]),
+      ...(amend ? ["--amend"] : []),
+      ...(signoff ? ["--signoff"] : []),
+      ...(author ? [`--author=${author}`] : []),
+      ...(paths ? ["--", ...paths] : []),
+    ],
     cwd: safePath,
   });
   
@@ -169,35 +1012,158 @@ export async function createGitCommit(
   };
 }
 
+/**
+ * Gets the branch HEAD points to.
+ * 
+ * @returns The branch name (also before its first commit), or null if HEAD is detached
+ */
+async function currentBranch(repoPath: string): Promise<string | null> {
+  const result = await execCommand({
+    argv: ["git", "symbolic-ref", "--quiet", "--short", "HEAD"],
+    cwd: repoPath,
+  });
+  return result.exit_code === 0 ? result.stdout.trim() : null;
+}
+
+/**
+ * Reads a git config value.
+ * 
+ * @returns The value, or null if it is not set
+ */
+async function readGitConfig(repoPath: string, key: string): Promise<string | null> {
+  const result = await execCommand({
+    argv: ["git", "config", "--get", key],
+    cwd: repoPath,
+  });
+  return result.exit_code === 0 ? result.stdout.trim() : null;
+}
+
+/**
+ * Works out where a push goes. The branch defaults to the current one; the
+ * remote defaults to the branch's upstream remote, then "origin". Pushing to
+ * the upstream remote updates the upstream branch, which may have another
+ * name; a branch without an upstream gets one.
+ * 
+ * @throws Error if no branch is given and HEAD is detached
+ */
+async function resolvePushTarget(
+  repoPath: string,
+  remote?: string,
+  branch?: string
+): Promise<{ remote: string; branch: string; remote_branch: string; set_upstream: boolean }> {
+  const localBranch = branch ?? (await currentBranch(repoPath));
+  if (!localBranch) {
+    throw new Error("HEAD is detached; give the branch to push");
+  }
+  
+  const upstreamRemote = await readGitConfig(repoPath, `branch.${localBranch}.remote`);
+  const upstreamMerge = await readGitConfig(repoPath, `branch.${localBranch}.merge`);
+  const target = remote ?? upstreamRemote ?? "origin";
+  const tracksTarget = upstreamRemote === target && upstreamMerge?.startsWith("refs/heads/");
+  
+  return {
+    remote: target,
+    branch: localBranch,
+    remote_branch: tracksTarget ? upstreamMerge!.slice("refs/heads/".length) : localBranch,
+    set_upstream: upstreamRemote === null,
+  };
+}
+
+/**
+ * Describes what pushGitCommit would do, for the confirmation preview.
+ * 
+ * @param repoPath - Path to the git repository
+ * @param remote - Remote name (default: the branch's upstream remote, or "origin")
+ * @param branch - Branch name (default: the current branch)
+ * @returns The target and the commits not yet on the remote branch
+ */
+export async function previewGitPush(
+  repoPath: string,
+  remote?: string,
+  branch?: string
+): Promise<{
+  repo: string;
+  remote: string;
+  branch: string;
+  remote_branch: string;
+  set_upstream: boolean;
+  commits: string[];
+}> {
+  const safePath = resolveSafePath(repoPath, "write");
+  ensureGitRepo(safePath);
+  
+  const target = await resolvePushTarget(safePath, remote, branch);
+  
+  // If the remote branch does not exist yet, show the most recent commits
+  const tracking = await execCommand({
+    argv: [
+      "git",
+      "rev-parse",
+      "--verify",
+      "--quiet",
+      `refs/remotes/${target.remote}/${target.remote_branch}`,
+    ],
+    cwd: safePath,
+  });
+  const range = tracking.exit_code === 0
+    ? [`refs/remotes/${target.remote}/${target.remote_branch}..refs/heads/${target.branch}`]
+    : ["-n", "20", `refs/heads/${target.branch}`];
+  
+  const result = await execCommand({
+    argv: ["git", "log", "--oneline", ...range, "--"],
+    cwd: safePath,
+  });
+  
+  return {
+    repo: safePath,
+    ...target,
+    commits: result.stdout.split("\n").filter((line) => line.trim()),
+  };
+}
+
 /**
  * Pushes commits to a remote repository.
  * 
+ * Without arguments the current branch is pushed to its upstream. A branch
+ * without an upstream is pushed under its own name and the pushed branch
+ * becomes its upstream.
+ * 
  * **When to use this tool:**
  * - Pushing committed changes to remote
  * - Syncing local work to GitHub/GitLab
  * - Publishing changes
  * 
- * **Note:** This is a write operation that affects remote state.
- * The AI should be careful when using this tool.
+ * **Note:** This is a write operation that affects remote state. By default
+ * the server requires a confirmation round-trip (see previewGitPush).
  * 
  * @param repoPath - Path to the git repository
- * @param remote - Remote name (default: "origin")
- * @param branch - Branch name (default: "main")
+ * @param remote - Remote name (default: the branch's upstream remote, or "origin")
+ * @param branch - Branch name (default: the current branch)
  * @returns Push result
+ * @throws Error if no branch is given and HEAD is detached
  */
 export async function pushGitCommit(
   repoPath: string,
-  remote: string = "origin",
-  branch: string = "main"
+  remote?: string,
+  branch?: string
 ): Promise<{
   success: boolean;
   output: string;
 }> {
-  const safePath = resolveSafePath(repoPath);
+  const safePath = resolveSafePath(repoPath, "write");
   ensureGitRepo(safePath);
   
+  const target = await resolvePushTarget(safePath, remote, branch);
+  
   const result = await execCommand({
-    command: `git push ${remote} ${branch}`,
+    argv: [
+      "git",
+      "push",
+      ...(target.set_upstream ? ["--set-upstream"] : []),
+      "--",
+      target.remote,
+      `refs/heads/${target.branch}:refs/heads/${target.remote_branch}`,
+    ],
     cwd: safePath,
     timeout_seconds: 30, // Push might take longer
   });
@@ -208,3 +1174,757 @@ export async function pushGitCommit(
   };
 }
 
+/**
+ * Fields read for each branch by listGitBranches, NUL-separated
+ */
+const BRANCH_FORMAT = [
+  "%(refname)",
+  "%(refname:short)",
+  "%(HEAD)",
+  "%(upstream:short)",
+  "%(upstream:track,nobracket)",
+  "%(objectname)",
+  "%(authorname)",
+  "%(authordate:iso-strict)",
+  "%(subject)",
+].join("%00");
+
+/**
+ * Lists branches with their upstream, last commit and merge status.
+ * 
+ * **When to use this tool:**
+ * - Seeing which branches exist and which one is checked out
+ * - Finding branches that are merged and can be deleted
+ * - Checking which branches are ahead of or behind their upstream
+ * 
+ * @param repoPath - Path to the git repository
+ * @param includeRemote - Also list remote-tracking branches (default: false)
+ * @param mergedInto - Revision that merged status is checked against (default: HEAD)
+ * @returns The current branch (null if HEAD is detached) and the branches,
+ *   by name
+ */
+export async function listGitBranches(
+  repoPath: string,
+  includeRemote: boolean = false,
+  mergedInto: string = "HEAD"
+): Promise<{
+  current: string | null;
+  merged_into: string;
+  branches: GitBranch[];
+}> {
+  const safePath = resolveSafePath(repoPath);
+  ensureGitRepo(safePath);
+  
+  const patterns = includeRemote ? ["refs/heads", "refs/remotes"] : ["refs/heads"];
+  const output = await runGit(safePath, ["for-each-ref", `--format=${BRANCH_FORMAT}`, ...patterns]);
+  
+  // Before the first commit HEAD cannot be resolved and nothing is merged
+  const target = await execCommand({
+    argv: ["git", "rev-parse", "--verify", "--quiet", `${mergedInto}^{commit}`],
+    cwd: safePath,
+  });
+  const merged = new Set<string>();
+  if (target.exit_code === 0) {
+    const refs = await runGit(safePath, [
+      "for-each-ref",
+      `--merged=${target.stdout.trim()}`,
+      "--format=%(refname)",
+      ...patterns,
+    ]);
+    refs.split("\n").forEach((ref) => merged.add(ref));
+  } else if (mergedInto !== "HEAD") {
+    throw new Error(`Unknown revision: ${mergedInto}`);
+  }
+  
+  const branches: GitBranch[] = [];
+  for (const line of output.split("\n")) {
+    if (!line) continue;
+    
+    const [ref, name, head, upstream, track, hash, author, date, subject] = line.split("\0");
+    // Skip symbolic refs such as origin/HEAD
+    if (ref.startsWith("refs/remotes/") && ref.endsWith("/HEAD")) continue;
+    
+    const ahead = /ahead (\d+)/.exec(track);
+    const behind = /behind (\d+)/.exec(track);
+    const gone = track === "gone";
+    
+    branches.push({
+      name,
+      remote: ref.startsWith("refs/remotes/"),
+      current: head === "*",
+      upstream: upstream || null,
+      ahead: upstream && !gone ? Number(ahead?.[1] ?? 0) : null,
+      behind: upstream && !gone ? Number(behind?.[1] ?? 0) : null,
+      upstream_gone: gone,
+      merged: merged.has(ref),
+      last_commit: { hash, author, date, message: subject },
+    });
+  }
+  
+  return {
+    current: await currentBranch(safePath),
+    merged_into: mergedInto,
+    branches,
+  };
+}
+
+/**
+ * Creates a branch.
+ * 
+ * **When to use this tool:**
+ * - Starting work on a feature or fix
+ * - Keeping a pointer to the current state before risky changes
+ * 
+ * @param repoPath - Path to the git repository
+ * @param name - Name of the new branch
+ * @param startPoint - Commit or branch to start from (default: HEAD)
+ * @param checkout - Switch to the new branch (default: false)
+ * @returns The branch, the commit it points to and whether it was checked out
+ * @throws Error if the name is invalid or the branch already exists
+ */
+export async function createGitBranch(
+  repoPath: string,
+  name: string,
+  startPoint?: string,
+  checkout: boolean = false
+): Promise<{
+  branch: string;
+  head: string;
+  checked_out: boolean;
+}> {
+  const safePath = resolveSafePath(repoPath, "write");
+  ensureGitRepo(safePath);
+  
+  await runGit(safePath, ["check-ref-format", "--branch", name]);
+  const start = startPoint ? [startPoint] : [];
+  await runGit(safePath, checkout ? ["switch", "--create", name, ...start] : ["branch", name, ...start]);
+  
+  return {
+    branch: name,
+    head: (await runGit(safePath, ["rev-parse", `refs/heads/${name}`])).trim(),
+    checked_out: checkout,
+  };
+}
+
+/**
+ * Switches to another branch.
+ * 
+ * Refuses while there are staged, unstaged or conflicted changes, unless
+ * `stash` is set: then they are stashed first and stay in the stash. If the
+ * switch fails, the stash is applied again. A name that only exists as a
+ * remote-tracking branch (e.g. origin/feature) creates a local branch
+ * tracking it.
+ * 
+ * **When to use this tool:**
+ * - Moving to a different line of work
+ * - Checking out a colleague's branch from the remote
+ * 
+ * @param repoPath - Path to the git repository
+ * @param branch - Branch to switch to
+ * @param stash - Stash uncommitted changes instead of refusing (default: false)
+ * @returns The branch switched from and to, and the stash entry if one was made
+ * @throws Error if the working tree has changes and stash is not set, or git
+ *   cannot switch
+ */
+export async function checkoutGitBranch(
+  repoPath: string,
+  branch: string,
+  stash: boolean = false
+): Promise<{
+  previous: string | null;
+  branch: string;
+  stashed: string | null;
+}> {
+  const safePath = resolveSafePath(repoPath, "write");
+  ensureGitRepo(safePath);
+  
+  const previous = await currentBranch(safePath);
+  const status = parseStatus(
+    await runGit(safePath, ["status", "--porcelain=v2", "--untracked-files=no", "-z"])
+  );
+  const dirty =
+    status.staged.length > 0 || status.unstaged.length > 0 || status.conflicted.length > 0;
+  
+  let stashed: string | null = null;
+  if (dirty) {
+    if (!stash) {
+      throw new Error(
+        `The working tree has uncommitted changes; commit them, or set stash to stash them before switching to ${branch}`
+      );
+    }
+    stashed = `Before switching from ${previous ?? "detached HEAD"} to ${branch}`;
+    await runGit(safePath, ["stash", "push", "--message", stashed]);
+  }
+  
+  try {
+    await runGit(safePath, ["switch", branch]);
+  } catch (error) {
+    if (stashed) {
+      await runGit(safePath, ["stash", "pop", "--index"]);
+    }
+    throw error;
+  }
+  
+  return { previous, branch, stashed };
+}
+
+/**
+ * Renames a branch.
+ * 
+ * @param repoPath - Path to the git repository
+ * @param name - Current name of the branch
+ * @param newName - New name
+ * @returns The old and new names
+ * @throws Error if the branch does not exist or the new name is invalid or taken
+ */
+export async function renameGitBranch(
+  repoPath: string,
+  name: string,
+  newName: string
+): Promise<{
+  old_name: string;
+  new_name: string;
+}> {
+  const safePath = resolveSafePath(repoPath, "write");
+  ensureGitRepo(safePath);
+  
+  await runGit(safePath, ["check-ref-format", "--branch", newName]);
+  await runGit(safePath, ["branch", "--move", name, newName]);
+  
+  return { old_name: name, new_name: newName };
+}
+
+/**
+ * Lists commits on a branch that no other branch or remote-tracking branch
+ * contains: the work lost if the branch is deleted.
+ */
+async function unmergedCommits(repoPath: string, name: string): Promise<string[]> {
+  const output = await runGit(repoPath, [
+    "log",
+    "--oneline",
+    "-n",
+    "20",
+    `refs/heads/${name}`,
+    "--not",
+    `--exclude=${name}`,
+    "--branches",
+    "--remotes",
+    "--",
+  ]);
+  return output.split("\n").filter((line) => line.trim());
+}
+
+/**
+ * Describes what deleteGitBranch would do, for the confirmation preview.
+ * 
+ * @param repoPath - Path to the git repository
+ * @param name - Branch to delete
+ * @param force - Whether unmerged work would be deleted too
+ * @returns The branch, its last commit and the commits only it contains
+ *   (at most 20)
+ */
+export async function previewDeleteGitBranch(
+  repoPath: string,
+  name: string,
+  force: boolean = false
+): Promise<{
+  repo: string;
+  branch: string;
+  head: string;
+  force: boolean;
+  unmerged_commits: string[];
+}> {
+  const safePath = resolveSafePath(repoPath, "write");
+  ensureGitRepo(safePath);
+  
+  return {
+    repo: safePath,
+    branch: name,
+    head: (await runGit(safePath, ["rev-parse", "--verify", `refs/heads/${name}`])).trim(),
+    force,
+    unmerged_commits: await unmergedCommits(safePath, name),
+  };
+}
+
+/**
+ * Deletes a local branch.
+ * 
+ * Refuses to delete the current branch, and, unless `force` is set, a
+ * branch with commits that no other branch or remote contains or that git
+ * does not consider merged into HEAD or the branch's upstream.
+ * 
+ * **When to use this tool:**
+ * - Cleaning up branches that have been merged
+ * 
+ * **Note:** This is a destructive operation. By default the server requires
+ * a confirmation round-trip (see previewDeleteGitBranch).
+ * 
+ * @param repoPath - Path to the git repository
+ * @param name - Branch to delete
+ * @param force - Delete even if the branch has unmerged work (default: false)
+ * @returns The deleted branch and the commit it pointed to, to recreate it
+ *   with git_branch_create if needed
+ * @throws Error if the branch is checked out or has unmerged work without force
+ */
+export async function deleteGitBranch(
+  repoPath: string,
+  name: string,
+  force: boolean = false
+): Promise<{
+  branch: string;
+  head: string;
+}> {
+  const safePath = resolveSafePath(repoPath, "write");
+  ensureGitRepo(safePath);
+  
+  if ((await currentBranch(safePath)) === name) {
+    throw new Error(`Cannot delete ${name}: it is the current branch`);
+  }
+  
+  const head = (await runGit(safePath, ["rev-parse", "--verify", `refs/heads/${name}`])).trim();
+  if (!force) {
+    const commits = await unmergedCommits(safePath, name);
+    if (commits.length > 0) {
+      throw new Error(
+        `Branch ${name} has ${commits.length === 20 ? "20 or more" : commits.length} commit(s) ` +
+        `that no other branch contains; set force to delete it anyway`
+      );
+    }
+  }
+  
+  await runGit(safePath, ["branch", force ? "-D" : "-d", name]);
+  
+  return { branch: name, head };
+}
+
+/**
+ * Git tools exposed by the server
+ */
+export const gitTools: ToolDefinition[] = [
+  {
+    name: "git_status",
+    description:
+      "Gets the git status of a repository: current branch, upstream and ahead/behind counts, staged and unstaged changes (with change kind and rename sources), untracked and conflicted files, stash count, and whether a merge, rebase, cherry-pick or revert is in progress.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        repo_path: {
+          type: "string",
+          description: "Path to the git repository",
+        },
+      },
+      required: ["repo_path"],
+    },
+    handler: (args: { repo_path: string }) => getGitStatus(args.repo_path),
+  },
+  {
+    name: "git_diff",
+    description:
+      "Shows what changed in a repository as structured per-file diffs: change kind, rename source, lines added and deleted, and hunks whose lines carry old and new line numbers. Deny-listed files are listed without hunks. Compares the working tree with the index by default; set staged to compare the index with HEAD, from to compare with a revision, or from and to to compare two revisions. Untracked files are not included. Long diffs are cut per file (max_lines_per_file) and overall; use stat_only for just the file list and counts.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        repo_path: {
+          type: "string",
+          description: "Path to the git repository",
+        },
+        staged: {
+          type: "boolean",
+          description: "Compare the index (staged changes) instead of the working tree (default: false)",
+        },
+        from: {
+          type: "string",
+          pattern: "[^-].*",
+          description: "Revision to compare from, e.g. HEAD~3 or main (default: the index, or HEAD when staged)",
+        },
+        to: {
+          type: "string",
+          pattern: "[^-].*",
+          description: "Revision to compare to; requires from (default: the working tree, or the index when staged)",
+        },
+        paths: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          description: "Only show changes to these paths, relative to the repository (git pathspecs)",
+        },
+        context_lines: {
+          type: "integer",
+          minimum: 0,
+          maximum: 100,
+          description: "Lines of context around each change (default: 3)",
+        },
+        stat_only: {
+          type: "boolean",
+          description: "Only list changed files with lines added and deleted, without hunks (default: false)",
+        },
+        max_lines_per_file: {
+          type: "integer",
+          minimum: 1,
+          maximum: 5000,
+          description: "Most hunk lines returned per file; the rest is reported as omitted_lines (default: 300)",
+        },
+      },
+      required: ["repo_path"],
+    },
+    handler: (args: { repo_path: string } & GitDiffOptions) =>
+      getGitDiff(args.repo_path, args),
+  },
+  {
+    name: "git_log",
+    description:
+      "Retrieves commit history: hash, author and email, date, full message, parent hashes, branches and tags pointing at each commit, and lines added and deleted per file. Filter by revision or range (e.g. main..feature), paths, author, date range, message pattern, and include, only list or leave out merge commits.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        repo_path: {
+          type: "string",
+          description: "Path to the git repository",
+        },
+        max_commits: {
+          type: "integer",
+          minimum: 1,
+          maximum: 1000,
+          description: "Maximum number of commits to retrieve (default: 10)",
+        },
+        revision: {
+          type: "string",
+          pattern: "[^-].*",
+          description: "Branch, commit or range to list, e.g. main, v1.0..HEAD or main..feature (default: HEAD)",
+        },
+        paths: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          description: "Only commits touching these paths, relative to the repository",
+        },
+        author: {
+          type: "string",
+          minLength: 1,
+          description: "Only commits whose author name or email matches this regular expression",
+        },
+        since: {
+          type: "string",
+          minLength: 1,
+          description: 'Only commits after this date, e.g. 2024-05-01 or "2 weeks ago"',
+        },
+        until: {
+          type: "string",
+          minLength: 1,
+          description: "Only commits before this date",
+        },
+        grep: {
+          type: "string",
+          minLength: 1,
+          description: "Only commits whose message matches this regular expression",
+        },
+        merges: {
+          type: "string",
+          enum: ["include", "only", "exclude"],
+          description: "Include merge commits, list only merges, or leave them out (default: include)",
+        },
+        include_files: {
+          type: "boolean",
+          description: "Include lines added and deleted per file; merges are compared with their first parent (default: true)",
+        },
+      },
+      required: ["repo_path"],
+    },
+    handler: (args: { repo_path: string } & GitLogOptions) => getGitLog(args.repo_path, args),
+  },
+  {
+    name: "git_stage",
+    description:
+      "Stages files or selected hunks for the next commit. paths stages whole files or directories (including deletions and untracked files); hunks stages single hunks of a file, numbered from 0 in the order git_diff lists the file's unstaged hunks with the default context. Deny-listed paths are refused, as are directories or globs that would stage a deny-listed file. Returns the updated status.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repo_path: {
+          type: "string",
+          description: "Path to the git repository",
+        },
+        paths: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          description: "Files or directories to stage, relative to the repository",
+        },
+        hunks: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              path: { type: "string", minLength: 1 },
+              hunks: {
+                type: "array",
+                items: { type: "integer", minimum: 0 },
+                minItems: 1,
+                description: "Hunk positions, from 0",
+              },
+            },
+            required: ["path", "hunks"],
+          },
+          description: "Hunks of files to stage",
+        },
+      },
+      required: ["repo_path"],
+    },
+    handler: (args: { repo_path: string; paths?: string[]; hunks?: GitHunkSelection[] }) =>
+      stageGitChanges(args.repo_path, args.paths, args.hunks),
+  },
+  {
+    name: "git_unstage",
+    description:
+      "Removes files or selected hunks from the index, leaving the working tree unchanged. hunks are numbered from 0 in the order git_diff lists the file's staged hunks (staged: true) with the default context. Returns the updated status.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repo_path: {
+          type: "string",
+          description: "Path to the git repository",
+        },
+        paths: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          description: "Files or directories to unstage, relative to the repository",
+        },
+        hunks: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              path: { type: "string", minLength: 1 },
+              hunks: {
+                type: "array",
+                items: { type: "integer", minimum: 0 },
+                minItems: 1,
+                description: "Hunk positions, from 0",
+              },
+            },
+            required: ["path", "hunks"],
+          },
+          description: "Hunks of files to unstage",
+        },
+      },
+      required: ["repo_path"],
+    },
+    handler: (args: { repo_path: string; paths?: string[]; hunks?: GitHunkSelection[] }) =>
+      unstageGitChanges(args.repo_path, args.paths, args.hunks),
+  },
+  {
+    name: "git_commit",
+    description:
+      "Creates a git commit with the specified message. By default stages all changes first; with paths only those files are committed (their current contents), leaving other staged changes alone; with add_all false the index is committed as it is. Can amend the last commit, add a Signed-off-by trailer and override the author. Refuses to commit files on the deny list (.env, keys, ...). This is a write operation - use carefully. Requires confirmation: the first call returns a preview and a confirmation_token; repeat the call with that token to execute.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repo_path: {
+          type: "string",
+          description: "Path to the git repository",
+        },
+        message: {
+          type: "string",
+          minLength: 1,
+          description: "Commit message (optional with amend, which then keeps the previous message)",
+        },
+        add_all: {
+          type: "boolean",
+          description: "Stage all changes before committing (default: true; ignored when paths is given)",
+        },
+        paths: {
+          type: "array",
+          items: { type: "string", minLength: 1 },
+          description: "Commit only these files or directories, relative to the repository",
+        },
+        amend: {
+          type: "boolean",
+          description: "Replace the last commit instead of creating a new one (default: false)",
+        },
+        signoff: {
+          type: "boolean",
+          description: "Add a Signed-off-by trailer (default: false)",
+        },
+        author: {
+          type: "string",
+          pattern: "[^<>]+ <[^<>]+>",
+          description: 'Author as "Name <email>" (default: the configured user)',
+        },
+        confirmation_token: CONFIRMATION_TOKEN_SCHEMA,
+      },
+      required: ["repo_path"],
+    },
+    handler: (args: { repo_path: string } & GitCommitOptions) =>
+      createGitCommit(args.repo_path, args),
+    preview: (args: { repo_path: string } & GitCommitOptions) =>
+      previewGitCommit(args.repo_path, args),
+  },
+  {
+    name: "git_push",
+    description:
+      "Pushes commits to a remote repository. Defaults to the current branch and its upstream; a branch without an upstream is pushed under its own name (to origin unless remote is given) and gets the pushed branch as upstream. This is a write operation that affects remote state - use carefully. Requires confirmation: the first call returns a preview and a confirmation_token; repeat the call with that token to execute.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repo_path: {
+          type: "string",
+          description: "Path to the git repository",
+        },
+        remote: {
+          type: "string",
+          minLength: 1,
+          description: "Remote name (default: the branch's upstream remote, or origin)",
+        },
+        branch: {
+          type: "string",
+          minLength: 1,
+          description: "Local branch to push (default: the current branch)",
+        },
+        confirmation_token: CONFIRMATION_TOKEN_SCHEMA,
+      },
+      required: ["repo_path"],
+    },
+    handler: (args: { repo_path: string; remote?: string; branch?: string }) =>
+      pushGitCommit(args.repo_path, args.remote, args.branch),
+    preview: (args: { repo_path: string; remote?: string; branch?: string }) =>
+      previewGitPush(args.repo_path, args.remote, args.branch),
+  },
+  {
+    name: "git_branch_list",
+    description:
+      "Lists branches with the current one marked, each branch's upstream and ahead/behind counts (or whether the upstream is gone), last commit, and whether it is fully merged into HEAD (or merged_into). Set include_remote to list remote-tracking branches too.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        repo_path: {
+          type: "string",
+          description: "Path to the git repository",
+        },
+        include_remote: {
+          type: "boolean",
+          description: "Also list remote-tracking branches such as origin/main (default: false)",
+        },
+        merged_into: {
+          type: "string",
+          pattern: "[^-].*",
+          description: "Revision to check merged status against (default: HEAD)",
+        },
+      },
+      required: ["repo_path"],
+    },
+    handler: (args: { repo_path: string; include_remote?: boolean; merged_into?: string }) =>
+      listGitBranches(args.repo_path, args.include_remote, args.merged_into),
+  },
+  {
+    name: "git_branch_create",
+    description:
+      "Creates a branch at HEAD or at start_point, optionally switching to it.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repo_path: {
+          type: "string",
+          description: "Path to the git repository",
+        },
+        name: {
+          type: "string",
+          pattern: "[^-].*",
+          description: "Name of the new branch",
+        },
+        start_point: {
+          type: "string",
+          pattern: "[^-].*",
+          description: "Commit or branch to start from (default: HEAD)",
+        },
+        checkout: {
+          type: "boolean",
+          description: "Switch to the new branch (default: false)",
+        },
+      },
+      required: ["repo_path", "name"],
+    },
+    handler: (args: { repo_path: string; name: string; start_point?: string; checkout?: boolean }) =>
+      createGitBranch(args.repo_path, args.name, args.start_point, args.checkout),
+  },
+  {
+    name: "git_checkout",
+    description:
+      "Switches to a branch. Refuses while there are uncommitted changes to tracked files unless stash is set, which stashes them first (they stay in the stash). A name that only exists on a remote (e.g. feature for origin/feature) creates a local tracking branch.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repo_path: {
+          type: "string",
+          description: "Path to the git repository",
+        },
+        branch: {
+          type: "string",
+          pattern: "[^-].*",
+          description: "Branch to switch to",
+        },
+        stash: {
+          type: "boolean",
+          description: "Stash uncommitted changes instead of refusing (default: false)",
+        },
+      },
+      required: ["repo_path", "branch"],
+    },
+    handler: (args: { repo_path: string; branch: string; stash?: boolean }) =>
+      checkoutGitBranch(args.repo_path, args.branch, args.stash),
+  },
+  {
+    name: "git_branch_rename",
+    description: "Renames a local branch.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repo_path: {
+          type: "string",
+          description: "Path to the git repository",
+        },
+        name: {
+          type: "string",
+          pattern: "[^-].*",
+          description: "Current name of the branch",
+        },
+        new_name: {
+          type: "string",
+          pattern: "[^-].*",
+          description: "New name",
+        },
+      },
+      required: ["repo_path", "name", "new_name"],
+    },
+    handler: (args: { repo_path: string; name: string; new_name: string }) =>
+      renameGitBranch(args.repo_path, args.name, args.new_name),
+  },
+  {
+    name: "git_branch_delete",
+    description:
+      "Deletes a local branch. Refuses the current branch, and without force a branch with commits no other branch or remote contains, or that is not merged into HEAD or its upstream. Returns the commit the branch pointed to so it can be recreated. Requires confirmation: the first call returns a preview (including the commits only this branch has) and a confirmation_token; repeat the call with that token to execute.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repo_path: {
+          type: "string",
+          description: "Path to the git repository",
+        },
+        name: {
+          type: "string",
+          pattern: "[^-].*",
+          description: "Branch to delete",
+        },
+        force: {
+          type: "boolean",
+          description: "Delete even if the branch has unmerged work (default: false)",
+        },
+        confirmation_token: CONFIRMATION_TOKEN_SCHEMA,
+      },
+      required: ["repo_path", "name"],
+    },
+    handler: (args: { repo_path: string; name: string; force?: boolean }) =>
+      deleteGitBranch(args.repo_path, args.name, args.force),
+    preview: (args: { repo_path: string; name: string; force?: boolean }) =>
+      previewDeleteGitBranch(args.repo_path, args.name, args.force),
+  },
+];
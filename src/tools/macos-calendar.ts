@@ -6,6 +6,8 @@
  */
 
 import { execCommand } from "../core/exec.js";
+import { escapeAppleScriptString } from "../core/applescript.js";
+import type { ToolDefinition } from "../core/types.js";
 
 export interface CalendarEvent {
   summary: string;
@@ -57,7 +59,7 @@ export async function listCalendarEvents(
   `;
   
   const result = await execCommand({
-    command: `osascript -e '${script.replace(/'/g, "'\\''")}'`,
+    argv: ["osascript", "-e", script],
     timeout_seconds: 15,
     max_output_chars: 50000,
   });
@@ -114,24 +116,24 @@ export async function createCalendarEvent(
   event_summary: string;
   start_date: string;
 }> {
-  const escapedSummary = summary.replace(/'/g, "'\\''");
-  const escapedLocation = location ? location.replace(/'/g, "'\\''") : "";
+  const escapedSummary = escapeAppleScriptString(summary);
+  const escapedLocation = location ? escapeAppleScriptString(location) : "";
   
   const locationScript = location ? `, location:"${escapedLocation}"` : "";
   
   const script = `
     tell application "Calendar"
-      set startDate to date "${start_date}"
+      set startDate to date "${escapeAppleScriptString(start_date)}"
       set endDate to startDate + (${duration_minutes} * minutes)
       
-      ${calendar ? `tell calendar "${calendar}"` : ""}
+      ${calendar ? `tell calendar "${escapeAppleScriptString(calendar)}"` : ""}
         make new event with properties {summary:"${escapedSummary}", start date:startDate, end date:endDate${locationScript}}
       ${calendar ? "end tell" : ""}
     end tell
   `;
   
   const result = await execCommand({
-    command: `osascript -e '${script.replace(/'/g, "'\\''")}'`,
+    argv: ["osascript", "-e", script],
     timeout_seconds: 10,
   });
   
@@ -167,8 +169,8 @@ export async function checkAvailability(
 }> {
   const script = `
     tell application "Calendar"
-      set startDate to date "${start_date}"
-      set endDate to date "${end_date}"
+      set startDate to date "${escapeAppleScriptString(start_date)}"
+      set endDate to date "${escapeAppleScriptString(end_date)}"
       set conflictsList to {}
       
       repeat with aCalendar in calendars
@@ -183,7 +185,7 @@ export async function checkAvailability(
   `;
   
   const result = await execCommand({
-    command: `osascript -e '${script.replace(/'/g, "'\\''")}'`,
+    argv: ["osascript", "-e", script],
     timeout_seconds: 10,
   });
   
@@ -238,7 +240,7 @@ export async function listCalendars(): Promise<{
   `;
   
   const result = await execCommand({
-    command: `osascript -e '${script.replace(/'/g, "'\\''")}'`,
+    argv: ["osascript", "-e", script],
     timeout_seconds: 5,
   });
   
@@ -251,3 +253,117 @@ export async function listCalendars(): Promise<{
   return { calendars };
 }
 
+/**
+ * Calendar tools exposed by the server
+ */
+export const calendarTools: ToolDefinition[] = [
+  {
+    name: "macos_calendar_list_events",
+    description:
+      "Lists upcoming calendar events from Apple Calendar.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        days_ahead: {
+          type: "integer",
+          minimum: 1,
+          maximum: 365,
+          description: "Number of days to look ahead (default: 7)",
+        },
+        limit: {
+          type: "integer",
+          minimum: 1,
+          description: "Maximum events to return (default: 20)",
+        },
+      },
+    },
+    handler: (args: { days_ahead?: number; limit?: number }) =>
+      listCalendarEvents(args.days_ahead, args.limit),
+  },
+  {
+    name: "macos_calendar_create_event",
+    description:
+      "Creates a new calendar event in Apple Calendar.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        summary: {
+          type: "string",
+          minLength: 1,
+          maxLength: 500,
+          description: "Event title/summary",
+        },
+        start_date: {
+          type: "string",
+          minLength: 1,
+          description: "Start date/time (e.g., 'tomorrow at 2pm', '12/25/2024 10:00 AM')",
+        },
+        duration_minutes: {
+          type: "integer",
+          minimum: 1,
+          maximum: 10_080,
+          description: "Event duration in minutes (default: 60)",
+        },
+        location: {
+          type: "string",
+          description: "Optional location",
+        },
+        calendar: {
+          type: "string",
+          description: "Calendar name (optional)",
+        },
+      },
+      required: ["summary", "start_date"],
+    },
+    handler: (args: {
+      summary: string;
+      start_date: string;
+      duration_minutes?: number;
+      location?: string;
+      calendar?: string;
+    }) =>
+      createCalendarEvent(
+        args.summary,
+        args.start_date,
+        args.duration_minutes,
+        args.location,
+        args.calendar
+      ),
+  },
+  {
+    name: "macos_calendar_check_availability",
+    description:
+      "Checks calendar availability for a time range.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        start_date: {
+          type: "string",
+          minLength: 1,
+          description: "Start date/time to check",
+        },
+        end_date: {
+          type: "string",
+          minLength: 1,
+          description: "End date/time to check",
+        },
+      },
+      required: ["start_date", "end_date"],
+    },
+    handler: (args: { start_date: string; end_date: string }) =>
+      checkAvailability(args.start_date, args.end_date),
+  },
+  {
+    name: "macos_calendar_list",
+    description:
+      "Lists all available calendars.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    handler: () => listCalendars(),
+  },
+];
@@ -6,6 +6,8 @@
  */
 
 import { execCommand } from "../core/exec.js";
+import { CONFIRMATION_TOKEN_SCHEMA } from "../core/confirm.js";
+import type { ToolDefinition } from "../core/types.js";
 
 /**
  * Copies text to the clipboard.
@@ -23,7 +25,8 @@ export async function copyToClipboard(text: string): Promise<{
   chars_copied: number;
 }> {
   const result = await execCommand({
-    command: `echo '${text.replace(/'/g, "'\\''")}' | pbcopy`,
+    argv: ["pbcopy"],
+    input: text,
     timeout_seconds: 5,
   });
   
@@ -52,7 +55,7 @@ export async function readFromClipboard(): Promise<{
   chars_read: number;
 }> {
   const result = await execCommand({
-    command: "pbpaste",
+    argv: ["pbpaste"],
     timeout_seconds: 5,
     max_output_chars: 100000,
   });
@@ -67,6 +70,23 @@ export async function readFromClipboard(): Promise<{
   };
 }
 
+/**
+ * Describes what clearClipboard would discard, for the confirmation preview.
+ * 
+ * @returns Length and the beginning of the current clipboard contents
+ */
+export async function previewClearClipboard(): Promise<{
+  current_chars: number;
+  current_preview: string;
+}> {
+  const { content } = await readFromClipboard();
+  
+  return {
+    current_chars: content.length,
+    current_preview: content.length > 200 ? content.slice(0, 200) + "..." : content,
+  };
+}
+
 /**
  * Clears the clipboard.
  * 
@@ -80,7 +100,8 @@ export async function clearClipboard(): Promise<{
   success: boolean;
 }> {
   const result = await execCommand({
-    command: "echo '' | pbcopy",
+    argv: ["pbcopy"],
+    input: "",
     timeout_seconds: 5,
   });
   
@@ -93,3 +114,48 @@ export async function clearClipboard(): Promise<{
   };
 }
 
+/**
+ * Clipboard tools exposed by the server
+ */
+export const clipboardTools: ToolDefinition[] = [
+  {
+    name: "macos_clipboard_copy",
+    description:
+      "Copies text to the system clipboard.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        text: {
+          type: "string",
+          description: "Text to copy to clipboard",
+        },
+      },
+      required: ["text"],
+    },
+    handler: (args: { text: string }) => copyToClipboard(args.text),
+  },
+  {
+    name: "macos_clipboard_read",
+    description:
+      "Reads text from the system clipboard.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    handler: () => readFromClipboard(),
+  },
+  {
+    name: "macos_clipboard_clear",
+    description:
+      "Clears the system clipboard. Requires confirmation: the first call returns a preview and a confirmation_token; repeat the call with that token to execute.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        confirmation_token: CONFIRMATION_TOKEN_SCHEMA,
+      },
+    },
+    handler: () => clearClipboard(),
+    preview: () => previewClearClipboard(),
+  },
+];
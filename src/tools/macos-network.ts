@@ -6,6 +6,7 @@
  */
 
 import { execCommand } from "../core/exec.js";
+import type { ToolDefinition } from "../core/types.js";
 
 export interface NetworkConnection {
   protocol: string;
@@ -23,6 +24,19 @@ export interface PortInfo {
   protocol: string;
 }
 
+/**
+ * Rejects values that the target program would parse as a command-line flag.
+ * 
+ * @param value - User-supplied positional argument
+ * @param name - Parameter name for the error message
+ * @throws Error if the value starts with "-"
+ */
+function ensureNotOption(value: string, name: string): void {
+  if (value.startsWith("-")) {
+    throw new Error(`Invalid ${name}: must not start with "-" (got ${value})`);
+  }
+}
+
 /**
  * Lists active network connections.
  * 
@@ -38,7 +52,7 @@ export async function listConnections(state?: string): Promise<{
   connections: NetworkConnection[];
 }> {
   const result = await execCommand({
-    command: "netstat -anv | grep tcp",
+    argv: ["netstat", "-anv"],
     timeout_seconds: 10,
   });
   
@@ -46,6 +60,8 @@ export async function listConnections(state?: string): Promise<{
   const lines = result.stdout.trim().split("\n");
   
   for (const line of lines) {
+    if (!line.includes("tcp")) continue;
+    
     const parts = line.trim().split(/\s+/);
     if (parts.length >= 6) {
       const connState = parts[5];
@@ -86,7 +102,7 @@ export async function checkPort(port: number): Promise<{
   protocol?: string;
 }> {
   const result = await execCommand({
-    command: `lsof -i :${port} -P -n`,
+    argv: ["lsof", "-i", `:${port}`, "-P", "-n"],
     timeout_seconds: 5,
   });
   
@@ -130,10 +146,12 @@ export async function checkPort(port: number): Promise<{
 export async function listPorts(listening_only: boolean = true): Promise<{
   ports: PortInfo[];
 }> {
-  const listenFlag = listening_only ? "-P -iTCP -sTCP:LISTEN" : "-P -iTCP";
+  const listenFlags = listening_only
+    ? ["-P", "-iTCP", "-sTCP:LISTEN"]
+    : ["-P", "-iTCP"];
   
   const result = await execCommand({
-    command: `lsof ${listenFlag} -n`,
+    argv: ["lsof", ...listenFlags, "-n"],
     timeout_seconds: 10,
   });
   
@@ -197,8 +215,10 @@ export async function pingHost(host: string, count: number = 4): Promise<{
   avg_rtt_ms?: number;
   output: string;
 }> {
+  ensureNotOption(host, "host");
+  
   const result = await execCommand({
-    command: `ping -c ${count} ${host}`,
+    argv: ["ping", "-c", String(count), host],
     timeout_seconds: count + 5,
   });
   
@@ -238,8 +258,10 @@ export async function dnsLookup(hostname: string): Promise<{
   ip_addresses: string[];
   output: string;
 }> {
+  ensureNotOption(hostname, "hostname");
+  
   const result = await execCommand({
-    command: `nslookup ${hostname}`,
+    argv: ["nslookup", hostname],
     timeout_seconds: 10,
   });
   
@@ -279,7 +301,7 @@ export async function getNetworkInfo(): Promise<{
   }>;
 }> {
   const result = await execCommand({
-    command: "ifconfig",
+    argv: ["ifconfig"],
     timeout_seconds: 5,
   });
   
@@ -330,7 +352,7 @@ export async function testUrl(url: string): Promise<{
   const startTime = Date.now();
   
   const result = await execCommand({
-    command: `curl -o /dev/null -s -w "%{http_code}" -m 10 "${url}"`,
+    argv: ["curl", "-o", "/dev/null", "-s", "-w", "%{http_code}", "-m", "10", "--", url],
     timeout_seconds: 15,
   });
   
@@ -353,3 +375,132 @@ export async function testUrl(url: string): Promise<{
   }
 }
 
+/**
+ * Network tools exposed by the server
+ */
+export const networkTools: ToolDefinition[] = [
+  {
+    name: "macos_network_connections",
+    description:
+      "Lists active network connections.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        state: {
+          type: "string",
+          description: "Filter by state (e.g., ESTABLISHED, LISTEN)",
+        },
+      },
+    },
+    handler: (args: { state?: string }) => listConnections(args.state),
+  },
+  {
+    name: "macos_network_check_port",
+    description:
+      "Checks what process is using a specific port.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        port: {
+          type: "integer",
+          minimum: 1,
+          maximum: 65_535,
+          description: "Port number to check",
+        },
+      },
+      required: ["port"],
+    },
+    handler: (args: { port: number }) => checkPort(args.port),
+  },
+  {
+    name: "macos_network_list_ports",
+    description:
+      "Lists all ports currently in use.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        listening_only: {
+          type: "boolean",
+          description: "Only show listening ports (default: true)",
+        },
+      },
+    },
+    handler: (args: { listening_only?: boolean }) => listPorts(args.listening_only),
+  },
+  {
+    name: "macos_network_ping",
+    description:
+      "Pings a host to check connectivity.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        host: {
+          type: "string",
+          minLength: 1,
+          maxLength: 253,
+          description: "Hostname or IP address",
+        },
+        count: {
+          type: "integer",
+          minimum: 1,
+          maximum: 20,
+          description: "Number of pings (default: 4)",
+        },
+      },
+      required: ["host"],
+    },
+    handler: (args: { host: string; count?: number }) => pingHost(args.host, args.count),
+  },
+  {
+    name: "macos_network_dns_lookup",
+    description:
+      "Performs DNS lookup for a hostname.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        hostname: {
+          type: "string",
+          minLength: 1,
+          maxLength: 253,
+          description: "Hostname to look up",
+        },
+      },
+      required: ["hostname"],
+    },
+    handler: (args: { hostname: string }) => dnsLookup(args.hostname),
+  },
+  {
+    name: "macos_network_info",
+    description:
+      "Gets current network interface information (IP addresses, etc).",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    handler: () => getNetworkInfo(),
+  },
+  {
+    name: "macos_network_test_url",
+    description:
+      "Tests HTTP/HTTPS connectivity to a URL.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: {
+          type: "string",
+          format: "uri",
+          description: "URL to test",
+        },
+      },
+      required: ["url"],
+    },
+    handler: (args: { url: string }) => testUrl(args.url),
+  },
+];
@@ -6,6 +6,8 @@
  */
 
 import { execCommand } from "../core/exec.js";
+import { escapeAppleScriptString } from "../core/applescript.js";
+import type { ToolDefinition } from "../core/types.js";
 
 export interface AppleNote {
   id: string;
@@ -34,7 +36,7 @@ export async function listAppleNotes(
 ): Promise<{
   notes: AppleNote[];
 }> {
-  const folderFilter = folder ? `whose container's name is "${folder}"` : "";
+  const folderFilter = folder ? `whose container's name is "${escapeAppleScriptString(folder)}"` : "";
   
   const script = `
     tell application "Notes"
@@ -55,7 +57,7 @@ export async function listAppleNotes(
   `;
   
   const result = await execCommand({
-    command: `osascript -e '${script.replace(/'/g, "'\\''")}'`,
+    argv: ["osascript", "-e", script],
     timeout_seconds: 30,
     max_output_chars: 50000,
   });
@@ -107,9 +109,9 @@ export async function createAppleNote(
   folder: string;
 }> {
   // Escape single quotes for AppleScript
-  const escapedTitle = title.replace(/'/g, "'\\''");
-  const escapedBody = body.replace(/'/g, "'\\''");
-  const escapedFolder = folder.replace(/'/g, "'\\''");
+  const escapedTitle = escapeAppleScriptString(title);
+  const escapedBody = escapeAppleScriptString(body);
+  const escapedFolder = escapeAppleScriptString(folder);
   
   const script = `
     tell application "Notes"
@@ -120,7 +122,7 @@ export async function createAppleNote(
   `;
   
   const result = await execCommand({
-    command: `osascript -e '${script.replace(/'/g, "'\\''")}'`,
+    argv: ["osascript", "-e", script],
     timeout_seconds: 10,
   });
   
@@ -153,7 +155,7 @@ export async function searchAppleNotes(
 ): Promise<{
   matches: AppleNote[];
 }> {
-  const escapedQuery = query.replace(/'/g, "'\\''");
+  const escapedQuery = escapeAppleScriptString(query);
   
   const script = `
     tell application "Notes"
@@ -171,7 +173,7 @@ export async function searchAppleNotes(
   `;
   
   const result = await execCommand({
-    command: `osascript -e '${script.replace(/'/g, "'\\''")}'`,
+    argv: ["osascript", "-e", script],
     timeout_seconds: 30,
     max_output_chars: 50000,
   });
@@ -198,3 +200,81 @@ export async function searchAppleNotes(
   return { matches: matches.slice(0, limit) };
 }
 
+/**
+ * Apple Notes tools exposed by the server
+ */
+export const appleNotesTools: ToolDefinition[] = [
+  {
+    name: "macos_notes_list",
+    description:
+      "Lists notes from Apple Notes app. Can filter by folder name.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        folder: {
+          type: "string",
+          description: "Optional folder name to filter by",
+        },
+        limit: {
+          type: "integer",
+          minimum: 1,
+          description: "Maximum notes to return (default: 50)",
+        },
+      },
+    },
+    handler: (args: { folder?: string; limit?: number }) =>
+      listAppleNotes(args.folder, args.limit),
+  },
+  {
+    name: "macos_notes_create",
+    description:
+      "Creates a new note in Apple Notes app.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        title: {
+          type: "string",
+          minLength: 1,
+          maxLength: 500,
+          description: "Note title",
+        },
+        body: {
+          type: "string",
+          description: "Note content",
+        },
+        folder: {
+          type: "string",
+          description: "Optional folder name (default: Notes)",
+        },
+      },
+      required: ["title", "body"],
+    },
+    handler: (args: { title: string; body: string; folder?: string }) =>
+      createAppleNote(args.title, args.body, args.folder),
+  },
+  {
+    name: "macos_notes_search",
+    description:
+      "Searches Apple Notes by text content.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          minLength: 1,
+          description: "Search query",
+        },
+        limit: {
+          type: "integer",
+          minimum: 1,
+          description: "Maximum results (default: 20)",
+        },
+      },
+      required: ["query"],
+    },
+    handler: (args: { query: string; limit?: number }) =>
+      searchAppleNotes(args.query, args.limit),
+  },
+];
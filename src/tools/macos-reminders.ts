@@ -6,6 +6,8 @@
  */
 
 import { execCommand } from "../core/exec.js";
+import { escapeAppleScriptString } from "../core/applescript.js";
+import type { ToolDefinition } from "../core/types.js";
 
 export interface Reminder {
   name: string;
@@ -36,7 +38,7 @@ export async function listReminders(
 ): Promise<{
   reminders: Reminder[];
 }> {
-  const listFilter = list ? `of list "${list}"` : "";
+  const listFilter = list ? `of list "${escapeAppleScriptString(list)}"` : "";
   const completedFilter = completed ? "" : "whose completed is false";
   
   const script = `
@@ -54,7 +56,7 @@ export async function listReminders(
   `;
   
   const result = await execCommand({
-    command: `osascript -e '${script.replace(/'/g, "'\\''")}'`,
+    argv: ["osascript", "-e", script],
     timeout_seconds: 15,
   });
   
@@ -106,14 +108,14 @@ export async function createReminder(
   reminder_name: string;
   list: string;
 }> {
-  const escapedTitle = title.replace(/'/g, "'\\''");
-  const escapedList = list.replace(/'/g, "'\\''");
-  const escapedNotes = notes ? notes.replace(/'/g, "'\\''") : "";
+  const escapedTitle = escapeAppleScriptString(title);
+  const escapedList = escapeAppleScriptString(list);
+  const escapedNotes = notes ? escapeAppleScriptString(notes) : "";
   
   let dueDateScript = "";
   if (due_date) {
     // Parse common date formats
-    dueDateScript = `, due date:date "${due_date}"`;
+    dueDateScript = `, due date:date "${escapeAppleScriptString(due_date)}"`;
   }
   
   let notesScript = "";
@@ -130,7 +132,7 @@ export async function createReminder(
   `;
   
   const result = await execCommand({
-    command: `osascript -e '${script.replace(/'/g, "'\\''")}'`,
+    argv: ["osascript", "-e", script],
     timeout_seconds: 10,
   });
   
@@ -163,8 +165,8 @@ export async function completeReminder(
   success: boolean;
   reminder_name: string;
 }> {
-  const escapedName = reminderName.replace(/'/g, "'\\''");
-  const listFilter = list ? `of list "${list}"` : "";
+  const escapedName = escapeAppleScriptString(reminderName);
+  const listFilter = list ? `of list "${escapeAppleScriptString(list)}"` : "";
   
   const script = `
     tell application "Reminders"
@@ -179,7 +181,7 @@ export async function completeReminder(
   `;
   
   const result = await execCommand({
-    command: `osascript -e '${script.replace(/'/g, "'\\''")}'`,
+    argv: ["osascript", "-e", script],
     timeout_seconds: 10,
   });
   
@@ -199,3 +201,92 @@ export async function completeReminder(
   };
 }
 
+/**
+ * Reminders tools exposed by the server
+ */
+export const reminderTools: ToolDefinition[] = [
+  {
+    name: "macos_reminders_list",
+    description:
+      "Lists reminders from Apple Reminders app.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        list: {
+          type: "string",
+          description: "Optional list name to filter by",
+        },
+        completed: {
+          type: "boolean",
+          description: "Show completed reminders (default: false)",
+        },
+        limit: {
+          type: "integer",
+          minimum: 1,
+          description: "Maximum reminders to return (default: 50)",
+        },
+      },
+    },
+    handler: (args: { list?: string; completed?: boolean; limit?: number }) =>
+      listReminders(args.list, args.completed, args.limit),
+  },
+  {
+    name: "macos_reminders_create",
+    description:
+      "Creates a new reminder in Apple Reminders app.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        title: {
+          type: "string",
+          minLength: 1,
+          maxLength: 500,
+          description: "Reminder title/task",
+        },
+        list: {
+          type: "string",
+          description: "List name (default: Reminders)",
+        },
+        due_date: {
+          type: "string",
+          description: "Optional due date (e.g., 'tomorrow', '2024-12-25')",
+        },
+        notes: {
+          type: "string",
+          maxLength: 10_000,
+          description: "Optional notes/description",
+        },
+      },
+      required: ["title"],
+    },
+    handler: (args: {
+      title: string;
+      list?: string;
+      due_date?: string;
+      notes?: string;
+    }) => createReminder(args.title, args.list, args.due_date, args.notes),
+  },
+  {
+    name: "macos_reminders_complete",
+    description:
+      "Marks a reminder as complete in Apple Reminders app.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        reminder_name: {
+          type: "string",
+          minLength: 1,
+          description: "Name of the reminder to complete",
+        },
+        list: {
+          type: "string",
+          description: "Optional list name to search in",
+        },
+      },
+      required: ["reminder_name"],
+    },
+    handler: (args: { reminder_name: string; list?: string }) =>
+      completeReminder(args.reminder_name, args.list),
+  },
+];
@@ -5,7 +5,10 @@
  * and help diagnose performance issues on macOS.
  */
 
+import * as os from "os";
 import { execCommand } from "../core/exec.js";
+import { CONFIRMATION_TOKEN_SCHEMA } from "../core/confirm.js";
+import type { ToolDefinition } from "../core/types.js";
 
 export interface ProcessInfo {
   pid: number;
@@ -40,7 +43,7 @@ export interface SystemStats {
 export async function getSystemStats(): Promise<SystemStats> {
   // Get CPU usage
   const cpuResult = await execCommand({
-    command: "top -l 1 -n 0 | grep 'CPU usage'",
+    argv: ["top", "-l", "1", "-n", "0"],
     timeout_seconds: 5,
   });
   
@@ -51,7 +54,7 @@ export async function getSystemStats(): Promise<SystemStats> {
   
   // Get memory info
   const memResult = await execCommand({
-    command: "vm_stat | head -n 10",
+    argv: ["vm_stat"],
     timeout_seconds: 5,
   });
   
@@ -73,19 +76,20 @@ export async function getSystemStats(): Promise<SystemStats> {
   
   // Get disk usage
   const diskResult = await execCommand({
-    command: "df -H / | tail -n 1",
+    argv: ["df", "-H", "/"],
     timeout_seconds: 5,
   });
   
-  // Parse disk usage (e.g., "/dev/disk3s1s1  500G  250G  250G  50% /")
-  const diskParts = diskResult.stdout.trim().split(/\s+/);
+  // Parse disk usage from the last line (e.g., "/dev/disk3s1s1  500G  250G  250G  50% /")
+  const diskLines = diskResult.stdout.trim().split("\n");
+  const diskParts = diskLines[diskLines.length - 1].trim().split(/\s+/);
   const diskTotal = parseFloat(diskParts[1] || "0");
   const diskUsed = parseFloat(diskParts[2] || "0");
   const diskFree = parseFloat(diskParts[3] || "0");
   
   // Get uptime
   const uptimeResult = await execCommand({
-    command: "uptime",
+    argv: ["uptime"],
     timeout_seconds: 5,
   });
   
@@ -120,50 +124,47 @@ export async function listProcesses(
 ): Promise<{
   processes: ProcessInfo[];
 }> {
-  // Sort by CPU (column 3) or memory (column 4)
-  const sortColumn = sort_by === "memory" ? "4" : "3";
-  
   const result = await execCommand({
-    command: `ps aux | sort -k${sortColumn} -r | head -n ${limit + 1}`,
+    argv: ["ps", "aux"],
     timeout_seconds: 5,
+    max_output_chars: 500000,
   });
   
-  const processes: ProcessInfo[] = [];
+  // Total memory, used to convert %MEM into megabytes
+  const memResult = await execCommand({
+    argv: ["sysctl", "hw.memsize"],
+    timeout_seconds: 2,
+  });
+  const memMatch = memResult.stdout.match(/(\d+)/);
+  const totalMem = memMatch ? parseInt(memMatch[1]) : 0;
+  
+  const rows: Array<{ parts: string[]; cpu: number; mem: number }> = [];
   const lines = result.stdout.trim().split("\n");
   
   // Skip header line
-  for (let i = 1; i < lines.length && i <= limit; i++) {
-    const line = lines[i];
-    const parts = line.trim().split(/\s+/);
-    
+  for (let i = 1; i < lines.length; i++) {
+    const parts = lines[i].trim().split(/\s+/);
     if (parts.length >= 11) {
-      const user = parts[0];
-      const pid = parseInt(parts[1]);
-      const cpu = parseFloat(parts[2]);
-      const mem = parseFloat(parts[3]);
-      
-      // Process name is the rest after the first 10 fields
-      const name = parts.slice(10).join(" ");
-      
-      // Calculate memory in MB (percentage of total memory)
-      const memResult = await execCommand({
-        command: "sysctl hw.memsize",
-        timeout_seconds: 2,
-      });
-      const memMatch = memResult.stdout.match(/(\d+)/);
-      const totalMem = memMatch ? parseInt(memMatch[1]) : 0;
-      const memMB = (mem / 100) * (totalMem / (1024 * 1024));
-      
-      processes.push({
-        pid,
-        name,
-        cpu_percent: Math.round(cpu * 10) / 10,
-        memory_mb: Math.round(memMB),
-        user,
+      rows.push({
+        parts,
+        cpu: parseFloat(parts[2]),
+        mem: parseFloat(parts[3]),
       });
     }
   }
   
+  // Sort by CPU (column 3) or memory (column 4)
+  rows.sort((a, b) => (sort_by === "memory" ? b.mem - a.mem : b.cpu - a.cpu));
+  
+  const processes: ProcessInfo[] = rows.slice(0, limit).map(({ parts, cpu, mem }) => ({
+    pid: parseInt(parts[1]),
+    // Process name is the rest after the first 10 fields
+    name: parts.slice(10).join(" "),
+    cpu_percent: Math.round(cpu * 10) / 10,
+    memory_mb: Math.round((mem / 100) * (totalMem / (1024 * 1024))),
+    user: parts[0],
+  }));
+  
   return { processes };
 }
 
@@ -182,15 +183,19 @@ export async function findProcesses(pattern: string): Promise<{
   processes: ProcessInfo[];
 }> {
   const result = await execCommand({
-    command: `ps aux | grep -i "${pattern}" | grep -v grep`,
+    argv: ["ps", "aux"],
     timeout_seconds: 5,
+    max_output_chars: 500000,
   });
   
   const processes: ProcessInfo[] = [];
-  const lines = result.stdout.trim().split("\n");
+  const lowerPattern = pattern.toLowerCase();
+  
+  // Skip header line
+  const lines = result.stdout.trim().split("\n").slice(1);
   
   for (const line of lines) {
-    if (!line) continue;
+    if (!line || !line.toLowerCase().includes(lowerPattern)) continue;
     
     const parts = line.trim().split(/\s+/);
     if (parts.length >= 11) {
@@ -207,6 +212,43 @@ export async function findProcesses(pattern: string): Promise<{
   return { processes };
 }
 
+/**
+ * Describes the process killProcess would stop, for the confirmation preview.
+ * 
+ * @param pid - Process ID to kill
+ * @param force - Whether SIGKILL would be used (default: false)
+ * @returns The process's owner and command line, if it exists
+ */
+export async function previewKillProcess(
+  pid: number,
+  force: boolean = false
+): Promise<{
+  pid: number;
+  signal: string;
+  exists: boolean;
+  user?: string;
+  command?: string;
+}> {
+  if (!Number.isInteger(pid) || pid <= 0) {
+    throw new Error(`Invalid PID: ${pid}`);
+  }
+  
+  const result = await execCommand({
+    argv: ["ps", "-p", String(pid), "-o", "user=,command="],
+    timeout_seconds: 5,
+  });
+  
+  const line = result.stdout.trim();
+  const signal = force ? "SIGKILL" : "SIGTERM";
+  
+  if (result.exit_code !== 0 || !line) {
+    return { pid, signal, exists: false };
+  }
+  
+  const [user, ...command] = line.split(/\s+/);
+  return { pid, signal, exists: true, user, command: command.join(" ") };
+}
+
 /**
  * Kills a process by PID.
  * 
@@ -215,7 +257,8 @@ export async function findProcesses(pattern: string): Promise<{
  * - "Stop the node process on PID 5678"
  * - "Force quit process 9999"
  * 
- * **Note:** This is a destructive operation. Be careful!
+ * **Note:** This is a destructive operation. By default the server requires
+ * a confirmation round-trip (see previewKillProcess).
  * 
  * @param pid - Process ID to kill
  * @param force - Use SIGKILL (-9) instead of SIGTERM (default: false)
@@ -228,10 +271,15 @@ export async function killProcess(
   success: boolean;
   message: string;
 }> {
+  // Negative PIDs and 0 address process groups; never allow those
+  if (!Number.isInteger(pid) || pid <= 0) {
+    throw new Error(`Invalid PID: ${pid}`);
+  }
+  
   const signal = force ? "-9" : "-15";
   
   const result = await execCommand({
-    command: `kill ${signal} ${pid}`,
+    argv: ["kill", signal, String(pid)],
     timeout_seconds: 5,
   });
   
@@ -271,8 +319,12 @@ export async function analyzeDiskUsage(
     size_human: string;
   }>;
 }> {
+  // Expand ~ ourselves; there is no shell to do it
+  const target = path.startsWith("~") ? os.homedir() + path.slice(1) : path;
+  
+  // Permission errors go to stderr and are ignored; partial output is still useful
   const result = await execCommand({
-    command: `du -d ${depth} -h "${path}" 2>/dev/null | sort -hr | head -n 20`,
+    argv: ["du", "-d", String(depth), "-h", "--", target],
     timeout_seconds: 30,
     max_output_chars: 50000,
   });
@@ -288,7 +340,9 @@ export async function analyzeDiskUsage(
       
       // Parse size (e.g., "5.0G", "250M", "10K")
       let sizeGB = 0;
-      if (sizeStr.includes("G")) {
+      if (sizeStr.includes("T")) {
+        sizeGB = parseFloat(sizeStr) * 1024;
+      } else if (sizeStr.includes("G")) {
         sizeGB = parseFloat(sizeStr);
       } else if (sizeStr.includes("M")) {
         sizeGB = parseFloat(sizeStr) / 1024;
@@ -298,15 +352,127 @@ export async function analyzeDiskUsage(
       
       entries.push({
         name: dirPath,
-        size_gb: Math.round(sizeGB * 100) / 100,
+        size_gb: sizeGB,
         size_human: sizeStr,
       });
     }
   }
   
+  // Largest first, top 20
+  entries.sort((a, b) => b.size_gb - a.size_gb);
+  
   return {
     path,
-    entries,
+    entries: entries.slice(0, 20).map((entry) => ({
+      ...entry,
+      size_gb: Math.round(entry.size_gb * 100) / 100,
+    })),
   };
 }
 
+/**
+ * System monitoring tools exposed by the server
+ */
+export const systemTools: ToolDefinition[] = [
+  {
+    name: "macos_system_stats",
+    description:
+      "Gets overall system statistics (CPU usage, memory, disk space). Use this to check Mac performance and resources.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    handler: () => getSystemStats(),
+  },
+  {
+    name: "macos_process_list",
+    description:
+      "Lists running processes sorted by resource usage. Great for finding what's using CPU or memory.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        sort_by: {
+          type: "string",
+          enum: ["cpu", "memory"],
+          description: "Sort by cpu or memory (default: cpu)",
+        },
+        limit: {
+          type: "integer",
+          minimum: 1,
+          maximum: 500,
+          description: "Number of processes to return (default: 20)",
+        },
+      },
+    },
+    handler: (args: { sort_by?: "cpu" | "memory"; limit?: number }) =>
+      listProcesses(args.sort_by, args.limit),
+  },
+  {
+    name: "macos_process_find",
+    description:
+      "Finds processes by name or pattern. Useful for checking if specific apps are running.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        pattern: {
+          type: "string",
+          minLength: 1,
+          description: "Process name or pattern to search for",
+        },
+      },
+      required: ["pattern"],
+    },
+    handler: (args: { pattern: string }) => findProcesses(args.pattern),
+  },
+  {
+    name: "macos_process_kill",
+    description:
+      "Kills a process by PID. Use with caution - this is destructive! Requires confirmation: the first call returns a preview and a confirmation_token; repeat the call with that token to execute.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        pid: {
+          type: "integer",
+          minimum: 1,
+          description: "Process ID to kill",
+        },
+        force: {
+          type: "boolean",
+          description: "Use SIGKILL (-9) instead of SIGTERM (default: false)",
+        },
+        confirmation_token: CONFIRMATION_TOKEN_SCHEMA,
+      },
+      required: ["pid"],
+    },
+    handler: (args: { pid: number; force?: boolean }) =>
+      killProcess(args.pid, args.force),
+    preview: (args: { pid: number; force?: boolean }) =>
+      previewKillProcess(args.pid, args.force),
+  },
+  {
+    name: "macos_disk_usage",
+    description:
+      "Analyzes disk usage for a directory. Shows what's taking up space.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Directory path to analyze (default: home directory)",
+        },
+        depth: {
+          type: "integer",
+          minimum: 0,
+          maximum: 5,
+          description: "How deep to scan (default: 1)",
+        },
+      },
+    },
+    handler: (args: { path?: string; depth?: number }) =>
+      analyzeDiskUsage(args.path, args.depth),
+  },
+];
@@ -8,7 +8,7 @@
 import * as fs from "fs/promises";
 import * as fsSync from "fs";
 import { randomUUID } from "crypto";
-import type { Note } from "../core/types.js";
+import type { Note, ToolDefinition } from "../core/types.js";
 import { NOTES_DIR, NOTES_FILE } from "../config.js";
 
 /**
@@ -216,3 +216,77 @@ export async function searchNotes(
   return { matches };
 }
 
+/**
+ * Notes tools exposed by the server
+ */
+export const notesTools: ToolDefinition[] = [
+  {
+    name: "notes_add",
+    description:
+      "Adds a new note with optional tags. Notes are stored locally and persist across sessions. Useful for capturing ideas, TODOs, or reminders.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        text: {
+          type: "string",
+          minLength: 1,
+          maxLength: 10_000,
+          description: "The note content",
+        },
+        tags: {
+          type: "array",
+          items: { type: "string" },
+          maxItems: 20,
+          description: "Optional tags for categorization",
+        },
+      },
+      required: ["text"],
+    },
+    handler: (args: { text: string; tags?: string[] }) => addNote(args.text, args.tags),
+  },
+  {
+    name: "notes_list",
+    description:
+      "Lists notes, optionally filtered by tag. Returns notes sorted by newest first.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        tag: {
+          type: "string",
+          description: "Filter by tag (optional)",
+        },
+        limit: {
+          type: "integer",
+          minimum: 1,
+          description: "Maximum number of notes to return (default: 50)",
+        },
+      },
+    },
+    handler: (args: { tag?: string; limit?: number }) => listNotes(args.tag, args.limit),
+  },
+  {
+    name: "notes_search",
+    description:
+      "Searches notes by text or tags using substring matching. Returns matching notes sorted by newest first.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          minLength: 1,
+          description: "Search query (case-insensitive)",
+        },
+        limit: {
+          type: "integer",
+          minimum: 1,
+          description: "Maximum number of results (default: 20)",
+        },
+      },
+      required: ["query"],
+    },
+    handler: (args: { query: string; limit?: number }) =>
+      searchNotes(args.query, args.limit),
+  },
+];
@@ -10,7 +10,11 @@ import * as fsSync from "fs";
 import * as path from "path";
 import { resolveSafePath, findDirectoriesWithMarker } from "../core/paths.js";
 import { execCommand } from "../core/exec.js";
-import type { RepoInfo, TechStack } from "../core/types.js";
+import type {
+  RepoInfo,
+  TechStack,
+  ToolDefinition,
+} from "../core/types.js";
 
 /**
  * Lists all git repositories under a root directory.
@@ -218,7 +222,7 @@ export async function runTests(
   stderr: string;
   exit_code: number;
 }> {
-  const safePath = resolveSafePath(repoPath);
+  const safePath = resolveSafePath(repoPath, "write");
   
   // Auto-detect test command if not provided
   let command = testCommand;
@@ -246,3 +250,70 @@ export async function runTests(
   };
 }
 
+/**
+ * Project tools exposed by the server
+ */
+export const projectTools: ToolDefinition[] = [
+  {
+    name: "project_list_repos",
+    description:
+      "Recursively finds all git repositories under a root directory. Useful for discovering projects.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        root_path: {
+          type: "string",
+          description: "Root directory to search",
+        },
+        max_depth: {
+          type: "integer",
+          minimum: 1,
+          maximum: 10,
+          description: "Maximum search depth (default: 3)",
+        },
+      },
+      required: ["root_path"],
+    },
+    handler: (args: { root_path: string; max_depth?: number }) =>
+      listRepositories(args.root_path, args.max_depth),
+  },
+  {
+    name: "project_detect_stack",
+    description:
+      "Analyzes a repository to detect language, frameworks, and common commands (test, dev). Uses heuristics based on files like package.json, requirements.txt, etc.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        repo_path: {
+          type: "string",
+          description: "Path to the repository",
+        },
+      },
+      required: ["repo_path"],
+    },
+    handler: (args: { repo_path: string }) => detectTechStack(args.repo_path),
+  },
+  {
+    name: "project_run_tests",
+    description:
+      "Runs tests for a project. If test_command is not provided, attempts to auto-detect based on project structure.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repo_path: {
+          type: "string",
+          description: "Path to the repository",
+        },
+        test_command: {
+          type: "string",
+          description: "Test command to run (optional, will auto-detect)",
+        },
+      },
+      required: ["repo_path"],
+    },
+    handler: (args: { repo_path: string; test_command?: string }) =>
+      runTests(args.repo_path, args.test_command),
+  },
+];
@@ -0,0 +1,56 @@
+/**
+ * Server introspection tools.
+ * 
+ * These tools let you (or the assistant) see how the server itself is
+ * configured, which helps when a tool is unexpectedly disabled or a path
+ * is rejected.
+ */
+
+import { SETTINGS, TOOL_PROFILES } from "../config.js";
+import type { SettingReport, ToolDefinition, ToolProfile } from "../core/types.js";
+
+/**
+ * Shows the effective server configuration.
+ * 
+ * **When to use this tool:**
+ * - "Which directories can you access?"
+ * - "Why is git_push not available?"
+ * - "Where is my MCP config file, and is it being picked up?"
+ * 
+ * Each setting is reported with its value and the layer it came from:
+ * "default", the user or project config file, or an environment variable.
+ * 
+ * @returns Config file locations, the active profile, and every setting with its source
+ */
+export async function showServerConfig(): Promise<{
+  user_config_file: string | null;
+  project_config_file: string | null;
+  profile: ToolProfile & { name: string };
+  settings: Record<string, SettingReport>;
+}> {
+  const profileName = SETTINGS.values.profile;
+  
+  return {
+    user_config_file: SETTINGS.user_file,
+    project_config_file: SETTINGS.project_file,
+    profile: { name: profileName, ...TOOL_PROFILES[profileName] },
+    settings: SETTINGS.settings,
+  };
+}
+
+/**
+ * Server tools exposed by the server
+ */
+export const serverTools: ToolDefinition[] = [
+  {
+    name: "server_config_show",
+    description:
+      "Shows the server's effective configuration (allowed roots, limits, profile, confirmation settings, ...) and where each value came from: default, user config file, project config file, or environment variable.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    handler: () => showServerConfig(),
+  },
+];
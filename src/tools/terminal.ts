@@ -5,8 +5,29 @@
  * with safety guardrails and output management.
  */
 
-import { execCommand } from "../core/exec.js";
-import type { CommandResult, CommandOptions } from "../core/types.js";
+import * as path from "path";
+import { execCommand, checkCommandSafety, describeCommand } from "../core/exec.js";
+import { assertNotDenied } from "../core/paths.js";
+import {
+  CONFIRMATION_TOKEN_SCHEMA,
+  issueConfirmation,
+  consumeConfirmation,
+} from "../core/confirm.js";
+import {
+  startSession,
+  readSession,
+  writeSession,
+  stopSession,
+  listSessions,
+} from "../core/sessions.js";
+import type {
+  CommandResult,
+  CommandOptions,
+  ConfirmationRequest,
+  SessionInfo,
+  SessionReadResult,
+  ToolDefinition,
+} from "../core/types.js";
 
 /**
  * Runs a shell command in a specified directory.
@@ -15,20 +36,272 @@ import type { CommandResult, CommandOptions } from "../core/types.js";
  * - Running build commands (npm run build, cargo build)
  * - Installing dependencies (npm install, pip install -r requirements.txt)
  * - Checking system state (ls, ps, df)
- * - Running development servers or scripts
+ * - Running development servers or scripts (with `background: true`)
  * 
  * **Safety features:**
- * - Commands with dangerous patterns (rm -rf /, fork bombs) are blocked
+ * - Every command is checked against the command policy: dangerous commands
+ *   (rm -rf /, fork bombs, curl | sh) are blocked, and rules can require
+ *   user confirmation (the first call returns a preview and a one-time
+ *   confirmation token; call again with the token once the user approved)
+ * - `argv` runs a program directly without a shell, so arguments are never
+ *   interpreted as pipes, redirects or substitutions
  * - Output is truncated to prevent overwhelming responses
  * - Timeouts prevent runaway processes
  * - Dry-run mode allows previewing what would be executed
  * 
+ * With `background: true` the command is started as a session instead and
+ * this returns immediately with a session id; use readCommandSession to
+ * follow its output.
+ * 
  * @param options - Command execution options
- * @returns Command execution result with stdout, stderr, exit code, and metadata
+ * @returns Command execution result with stdout, stderr, exit code, and metadata,
+ *          the new session for background commands, or a confirmation request
+ *          for commands the policy asks about
+ * @throws Error if the confirmation token is invalid, expired or for other arguments
  */
 export async function runCommand(
-  options: CommandOptions
-): Promise<CommandResult> {
-  return execCommand(options);
+  options: CommandOptions & { background?: boolean; confirmation_token?: string }
+): Promise<CommandResult | SessionInfo | ConfirmationRequest> {
+  const { background = false, confirmation_token, ...commandOptions } = options;
+  
+  // Don't let commands run inside directories like ~/.ssh or ~/.aws
+  if (commandOptions.cwd) {
+    assertNotDenied(path.resolve(commandOptions.cwd));
+  }
+  
+  // "ask" rules: only a server-issued token for this exact call lets the command run
+  let confirmed = false;
+  if (!commandOptions.dry_run) {
+    const cwd = commandOptions.cwd || process.cwd();
+    const warning = checkCommandSafety(commandOptions, cwd);
+    
+    if (warning?.verdict === "needs_confirmation") {
+      if (confirmation_token === undefined) {
+        return issueConfirmation("terminal_run_command", options as Record<string, unknown>, {
+          command: describeCommand(commandOptions),
+          cwd,
+          background,
+          rule_id: warning.rule_id,
+          reason: warning.message,
+        });
+      }
+      consumeConfirmation("terminal_run_command", options as Record<string, unknown>);
+      confirmed = true;
+    }
+  }
+  
+  if (background && !commandOptions.dry_run) {
+    return startSession(commandOptions, confirmed);
+  }
+  
+  return execCommand(commandOptions, confirmed);
+}
+
+/**
+ * Reads new output from a background command session.
+ * 
+ * **When to use this tool:**
+ * - Checking whether a dev server has finished starting
+ * - Following a watcher or `tail -f`
+ * - Seeing the final output and exit code of a background job
+ * 
+ * @param sessionId - Session id returned by runCommand
+ * @param cursor - Cursor from the previous read (default: 0, from the start)
+ * @param maxChars - Maximum characters to return
+ * @returns New output, session state and the cursor for the next read
+ */
+export async function readCommandSession(
+  sessionId: string,
+  cursor?: number,
+  maxChars?: number
+): Promise<SessionReadResult> {
+  return readSession(sessionId, cursor, maxChars);
+}
+
+/**
+ * Sends input to a background command session's stdin.
+ * 
+ * **When to use this tool:**
+ * - Answering an interactive prompt
+ * - Sending commands to a REPL
+ * 
+ * @param sessionId - Session id returned by runCommand
+ * @param input - Text to write
+ * @param closeStdin - Close stdin afterwards (default: false)
+ * @returns Number of characters written
+ */
+export async function writeCommandSession(
+  sessionId: string,
+  input: string,
+  closeStdin?: boolean
+): Promise<{ session_id: string; chars_written: number }> {
+  return writeSession(sessionId, input, closeStdin);
+}
+
+/**
+ * Stops a background command session.
+ * 
+ * Sends SIGTERM to the session's process group and escalates to SIGKILL
+ * if it has not exited after a short grace period.
+ * 
+ * @param sessionId - Session id returned by runCommand
+ * @param force - Send SIGKILL immediately (default: false)
+ * @returns Final session state
+ */
+export async function stopCommandSession(
+  sessionId: string,
+  force?: boolean
+): Promise<SessionInfo> {
+  return stopSession(sessionId, force);
 }
 
+/**
+ * Lists background command sessions, running and finished.
+ * 
+ * @returns All sessions known to the server, newest first
+ */
+export async function listCommandSessions(): Promise<{
+  sessions: SessionInfo[];
+}> {
+  return { sessions: listSessions() };
+}
+
+/**
+ * Terminal tools exposed by the server
+ */
+export const terminalTools: ToolDefinition[] = [
+  {
+    name: "terminal_run_command",
+    description:
+      "Executes a shell command with safety features. Supports timeout, output truncation, and command policy checks (blocked commands are reported in warning; commands needing user confirmation return a preview and a confirmation_token, repeat the call with that token once the user approved). Use for running builds, scripts, installations, or checking system state. Pass argv instead of command to run a program directly without a shell.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        command: {
+          type: "string",
+          minLength: 1,
+          maxLength: 100_000,
+          description: "The shell command to execute",
+        },
+        argv: {
+          type: "array",
+          items: { type: "string" },
+          minItems: 1,
+          description: "Program and arguments to execute without a shell, e.g. [\"git\", \"log\", \"-n\", \"5\"] (alternative to command)",
+        },
+        cwd: {
+          type: "string",
+          description: "Working directory for the command (optional)",
+        },
+        timeout_seconds: {
+          type: "number",
+          minimum: 1,
+          maximum: 3600,
+          description: "Command timeout in seconds (default: 10)",
+        },
+        max_output_chars: {
+          type: "integer",
+          minimum: 1,
+          maximum: 1_000_000,
+          description: "Maximum output length in characters (default: 10000)",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "If true, don't execute, just preview (default: false)",
+        },
+        background: {
+          type: "boolean",
+          description: "Start as a background session and return a session_id immediately, for dev servers, watchers or tail -f (default: false)",
+        },
+        confirmation_token: CONFIRMATION_TOKEN_SCHEMA,
+      },
+    },
+    handler: (args: CommandOptions & { background?: boolean; confirmation_token?: string }) =>
+      runCommand(args),
+  },
+  {
+    name: "terminal_session_read",
+    description:
+      "Reads new output from a background command session. Pass the next_cursor from the previous read to get only output produced since then. Also reports whether the command is still running and its exit code.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {
+        session_id: {
+          type: "string",
+          description: "Session id returned by terminal_run_command with background: true",
+        },
+        cursor: {
+          type: "integer",
+          minimum: 0,
+          description: "next_cursor from the previous read (default: 0)",
+        },
+        max_chars: {
+          type: "integer",
+          minimum: 1,
+          description: "Maximum characters of output to return (default: 200000)",
+        },
+      },
+      required: ["session_id"],
+    },
+    handler: (args: { session_id: string; cursor?: number; max_chars?: number }) =>
+      readCommandSession(args.session_id, args.cursor, args.max_chars),
+  },
+  {
+    name: "terminal_session_write",
+    description:
+      "Writes text to the stdin of a running background command session, e.g. to answer a prompt.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        session_id: {
+          type: "string",
+          description: "Session id",
+        },
+        input: {
+          type: "string",
+          description: "Text to send (include a trailing newline for line-based programs)",
+        },
+        close_stdin: {
+          type: "boolean",
+          description: "Close stdin after writing (default: false)",
+        },
+      },
+      required: ["session_id", "input"],
+    },
+    handler: (args: { session_id: string; input: string; close_stdin?: boolean }) =>
+      writeCommandSession(args.session_id, args.input, args.close_stdin),
+  },
+  {
+    name: "terminal_session_stop",
+    description:
+      "Stops a background command session (SIGTERM, then SIGKILL after a grace period).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        session_id: {
+          type: "string",
+          description: "Session id",
+        },
+        force: {
+          type: "boolean",
+          description: "Send SIGKILL immediately (default: false)",
+        },
+      },
+      required: ["session_id"],
+    },
+    handler: (args: { session_id: string; force?: boolean }) =>
+      stopCommandSession(args.session_id, args.force),
+  },
+  {
+    name: "terminal_session_list",
+    description:
+      "Lists background command sessions with their command, status and exit code.",
+    readOnly: true,
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    handler: () => listCommandSessions(),
+  },
+];
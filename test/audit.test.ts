@@ -0,0 +1,93 @@
+/**
+ * Tests for argument sanitizing in the audit log (core/audit.ts).
+ * 
+ * The log location is read when config.ts is first imported, so the
+ * environment is set up before the module under test is loaded.
+ */
+
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+const base = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-audit-"));
+
+process.env.MCP_CONFIG_FILE = path.join(base, "no-config.json");
+process.env.MCP_DATA_DIR = path.join(base, "data");
+
+const { recordToolCall, readAuditEntries } = await import("../src/core/audit.js");
+
+after(() => fs.rmSync(base, { recursive: true, force: true }));
+
+/**
+ * Records a call with the given arguments and returns them as logged.
+ */
+async function logged(tool: string, args: Record<string, unknown>): Promise<Record<string, unknown>> {
+  recordToolCall({ tool, args, startedAt: Date.now(), result: { success: true } });
+  const [entry] = await readAuditEntries({ tool, limit: 1 });
+  return entry.args;
+}
+
+test("credential arguments are redacted", async () => {
+  const args = await logged("secrets", {
+    api_key: "k",
+    confirmation_token: "t",
+    password: "p",
+    auth: "a",
+    basic_auth: "b",
+    auth_header: "h",
+    Authorization: "Bearer x",
+    nested: { client_secret: "s" },
+  });
+  
+  assert.deepEqual(args, {
+    api_key: "[REDACTED]",
+    confirmation_token: "[REDACTED]",
+    password: "[REDACTED]",
+    auth: "[REDACTED]",
+    basic_auth: "[REDACTED]",
+    auth_header: "[REDACTED]",
+    Authorization: "[REDACTED]",
+    nested: { client_secret: "[REDACTED]" },
+  });
+});
+
+test("author and similar arguments are kept", async () => {
+  const args = await logged("git_log", {
+    repo_path: "/tmp/repo",
+    author: "Jane Doe <jane@example.com>",
+    authors: ["a", "b"],
+    authority: "x",
+  });
+  
+  assert.deepEqual(args, {
+    repo_path: "/tmp/repo",
+    author: "Jane Doe <jane@example.com>",
+    authors: ["a", "b"],
+    authority: "x",
+  });
+});
+
+test("secrets inside other arguments are redacted", async () => {
+  const github = "ghp_" + "a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8";
+  const args = await logged("terminal_run_command", {
+    command: `curl -H "Authorization: token ${github}" https://api.github.com/user`,
+    cwd: "/tmp",
+  });
+  
+  assert.deepEqual(args, {
+    command: 'curl -H "Authorization: token [REDACTED:github_token]" https://api.github.com/user',
+    cwd: "/tmp",
+  });
+});
+
+test("content is redacted before it is shortened", async () => {
+  const args = await logged("fs_write_file", {
+    path: "/tmp/.npmrc",
+    content: `${"x".repeat(480)}\nNPM_TOKEN=abc123def456\n${"y".repeat(100)}`,
+  });
+  
+  const redacted = `${"x".repeat(480)}\nNPM_TOKEN=[REDACTED:secret]\n${"y".repeat(100)}`;
+  assert.equal(args.content, `${redacted.slice(0, 500)}... [${redacted.length} chars]`);
+});
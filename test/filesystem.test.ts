@@ -0,0 +1,78 @@
+/**
+ * Tests for filesystem tools (tools/filesystem.ts), on a temporary directory.
+ * 
+ * Settings are read when config.ts is first imported, so the environment is
+ * set up before the modules under test are loaded.
+ */
+
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { randomBytes } from "crypto";
+import * as net from "net";
+
+const base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "mcp-filesystem-")));
+const root = path.join(base, "root");
+fs.mkdirSync(root);
+
+process.env.MCP_CONFIG_FILE = path.join(base, "no-config.json");
+process.env.MCP_DATA_DIR = path.join(base, "data");
+process.env.MCP_ALLOWED_ROOTS = root;
+
+const { readFile, grepFiles, copyPath } = await import("../src/tools/filesystem.js");
+const { listTrash } = await import("../src/core/trash.js");
+const { redactSecrets } = await import("../src/core/redact.js");
+
+after(() => fs.rmSync(base, { recursive: true, force: true }));
+
+test("binary files survive redaction as base64", async () => {
+  const bytes = randomBytes(4096);
+  const file = path.join(root, "random.bin");
+  fs.writeFileSync(file, bytes);
+  
+  const { value, counts } = redactSecrets(await readFile(file));
+  const result = value as { content: string; encoding: string };
+  
+  assert.equal(result.encoding, "base64");
+  assert.deepEqual(counts, {});
+  assert.deepEqual(Buffer.from(result.content, "base64"), bytes);
+});
+
+test("grep finds matches with line and column", async () => {
+  fs.mkdirSync(path.join(root, "src"));
+  fs.writeFileSync(path.join(root, "src", "a.ts"), "const a = 1;\n// TODO: fix\nconst b = 2; // todo\n");
+  
+  const result = await grepFiles(path.join(root, "src"), { pattern: "todo", case_insensitive: true });
+  
+  assert.deepEqual(
+    result.matches.map(({ line, column, match }) => ({ line, column, match })),
+    [
+      { line: 2, column: 4, match: "TODO" },
+      { line: 3, column: 17, match: "todo" },
+    ]
+  );
+});
+
+test("a failed copy over an existing destination puts the destination back", async () => {
+  const source = path.join(root, "with-socket");
+  const destination = path.join(root, "existing");
+  fs.mkdirSync(source);
+  fs.writeFileSync(path.join(source, "a.txt"), "new\n");
+  fs.mkdirSync(destination);
+  fs.writeFileSync(path.join(destination, "keep.txt"), "old\n");
+  
+  // fs.cp refuses to copy sockets, so the copy fails halfway
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(path.join(source, "z.sock"), resolve));
+  try {
+    await assert.rejects(copyPath(source, destination, true), /socket/i);
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+  
+  assert.deepEqual(fs.readdirSync(destination), ["keep.txt"]);
+  assert.equal(fs.readFileSync(path.join(destination, "keep.txt"), "utf-8"), "old\n");
+  assert.deepEqual(await listTrash(), []);
+});
@@ -0,0 +1,52 @@
+/**
+ * Tests for git tools (tools/git.ts), on a scratch repository.
+ * 
+ * Settings are read when config.ts is first imported, so the environment is
+ * set up before the modules under test are loaded.
+ */
+
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { execFileSync } from "child_process";
+
+const base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "mcp-git-")));
+const repo = path.join(base, "repo");
+fs.mkdirSync(path.join(repo, "src"), { recursive: true });
+execFileSync("git", ["init", "--quiet", repo]);
+fs.writeFileSync(path.join(repo, ".env"), "TOKEN=1\n");
+fs.writeFileSync(path.join(repo, "README.md"), "# repo\n");
+fs.writeFileSync(path.join(repo, "src", "index.ts"), "export {};\n");
+
+process.env.MCP_CONFIG_FILE = path.join(base, "no-config.json");
+process.env.MCP_DATA_DIR = path.join(base, "data");
+process.env.MCP_ALLOWED_ROOTS = base;
+
+const { stageGitChanges } = await import("../src/tools/git.js");
+
+after(() => fs.rmSync(base, { recursive: true, force: true }));
+
+/**
+ * Lists the files currently staged in the scratch repository.
+ */
+function stagedFiles(): string[] {
+  return execFileSync("git", ["diff", "--cached", "--name-only"], { cwd: repo, encoding: "utf-8" })
+    .split("\n")
+    .filter(Boolean);
+}
+
+test("pathspecs that cover a deny-listed file stage nothing", async () => {
+  for (const paths of [["."], ["*"], [repo], ["README.md", "."]]) {
+    await assert.rejects(stageGitChanges(repo, paths), /Refusing to stage files on the deny list: \.env/);
+    assert.deepEqual(stagedFiles(), [], paths.join(" "));
+  }
+  await assert.rejects(stageGitChanges(repo, [".env"]), /deny list/);
+});
+
+test("pathspecs that cover only allowed files are staged", async () => {
+  await stageGitChanges(repo, ["src", "README.md"]);
+  
+  assert.deepEqual(stagedFiles(), ["README.md", "src/index.ts"]);
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for path safety (core/paths.ts), on a temporary directory tree.
+ * 
+ * Settings are read when config.ts is first imported, so the environment is
+ * set up before the modules under test are loaded.
+ */
+
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+const base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "mcp-paths-")));
+const root = path.join(base, "root");
+const sibling = path.join(base, "root-secrets");
+const outside = path.join(base, "outside");
+const trusted = path.join(base, "trusted");
+const readOnly = path.join(base, "read-only");
+const nestedReadOnly = path.join(root, "downloads");
+
+for (const dir of [root, sibling, outside, trusted, readOnly, nestedReadOnly]) {
+  fs.mkdirSync(dir);
+}
+fs.writeFileSync(path.join(outside, "secret.txt"), "outside\n");
+fs.writeFileSync(path.join(root, "file.txt"), "inside\n");
+
+process.env.MCP_CONFIG_FILE = path.join(base, "no-config.json");
+process.env.MCP_DATA_DIR = path.join(base, "data");
+process.env.MCP_ALLOWED_ROOTS = [root, trusted].join(",");
+process.env.MCP_READ_ONLY_ROOTS = [readOnly, nestedReadOnly].join(",");
+process.env.MCP_SYMLINK_ROOTS = trusted;
+
+const { resolveSafePath, realpathAllowMissing, isWithinRoot, findDeniedPattern } = await import("../src/core/paths.js");
+
+after(() => fs.rmSync(base, { recursive: true, force: true }));
+
+test("paths inside a root resolve to themselves", () => {
+  assert.equal(resolveSafePath(path.join(root, "file.txt")), path.join(root, "file.txt"));
+  assert.equal(resolveSafePath("file.txt", "read", root), path.join(root, "file.txt"));
+});
+
+test("a sibling directory sharing the root's prefix is outside the root", () => {
+  assert.equal(isWithinRoot(path.join(sibling, "x"), root), false);
+  assert.throws(() => resolveSafePath(path.join(sibling, "x")), /outside allowed roots/);
+});
+
+test("../ segments cannot climb out of a root", () => {
+  assert.throws(() => resolveSafePath(path.join(root, "..", "outside", "secret.txt")), /outside allowed roots/);
+});
+
+test("a symlink inside a root cannot lead outside it", () => {
+  fs.symlinkSync(outside, path.join(root, "escape"));
+  
+  assert.throws(() => resolveSafePath(path.join(root, "escape", "secret.txt")), /through a symlink/);
+  assert.throws(() => resolveSafePath(path.join(root, "escape", "new.txt"), "write"), /through a symlink/);
+});
+
+test("a dangling symlink is checked where it points", () => {
+  fs.symlinkSync(path.join(outside, "missing.txt"), path.join(root, "dangling"));
+  fs.symlinkSync(path.join(root, "missing.txt"), path.join(root, "dangling-inside"));
+  
+  assert.equal(realpathAllowMissing(path.join(root, "dangling")), path.join(outside, "missing.txt"));
+  assert.throws(() => resolveSafePath(path.join(root, "dangling"), "write"), /through a symlink/);
+  assert.equal(
+    resolveSafePath(path.join(root, "dangling-inside"), "write"),
+    path.join(root, "dangling-inside")
+  );
+});
+
+test("missing paths are resolved through their nearest existing ancestor", () => {
+  fs.symlinkSync(outside, path.join(root, "linked-dir"));
+  
+  assert.equal(
+    realpathAllowMissing(path.join(root, "linked-dir", "a", "b", "c.txt")),
+    path.join(outside, "a", "b", "c.txt")
+  );
+  assert.equal(
+    resolveSafePath(path.join(root, "new", "deeper", "file.txt"), "write"),
+    path.join(root, "new", "deeper", "file.txt")
+  );
+  assert.throws(() => resolveSafePath(path.join(root, "linked-dir", "a", "new.txt"), "write"), /through a symlink/);
+});
+
+test("symlinks in a symlink root may point anywhere", () => {
+  fs.symlinkSync(outside, path.join(trusted, "elsewhere"));
+  
+  assert.equal(
+    resolveSafePath(path.join(trusted, "elsewhere", "secret.txt")),
+    path.join(trusted, "elsewhere", "secret.txt")
+  );
+});
+
+test("read-only roots can be read but not written", () => {
+  assert.equal(resolveSafePath(path.join(readOnly, "a.txt")), path.join(readOnly, "a.txt"));
+  assert.throws(() => resolveSafePath(path.join(readOnly, "a.txt"), "write"), /read-only root/);
+});
+
+test("a read-only root nested in an allowed root stays read-only", () => {
+  fs.symlinkSync(nestedReadOnly, path.join(root, "downloads-link"));
+  
+  assert.equal(resolveSafePath(path.join(nestedReadOnly, "a.zip")), path.join(nestedReadOnly, "a.zip"));
+  assert.throws(() => resolveSafePath(path.join(nestedReadOnly, "a.zip"), "write"), /read-only root/);
+  assert.throws(() => resolveSafePath(path.join(nestedReadOnly, "new", "b.zip"), "write"), /read-only root/);
+  assert.throws(() => resolveSafePath(path.join(root, "downloads-link", "a.zip"), "write"), /read-only root/);
+  assert.equal(resolveSafePath(path.join(root, "downloads.txt"), "write"), path.join(root, "downloads.txt"));
+});
+
+test("deny-listed paths are refused, also through a symlink", () => {
+  fs.writeFileSync(path.join(root, ".env"), "TOKEN=1\n");
+  fs.symlinkSync(path.join(root, ".env"), path.join(root, "notes.txt"));
+  
+  assert.throws(() => resolveSafePath(path.join(root, ".env")), /deny list/);
+  assert.throws(() => resolveSafePath(path.join(root, "notes.txt")), /deny list/);
+  assert.equal(resolveSafePath(path.join(root, ".env.example")), path.join(root, ".env.example"));
+});
+
+test("the deny list ignores case", () => {
+  assert.equal(findDeniedPattern(path.join(root, ".ENV")), ".env");
+  assert.equal(findDeniedPattern(path.join(root, ".SSH", "config")), ".ssh");
+  assert.equal(findDeniedPattern(path.join(root, "keys", "ID_RSA.pub")), "id_rsa*");
+  assert.equal(findDeniedPattern(path.join(root, ".Env.Example")), undefined);
+  assert.throws(() => resolveSafePath(path.join(root, ".ENV")), /deny list/);
+});
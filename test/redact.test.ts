@@ -0,0 +1,91 @@
+/**
+ * Tests for secret redaction (core/redact.ts).
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { redactText, redactSecrets } from "../src/core/redact.js";
+
+/**
+ * Redacts text and returns the result with the counts by type.
+ */
+function redact(text: string): { text: string; counts: Record<string, number> } {
+  const counts: Record<string, number> = {};
+  return { text: redactText(text, counts), counts };
+}
+
+test("code that mentions credential names is left alone", () => {
+  const code = [
+    "const token = getToken();",
+    "if (apiKey === undefined) return;",
+    "if (password == null) throw new Error();",
+    "tokens = tokenize(line)",
+    "tokens=tokenize(line)",
+    "function login(password: string, secretName: string) {}",
+    "const { accessKey } = credentials;",
+    "export const TOKEN_TTL = DEFAULT_TTL;",
+  ].join("\n");
+  
+  assert.deepEqual(redact(code), { text: code, counts: {} });
+});
+
+test("paths and integrity hashes are not high-entropy secrets", () => {
+  const text = [
+    "/Users/me/projects/SomeVeryLongDirectoryName2024/AnotherPart/file.ts",
+    "C:/Users/Me/Projects/AnotherQuiteLongFolderName2023x/Sub9Dir/Xyz",
+    '"integrity": "sha512-3Vq9bYgXh5ZQ4iZp0hN5C2yKfG8j1nDt7sWv6rTcUoLmEaPxB9y2Qw3Ze4Rk/7Fd+H1Jb0NgXt5Ys6Mu2Lc8A=="',
+    "integrity sha1-Kq5sNclPz7QV2+lfQIuu3ZrO/Vo=",
+  ].join("\n");
+  
+  assert.deepEqual(redact(text), { text, counts: {} });
+});
+
+test("quoted credential assignments are redacted", () => {
+  assert.equal(redact('{"api_key": "abc123def456"}').text, '{"api_key": "[REDACTED:secret]"}');
+  assert.equal(redact("password: 'hunter2'").text, "password: '[REDACTED:password]'");
+  assert.equal(redact('const token = "s3cr3t-value";').text, 'const token = "[REDACTED:secret]";');
+  assert.equal(redact('password: "${DB_PASSWORD}"').text, 'password: "${DB_PASSWORD}"');
+});
+
+test("env-style assignments at the start of a line are redacted", () => {
+  const env = "# settings\nDB_PASSWORD=hunter2\nexport API_KEY=abc123 # comment\n  SECRET_TOKEN=xyz\nDEBUG=true";
+  const { text, counts } = redact(env);
+  
+  assert.equal(
+    text,
+    "# settings\nDB_PASSWORD=[REDACTED:password]\nexport API_KEY=[REDACTED:secret] # comment\n  SECRET_TOKEN=[REDACTED:secret]\nDEBUG=true"
+  );
+  assert.deepEqual(counts, { password: 1, secret: 2 });
+  assert.equal(redact("API_KEY=abc123 npm start").text, "API_KEY=[REDACTED:secret] npm start");
+  assert.equal(redact("HOME_PATH=$HOME/x").text, "HOME_PATH=$HOME/x");
+});
+
+test("known token formats and random strings are redacted", () => {
+  const github = "ghp_" + "a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8";
+  assert.equal(redact(`token is ${github}`).text, "token is [REDACTED:github_token]");
+  assert.equal(redact(`GITHUB_TOKEN=${github}`).text, "GITHUB_TOKEN=[REDACTED:github_token]");
+  
+  const random = "Zx8Qp2Lr5Tn9Wv3Ks7Hd1Fg6Jm4Bc0Ny";
+  assert.equal(redact(`key ${random} end`).text, "key [REDACTED:high_entropy] end");
+  assert.equal(redact("hash 0123456789abcdef0123456789abcdef01234567").counts.high_entropy, undefined);
+});
+
+test("redactSecrets walks nested results and keeps keys", () => {
+  const { value, counts } = redactSecrets({ content: ["DB_PASSWORD=x1"], token: 3 });
+  
+  assert.deepEqual(value, { content: ["DB_PASSWORD=[REDACTED:password]"], token: 3 });
+  assert.deepEqual(counts, { password: 1 });
+});
+
+test("base64 payloads skip only the high-entropy pass", () => {
+  const random = "Zx8Qp2Lr5Tn9Wv3Ks7Hd1Fg6Jm4Bc0Ny";
+  const github = "ghp_" + "a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8";
+  const { value, counts } = redactSecrets({ encoding: "base64", content: `${random} ${github}`, note: random });
+  
+  assert.deepEqual(value, {
+    encoding: "base64",
+    content: `${random} [REDACTED:github_token]`,
+    note: "[REDACTED:high_entropy]",
+  });
+  assert.deepEqual(counts, { github_token: 1, high_entropy: 1 });
+});
@@ -0,0 +1,36 @@
+/**
+ * Tests for regular expression matching in a worker thread (core/regex.ts).
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createRegexMatcher } from "../src/core/regex.js";
+
+test("the first match on each line is reported, up to the limit", async () => {
+  const matcher = createRegexMatcher("b+", "i", 5);
+  try {
+    assert.deepEqual(await matcher.matchLines(["abba", "none", "xBx", "b"], 2), [
+      { line: 0, index: 1, text: "bb" },
+      { line: 2, index: 1, text: "B" },
+    ]);
+    assert.deepEqual(await matcher.matchLines(["b"], 10), [{ line: 0, index: 0, text: "b" }]);
+  } finally {
+    await matcher.close();
+  }
+});
+
+test("a catastrophic pattern is stopped without blocking the event loop", async () => {
+  const matcher = createRegexMatcher("(a+)+$", "", 0.5);
+  let ticks = 0;
+  const interval = setInterval(() => ticks++, 50);
+  
+  try {
+    const started = Date.now();
+    await assert.rejects(matcher.matchLines(["a".repeat(40) + "!"], 1), /did not finish within 0.5 seconds/);
+    assert.ok(Date.now() - started < 5000);
+    assert.ok(ticks >= 5, `event loop ticked ${ticks} times`);
+  } finally {
+    clearInterval(interval);
+    await matcher.close();
+  }
+});
@@ -0,0 +1,44 @@
+/**
+ * Tests for the startup checks of tool settings (core/registry.ts).
+ * 
+ * Settings are read when config.ts is first imported, so the environment is
+ * set up before the modules under test are loaded.
+ */
+
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+const base = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-registry-"));
+
+process.env.MCP_CONFIG_FILE = path.join(base, "no-config.json");
+process.env.MCP_DATA_DIR = path.join(base, "data");
+process.env.MCP_CONFIRM_TOOLS = "fs_delete=60,git_checkout=60,terminal_run_command=60,no_such_tool=60";
+
+const { registerTools, validateToolSettings } = await import("../src/core/registry.js");
+const { terminalTools } = await import("../src/tools/terminal.js");
+const { filesystemTools } = await import("../src/tools/filesystem.js");
+const { gitTools } = await import("../src/tools/git.js");
+const { systemTools } = await import("../src/tools/macos-system.js");
+const { clipboardTools } = await import("../src/tools/macos-clipboard.js");
+
+registerTools("terminal", terminalTools);
+registerTools("fs", filesystemTools);
+registerTools("git", gitTools);
+registerTools("macos_system", systemTools);
+registerTools("macos_clipboard", clipboardTools);
+
+after(() => fs.rmSync(base, { recursive: true, force: true }));
+
+test("confirm_tools entries that cannot be confirmed stop startup", () => {
+  assert.throws(validateToolSettings, (error: Error) => {
+    assert.equal(
+      error.message,
+      "Invalid confirm_tools: git_checkout does not support confirmation; " +
+        "terminal_run_command does not support confirmation; no_such_tool is not a known tool"
+    );
+    return true;
+  });
+});
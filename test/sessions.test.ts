@@ -0,0 +1,52 @@
+/**
+ * Tests for background command sessions (core/sessions.ts).
+ * 
+ * Settings are read when config.ts is first imported, so the environment is
+ * set up before the modules under test are loaded.
+ */
+
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+const base = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-sessions-"));
+
+process.env.MCP_CONFIG_FILE = path.join(base, "no-config.json");
+process.env.MCP_DATA_DIR = path.join(base, "data");
+process.env.MCP_POLICY_FILE = path.join(base, "no-policy.json");
+
+const { startSession, stopSession } = await import("../src/core/sessions.js");
+
+after(() => fs.rmSync(base, { recursive: true, force: true }));
+
+test("stopping a session ends it", async () => {
+  const { session_id } = startSession({ argv: ["sleep", "30"], cwd: base });
+  const info = await stopSession(session_id);
+  
+  assert.equal(info.running, false);
+  assert.equal(info.signal, "SIGTERM");
+  assert.equal(info.exit_unknown, undefined);
+});
+
+test("a process that never reports its exit does not hang stop", async () => {
+  const { session_id, pid } = startSession({ argv: ["sleep", "30"], cwd: base });
+  
+  // Swallow the signals, as an uninterruptible process would
+  const kill = process.kill;
+  process.kill = () => true;
+  let info;
+  try {
+    const started = Date.now();
+    info = await stopSession(session_id, false, 0.1);
+    assert.ok(Date.now() - started < 5000);
+  } finally {
+    process.kill = kill;
+    process.kill(-(pid as number), "SIGKILL");
+  }
+  
+  assert.equal(info.running, false);
+  assert.equal(info.signal, "SIGKILL");
+  assert.equal(info.exit_unknown, true);
+});
@@ -0,0 +1,58 @@
+/**
+ * Tests for layered settings loading (core/settings.ts).
+ */
+
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { loadSettings, type SettingDefinitions } from "../src/core/settings.js";
+
+const base = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-settings-"));
+const configFile = path.join(base, "config.json");
+fs.writeFileSync(configFile, "{}");
+
+process.env.MCP_CONFIG_FILE = configFile;
+
+after(() => fs.rmSync(base, { recursive: true, force: true }));
+
+const definitions: SettingDefinitions<{ redact: boolean }> = {
+  redact: {
+    description: "A boolean setting",
+    schema: { type: "boolean" },
+    default: true,
+    env: "MCP_TEST_REDACT",
+  },
+};
+
+/**
+ * Loads the test setting with the environment variable set to `raw`.
+ */
+function loadWithEnv(raw: string) {
+  process.env.MCP_TEST_REDACT = raw;
+  try {
+    return loadSettings(definitions);
+  } finally {
+    delete process.env.MCP_TEST_REDACT;
+  }
+}
+
+test("boolean environment variables accept the usual words", () => {
+  for (const raw of ["1", "true", "YES", " on "]) {
+    assert.deepEqual(loadWithEnv(raw).values, { redact: true }, raw);
+  }
+  for (const raw of ["0", "false", "No", "off"]) {
+    assert.deepEqual(loadWithEnv(raw).values, { redact: false }, raw);
+  }
+});
+
+test("other boolean values are reported instead of turning the setting off", () => {
+  for (const raw of ["ture", "enabled", "2"]) {
+    const { values, errors } = loadWithEnv(raw);
+    
+    assert.equal(values.redact, true, raw);
+    assert.equal(errors.length, 1, raw);
+    assert.match(errors[0], new RegExp(`^env MCP_TEST_REDACT: redact .*\\(value: "${raw}"\\)$`));
+  }
+});
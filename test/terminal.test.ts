@@ -0,0 +1,71 @@
+/**
+ * Tests for command confirmation in terminal_run_command (tools/terminal.ts).
+ * 
+ * The policy file is read through config.ts, so the environment is set up
+ * before the module under test is loaded.
+ */
+
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+const base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "mcp-terminal-")));
+const policyFile = path.join(base, "policy.json");
+
+fs.writeFileSync(
+  policyFile,
+  JSON.stringify({ rules: [{ id: "ask-echo", action: "ask", executable: "echo" }] })
+);
+
+process.env.MCP_CONFIG_FILE = path.join(base, "no-config.json");
+process.env.MCP_DATA_DIR = path.join(base, "data");
+process.env.MCP_POLICY_FILE = policyFile;
+
+const { runCommand } = await import("../src/tools/terminal.js");
+
+after(() => fs.rmSync(base, { recursive: true, force: true }));
+
+test("a command the policy asks about returns a preview and a token instead of running", async () => {
+  const result: any = await runCommand({ command: "echo hello", cwd: base });
+  
+  assert.equal(result.confirmation_required, true);
+  assert.equal(result.tool, "terminal_run_command");
+  assert.equal(result.preview.command, "echo hello");
+  assert.equal(result.preview.rule_id, "ask-echo");
+  assert.equal(result.stdout, undefined);
+});
+
+test("the token runs exactly the previewed command, once", async () => {
+  const request: any = await runCommand({ command: "echo hello", cwd: base });
+  const token = request.confirmation_token;
+  
+  const result: any = await runCommand({ command: "echo hello", cwd: base, confirmation_token: token });
+  assert.equal(result.stdout.trim(), "hello");
+  
+  await assert.rejects(
+    runCommand({ command: "echo hello", cwd: base, confirmation_token: token }),
+    /Invalid or expired confirmation token/
+  );
+});
+
+test("a token does not confirm different arguments or a made-up token", async () => {
+  const request: any = await runCommand({ command: "echo hello", cwd: base });
+  
+  await assert.rejects(
+    runCommand({ command: "echo goodbye", cwd: base, confirmation_token: request.confirmation_token }),
+    /Arguments differ/
+  );
+  await assert.rejects(
+    runCommand({ command: "echo hello", cwd: base, confirmation_token: "0".repeat(32) }),
+    /Invalid or expired confirmation token/
+  );
+});
+
+test("commands the policy allows run without a token", async () => {
+  const result: any = await runCommand({ argv: ["printf", "ok"], cwd: base });
+  
+  assert.equal(result.stdout, "ok");
+  assert.equal(result.warning, undefined);
+});